@@ -0,0 +1,5 @@
+import { Stack } from "expo-router";
+
+export default function DispatcherLayout() {
+  return <Stack screenOptions={{ headerShown: false }} />;
+}
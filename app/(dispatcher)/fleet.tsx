@@ -0,0 +1,277 @@
+// screens/FleetScreen.tsx
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Alert,
+  Dimensions,
+  SafeAreaView,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import MapView from "react-native-maps";
+import { io, Socket } from "socket.io-client";
+import { GeofenceOverlays } from "@/components/GeofenceOverlays";
+import { LocationMarker } from "@/components/LocationMarker";
+import { useGeofences } from "@/hooks/useGeofences";
+import { useRegion } from "@/hooks/useRegion";
+import { isSocketAuthError, WEBSOCKET_URL } from "@/lib/api";
+import {
+  FLEET_LOCATION_EVENT,
+  FLEET_SUBSCRIBE_EVENT,
+  FLEET_UNSUBSCRIBE_EVENT,
+  FleetLocationBroadcast,
+  FleetState,
+  formatLastSeen,
+  isVehicleStale,
+  upsertVehiclePosition,
+  VehiclePosition,
+} from "@/lib/fleetTracking";
+import { useAuth } from "../AuthContext";
+
+const { height } = Dimensions.get("window");
+
+// Frecuencia con la que se recalculan "última vez" y desactualizados
+const CLOCK_TICK_MS = 10000;
+
+export default function FleetScreen() {
+  const { user, logout, getAccessToken, refreshSession } = useAuth();
+  const { initialMapRegion } = useRegion();
+  const { geofences } = useGeofences();
+
+  const [fleet, setFleet] = useState<FleetState>({});
+  const [isConnected, setIsConnected] = useState(false);
+  const [connectionStatus, setConnectionStatus] = useState("Desconectado");
+  const [now, setNow] = useState(Date.now());
+
+  const socketRef = useRef<Socket | null>(null);
+  const mapRef = useRef<MapView>(null);
+  const authRetryRef = useRef(false);
+
+  useEffect(() => {
+    connectToFleet();
+    const clock = setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+
+    return () => {
+      clearInterval(clock);
+      if (socketRef.current) {
+        socketRef.current.emit(FLEET_UNSUBSCRIBE_EVENT);
+        socketRef.current.disconnect();
+        socketRef.current = null;
+      }
+    };
+  }, []);
+
+  // ✅ FUNCIÓN: Conectar y suscribirse a las ubicaciones de la flota
+  const connectToFleet = async () => {
+    try {
+      setConnectionStatus("Conectando...");
+
+      const token = await getAccessToken();
+      if (!token) {
+        setConnectionStatus("Error de autenticación");
+        return;
+      }
+
+      const socket = io(WEBSOCKET_URL, {
+        auth: { token },
+        transports: ["websocket", "polling"],
+        timeout: 10000,
+        reconnection: true,
+        reconnectionDelay: 2000,
+      });
+
+      socketRef.current = socket;
+
+      socket.on("connect", () => {
+        console.log("✅ Despacho conectado al WebSocket");
+        authRetryRef.current = false;
+        setIsConnected(true);
+        setConnectionStatus("Conectado");
+        socket.emit(FLEET_SUBSCRIBE_EVENT);
+      });
+
+      socket.on(FLEET_LOCATION_EVENT, (update: FleetLocationBroadcast) => {
+        if (!update?.vehicleId) return;
+        setFleet((prev) => upsertVehiclePosition(prev, update));
+      });
+
+      socket.on("disconnect", (reason) => {
+        console.log("❌ Despacho desconectado:", reason);
+        setIsConnected(false);
+        setConnectionStatus(`Desconectado: ${reason}`);
+      });
+
+      socket.on("connect_error", async (error) => {
+        console.error("❌ Error de conexión:", error);
+
+        // Token vencido o rechazado: renovar la sesión y reintentar una vez
+        if (isSocketAuthError(error) && !authRetryRef.current) {
+          authRetryRef.current = true;
+          const refreshedToken = await refreshSession();
+          if (refreshedToken) {
+            socket.auth = { token: refreshedToken };
+            socket.connect();
+          }
+          return;
+        }
+
+        setIsConnected(false);
+        setConnectionStatus(`Error: ${error.message}`);
+      });
+    } catch (error) {
+      console.error("Error conectando:", error);
+      setConnectionStatus("Error de conexión");
+    }
+  };
+
+  // ✅ FUNCIÓN: Centrar el mapa en un vehículo
+  const focusVehicle = (position: VehiclePosition) => {
+    mapRef.current?.animateToRegion(
+      {
+        latitude: position.latitude,
+        longitude: position.longitude,
+        latitudeDelta: 0.01,
+        longitudeDelta: 0.01,
+      },
+      1000
+    );
+  };
+
+  // ✅ FUNCIÓN: Logout
+  const handleLogout = () => {
+    Alert.alert(
+      "👋 Cerrar Sesión",
+      "¿Estás seguro de que quieres cerrar sesión?",
+      [
+        { text: "Cancelar", style: "cancel" },
+        {
+          text: "Cerrar Sesión",
+          style: "destructive",
+          onPress: () => logout(),
+        },
+      ]
+    );
+  };
+
+  const vehicles = Object.values(fleet).sort((a, b) =>
+    a.vehicleId.localeCompare(b.vehicleId)
+  );
+  const staleCount = vehicles.filter((v) => isVehicleStale(v, now)).length;
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50">
+      <StatusBar barStyle="dark-content" backgroundColor="#fff" />
+
+      <MapView
+        ref={mapRef}
+        style={styles.map}
+        initialRegion={initialMapRegion}
+        mapType="standard"
+      >
+        <GeofenceOverlays geofences={geofences} />
+        {vehicles.map((position) => {
+          const stale = isVehicleStale(position, now);
+          return (
+            <LocationMarker
+              key={position.vehicleId}
+              coordinate={{
+                latitude: position.latitude,
+                longitude: position.longitude,
+              }}
+              accuracy={position.accuracy}
+              title={`🚗 ${position.vehicleId}`}
+              description={`${formatLastSeen(position, now)} · ${Math.round(
+                (position.speed || 0) * 3.6
+              )} km/h${stale ? " · ⚠️ Sin reportar" : ""}`}
+              status={stale ? "stale" : "active"}
+            />
+          );
+        })}
+      </MapView>
+
+      <View
+        className="absolute bottom-0 left-0 right-0 bg-white rounded-tl-3xl rounded-tr-3xl shadow-2xl"
+        style={{ maxHeight: height * 0.45 }}
+      >
+        {/* Header */}
+        <View className="flex-row justify-between items-center p-5 pb-3 border-b border-gray-100">
+          <View>
+            <Text className="text-xl font-bold text-gray-800">
+              🛰️ Panel de Despacho
+            </Text>
+            <Text className="text-sm text-gray-600 mt-1">
+              {user?.email} · {user?.role}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={handleLogout} className="p-2">
+            <Ionicons name="log-out-outline" size={24} color="#FF3B30" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView showsVerticalScrollIndicator={false}>
+          <View className="p-5 pb-2">
+            <View className="flex-row items-center mb-2">
+              <View
+                className={`w-2 h-2 rounded-full mr-3 ${isConnected ? "bg-green-500" : "bg-red-500"}`}
+              />
+              <Text className="text-sm text-gray-700">{connectionStatus}</Text>
+            </View>
+            <Text className="text-sm text-gray-700">
+              Vehículos: {vehicles.length}
+              {staleCount > 0 ? ` · ${staleCount} sin reportar` : ""}
+            </Text>
+          </View>
+
+          {vehicles.length === 0 ? (
+            <Text className="text-sm text-gray-500 text-center p-5">
+              Esperando ubicaciones de la flota...
+            </Text>
+          ) : (
+            <View className="px-5 pb-5">
+              {vehicles.map((position) => {
+                const stale = isVehicleStale(position, now);
+                return (
+                  <TouchableOpacity
+                    key={position.vehicleId}
+                    className="bg-gray-50 p-3 rounded-lg mb-2"
+                    onPress={() => focusVehicle(position)}
+                  >
+                    <View className="flex-row justify-between items-center mb-1">
+                      <Text className="text-sm font-bold text-gray-800">
+                        🚗 {position.vehicleId}
+                      </Text>
+                      <Text
+                        className={`text-xs ${stale ? "text-red-600 font-semibold" : "text-gray-600"}`}
+                      >
+                        {stale ? "⚠️ " : ""}
+                        {formatLastSeen(position, now)}
+                      </Text>
+                    </View>
+                    <Text className="text-xs text-gray-600">
+                      Velocidad: {Math.round((position.speed || 0) * 3.6)} km/h
+                      {position.accuracy
+                        ? ` · Precisión: ±${Math.round(position.accuracy)}m`
+                        : ""}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+        </ScrollView>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  map: {
+    flex: 1,
+    width: "100%",
+    height: "100%",
+  },
+});
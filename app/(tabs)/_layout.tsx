@@ -1,13 +1,5 @@
 import { Stack } from "expo-router";
-import { AuthProvider } from "../AuthContext";
 
-export default function RootLayout() {
-  return (
-    <AuthProvider>
-      <Stack screenOptions={{ headerShown: false }}>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="+not-found" />
-      </Stack>
-    </AuthProvider>
-  );
+export default function TabsLayout() {
+  return <Stack screenOptions={{ headerShown: false }} />;
 }
@@ -1,7 +1,7 @@
 // screens/DriverScreen.tsx
 import { Ionicons } from "@expo/vector-icons";
 import * as Location from "expo-location";
-import * as SecureStore from "expo-secure-store";
+import { useRouter } from "expo-router";
 import React, { useEffect, useRef, useState } from "react";
 import {
   Alert,
@@ -14,128 +14,270 @@ import {
   StyleSheet,
   Text,
   TouchableOpacity,
+  Vibration,
   View,
 } from "react-native";
-import MapView, { Circle, Marker, Polyline } from "react-native-maps";
-import { io, Socket } from "socket.io-client";
+import MapView, { Marker, Polyline } from "react-native-maps";
+import type { Socket } from "socket.io-client";
+import { ChatPanel } from "@/components/ChatPanel";
+import { GeofenceOverlays } from "@/components/GeofenceOverlays";
+import { JobCard } from "@/components/JobCard";
+import { JobMarkers } from "@/components/JobMarkers";
+import { LocationMarker } from "@/components/LocationMarker";
+import { ReplayControls } from "@/components/ReplayControls";
+import { RoutePanel } from "@/components/RoutePanel";
+import { SosAlertBanner } from "@/components/SosAlertBanner";
+import { SosButton } from "@/components/SosButton";
+import { useChat } from "@/hooks/useChat";
+import { useConnection } from "@/hooks/useConnection";
+import { useDispatchJobs } from "@/hooks/useDispatchJobs";
+import { useGeofences } from "@/hooks/useGeofences";
+import { useRegion } from "@/hooks/useRegion";
+import { useRoutePreview } from "@/hooks/useRoutePreview";
+import { useSettings } from "@/hooks/useSettings";
+import { useSos } from "@/hooks/useSos";
+import { useTrackReplay } from "@/hooks/useTrackReplay";
+import { useTrip } from "@/hooks/useTrip";
+import { VehiclePicker } from "@/components/VehiclePicker";
+import { WEBSOCKET_URL } from "@/lib/api";
+import { createBackgroundRelay } from "@/lib/backgroundRelay";
+import {
+  isBackgroundTrackingActive,
+  requestBackgroundPermissions,
+  setBackgroundLocationHandler,
+  startBackgroundTracking,
+  stopBackgroundTracking,
+  toLocationData,
+} from "@/lib/backgroundLocation";
+import {
+  createFixFilterState,
+  FixFilterCounters,
+  filterFix,
+} from "@/lib/fixFilter";
+import {
+  appendGeofenceEvents,
+  deliverGeofenceEvents,
+  getUndeliveredGeofenceEvents,
+} from "@/lib/geofenceLog";
+import { GeofenceEvent, getGeofenceCenter } from "@/lib/geofences";
+import {
+  DispatchJob,
+  getJobRouteTarget,
+  JOB_ASSIGNED_EVENT,
+  JOB_CANCELLED_EVENT,
+  JOB_STATUS_LABELS,
+} from "@/lib/jobs";
+import {
+  createLocationBatcher,
+  LocationBatcher,
+} from "@/lib/locationBatcher";
+import {
+  createClientId,
+  emitLocationBatchWithAck,
+  emitLocationWithAck,
+  fetchServerCapabilities,
+  LocationRejectedError,
+  ServerCapabilities,
+} from "@/lib/locationDelivery";
+import {
+  getRecentLocations,
+  pruneHistory,
+  recordLocation,
+  setLocationDeliveryState,
+} from "@/lib/locationHistory";
+import {
+  drainOutbox,
+  drainOutboxInBatches,
+  enqueueLocation,
+  getOutboxSize,
+  OutboxEntry,
+} from "@/lib/locationOutbox";
+import {
+  claimVehicle,
+  clearAssignedVehicle,
+  getVehicleLabel,
+  loadAssignedVehicle,
+  releaseVehicle,
+  saveAssignedVehicle,
+  Vehicle,
+} from "@/lib/vehicles";
+import {
+  createSamplerState,
+  MotionState,
+  sampleFix,
+} from "@/lib/motionSampler";
+import {
+  EMERGENCY_SAMPLING_POLICY,
+  getWatchOptions,
+  MOTION_STATE_LABELS,
+  SAMPLING_PRESET_LABELS,
+  SAMPLING_PRESETS,
+} from "@/lib/samplingPolicy";
+import { CHAT_MESSAGE_EVENT } from "@/lib/chat";
+import { describeConnection } from "@/lib/connectionManager";
+import {
+  getRegionDepot,
+  getRegionRoutes,
+  RegionProfile,
+} from "@/lib/regions";
+import { isRoutingConfigured, RouteTarget } from "@/lib/routing";
+import { getSettings, loadSettings } from "@/lib/settings";
+import { SOS_ACKNOWLEDGED_EVENT } from "@/lib/sos";
+import {
+  createRng,
+  createSeed,
+  Rng,
+  SIMULATION_SCENARIOS,
+  simulateRoute,
+} from "@/lib/simulation";
+import { pickTrackFile } from "@/lib/trackImport";
+import { TrackImportError } from "@/lib/trackParsers";
+import { formatDuration, syncTripSummaries } from "@/lib/trips";
+import {
+  addFix,
+  createTripStats,
+  getMeanAccuracy,
+  TripStats,
+} from "@/lib/tripStats";
+import type {
+  DeliveryState,
+  LocationData,
+  LocationPayload,
+  LocationType,
+} from "@/lib/locationTypes";
 import { useAuth } from "../AuthContext";
 
 // Obtener dimensiones de la pantalla
 const { width, height } = Dimensions.get("window");
 
-// Coordenadas de Cartagena
-const CARTAGENA_COORDS = {
-  latitude: 10.391,
-  longitude: -75.4794,
-  latitudeDelta: 0.05,
-  longitudeDelta: 0.05,
-};
+// Generar ubicación aleatoria dentro de los límites de la región
+const generateRegionTestLocation = (region: RegionProfile, rng: Rng) => {
+  const { bounds } = region;
 
-// Generar ubicación aleatoria en Cartagena para pruebas
-const generateCartagenaTestLocation = () => {
-  const bounds = {
-    north: 10.5,
-    south: 10.28,
-    east: -75.35,
-    west: -75.6,
+  return {
+    latitude: rng.range(bounds.south, bounds.north),
+    longitude: rng.range(bounds.west, bounds.east),
   };
-
-  const lat = bounds.south + Math.random() * (bounds.north - bounds.south);
-  const lng = bounds.west + Math.random() * (bounds.east - bounds.west);
-
-  return { latitude: lat, longitude: lng };
 };
 
-// Generar datos aleatorios de prueba
-const generateRandomTestData = () => {
-  const testScenarios = [
-    { name: "Centro Histórico", lat: 10.4236, lng: -75.5378 },
-    { name: "Bocagrande", lat: 10.3997, lng: -75.5513 },
-    { name: "Castillo San Felipe", lat: 10.4219, lng: -75.5433 },
-    { name: "Getsemaní", lat: 10.42, lng: -75.55 },
-    { name: "La Matuna", lat: 10.418, lng: -75.542 },
-    { name: "Manga", lat: 10.405, lng: -75.525 },
-    { name: "Pie de la Popa", lat: 10.41, lng: -75.53 },
-    { name: "Crespo", lat: 10.43, lng: -75.52 },
-  ];
-
-  const randomScenario =
-    testScenarios[Math.floor(Math.random() * testScenarios.length)];
+// Generar datos aleatorios de prueba cerca de los puntos de interés de la región
+const generateRandomTestData = (region: RegionProfile, rng: Rng) => {
+  const pointOfInterest = rng.pick(region.pointsOfInterest);
   const randomOffset = 0.002;
 
   return {
-    latitude: randomScenario.lat + (Math.random() - 0.5) * randomOffset,
-    longitude: randomScenario.lng + (Math.random() - 0.5) * randomOffset,
-    name: randomScenario.name,
-    accuracy: Math.floor(Math.random() * 20) + 5,
-    speed: Math.random() * 50,
+    latitude: pointOfInterest.latitude + rng.range(-0.5, 0.5) * randomOffset,
+    longitude: pointOfInterest.longitude + rng.range(-0.5, 0.5) * randomOffset,
+    name: pointOfInterest.name,
+    accuracy: Math.floor(rng.range(5, 25)),
+    speed: rng.range(0, 50),
   };
 };
 
-// Generar rutas aleatorias de prueba
-const generateRandomRoute = (startLocation: any, duration: number = 10) => {
-  const route = [startLocation];
-  let currentLat = startLocation.latitude;
-  let currentLng = startLocation.longitude;
-
-  for (let i = 1; i < duration; i++) {
-    currentLat += (Math.random() - 0.5) * 0.001;
-    currentLng += (Math.random() - 0.5) * 0.001;
-
-    route.push({
-      latitude: currentLat,
-      longitude: currentLng,
-      timestamp: new Date(Date.now() + i * 30000).toISOString(),
-    });
-  }
-
-  return route;
-};
+// Antigüedad máxima del último fix para adjuntarlo a una alerta SOS
+const SOS_FIX_MAX_AGE_MS = 15000;
 
 // Interfaces
-interface LocationData {
-  latitude: number;
-  longitude: number;
-  accuracy?: number;
-  timestamp: string;
-  speed?: number;
-  heading?: number;
-}
+// Ubicaciones que se mantienen en pantalla; el resto queda en el historial
+const MAX_SESSION_LOCATIONS = 100;
 
 interface SentLocation extends LocationData {
   id: string;
-  type: "manual" | "auto" | "test" | "random";
+  type: LocationType;
+  deliveryState: DeliveryState;
 }
 
 interface SessionStats {
   totalLocationsSent: number;
   sessionStartTime: string;
   lastLocationTime: string;
-  avgAccuracy: number;
-  totalDistance: number;
   isActive: boolean;
   randomDataGenerated: number;
 }
 
-const WEBSOCKET_URL = `${process.env.EXPO_PUBLIC_BASE_URL}/locations`;
 
 export default function DriverScreen() {
-  const { user, logout } = useAuth();
+  const { user, logout, accessToken, getAccessToken, refreshSession } =
+    useAuth();
+  const router = useRouter();
+  const {
+    trip,
+    startTrip,
+    pauseTrip,
+    resumeTrip,
+    endTrip,
+    getActiveTripId,
+    recordPoint,
+  } = useTrip();
+  const { settings } = useSettings();
+  const { region, initialMapRegion } = useRegion();
+  const {
+    geofences,
+    insideIds: insideGeofenceIds,
+    evaluate: evaluateGeofences,
+  } = useGeofences();
+  const {
+    track: replayTrack,
+    replayState,
+    loadTrack,
+    unloadTrack,
+    play: playReplay,
+    pause: pauseReplay,
+    seek: seekReplay,
+    setSpeed: setReplaySpeed,
+  } = useTrackReplay((point, index, track) => {
+    setCurrentLocation({
+      coords: {
+        latitude: point.latitude,
+        longitude: point.longitude,
+        altitude: null,
+        accuracy: point.accuracy ?? null,
+        altitudeAccuracy: null,
+        heading: point.heading ?? null,
+        speed: point.speed ?? null,
+      },
+      timestamp: Date.parse(point.timestamp),
+    });
+    sendLocation(point, track.source === "simulation" ? "random" : "test");
+
+    if (index === 0 && mapRef.current) {
+      mapRef.current.animateToRegion(
+        {
+          latitude: point.latitude,
+          longitude: point.longitude,
+          latitudeDelta: 0.02,
+          longitudeDelta: 0.02,
+        },
+        1000
+      );
+    }
+  });
 
   // Estados principales
-  const [isConnected, setIsConnected] = useState(false);
-  const [isConnecting, setIsConnecting] = useState(false);
+  const connection = useConnection(WEBSOCKET_URL, {
+    getToken: getAccessToken,
+    refreshToken: refreshSession,
+    onSocketCreated: (socket) => registerSocketHandlers(socket),
+    onConnected: (socket, isReconnect) => handleConnected(socket, isReconnect),
+    onDisconnected: (reason) => handleDisconnected(reason),
+  });
+  const isConnected = connection.state === "connected";
+  const isConnecting = connection.state === "connecting";
+  // Sesión abierta aunque el socket esté reconectando o sin red: el tracking
+  // sigue y las ubicaciones se guardan en la cola
+  const isSessionActive =
+    connection.state !== "idle" && connection.state !== "authFailed";
   const [currentLocation, setCurrentLocation] =
     useState<Location.LocationObject | null>(null);
   const [isTracking, setIsTracking] = useState(false);
-  const [connectionStatus, setConnectionStatus] = useState("Desconectado");
   const [refreshing, setRefreshing] = useState(false);
 
   // ✅ NUEVO: Estado para mapa expandido
   const [isMapExpanded, setIsMapExpanded] = useState(false);
 
   // Estados de configuración
-  const [trackingInterval, setTrackingInterval] = useState(5);
+  const [motionState, setMotionState] = useState<MotionState>("moving");
+  const [backgroundMode, setBackgroundMode] = useState(false);
   const [permissionStatus, setPermissionStatus] = useState<
     "granted" | "denied" | "undetermined"
   >("undetermined");
@@ -144,39 +286,191 @@ export default function DriverScreen() {
   const [isGeneratingRandomData, setIsGeneratingRandomData] = useState(false);
   const [randomDataInterval, setRandomDataInterval] = useState(3);
 
+  // Ubicaciones en cola esperando conexión
+  const [pendingCount, setPendingCount] = useState(0);
+
+  // Envío por lotes: lo que anuncia el servidor y diagnóstico del último lote
+  const [serverCapabilities, setServerCapabilities] =
+    useState<ServerCapabilities | null>(null);
+  const [lastBatchSize, setLastBatchSize] = useState(0);
+  const [bufferedCount, setBufferedCount] = useState(0);
+
   // Estados de historial y estadísticas
   const [sentLocations, setSentLocations] = useState<SentLocation[]>([]);
   const [sessionStats, setSessionStats] = useState<SessionStats>({
     totalLocationsSent: 0,
     sessionStartTime: new Date().toISOString(),
     lastLocationTime: "",
-    avgAccuracy: 0,
-    totalDistance: 0,
     isActive: false,
     randomDataGenerated: 0,
   });
+  // Estadísticas de distancia/precisión sobre los fixes aceptados
+  const [fixStats, setFixStats] = useState<TripStats>(createTripStats);
+  // Contadores del filtro de calidad de fixes
+  const [filterCounters, setFilterCounters] = useState<FixFilterCounters>(
+    () => createFixFilterState().counters
+  );
+  const rejectedFixes =
+    filterCounters.rejectedAccuracy + filterCounters.rejectedSpeed;
 
   // Referencias
   const socketRef = useRef<Socket | null>(null);
   const locationSubscription = useRef<Location.LocationSubscription | null>(
     null
   );
-  const trackingIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Latido: pide un fix cuando el GPS no entrega (p. ej. vehículo detenido)
+  const heartbeatRef = useRef<NodeJS.Timeout | null>(null);
+  // Estado de movimiento con el que está suscrito el GPS; null sin tracking
+  const watchMotionRef = useRef<MotionState | null>(null);
+  const samplerRef = useRef(createSamplerState());
+  const capabilitiesRef = useRef<ServerCapabilities>({});
+  const batcherRef = useRef<LocationBatcher | null>(null);
   const randomDataIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const lastSimulationSeedRef = useRef<number | null>(null);
   const mapRef = useRef<MapView>(null);
-  const lastLocationRef = useRef<LocationData | null>(null);
+  const backgroundHandlerCleanup = useRef<(() => void) | null>(null);
+  // Los fixes de la tarea en segundo plano pasan por la versión más reciente
+  // de sendLocation, con el vehículo ya cargado
+  const sendLocationRef = useRef<typeof sendLocation>(() => Promise.resolve());
+  const backgroundRelayRef = useRef(
+    createBackgroundRelay((location) => {
+      sendLocationRef.current(location, "auto");
+    })
+  );
+  const fixFilterRef = useRef(createFixFilterState());
+  // Último fix aceptado; acompaña los cambios de estado de los servicios
+  const lastFixRef = useRef<LocationData | null>(null);
+
+  // Vehículo: el asignado por el backend o el reclamado al iniciar turno
+  const [assignedVehicle, setAssignedVehicle] = useState<Vehicle | null>(null);
+  const [isVehiclePickerVisible, setIsVehiclePickerVisible] = useState(false);
+  const [isChatVisible, setIsChatVisible] = useState(false);
+  const vehicleId = user?.vehicleId || assignedVehicle?.id || null;
+  const vehicleLabel = user?.vehicleId
+    ? user.vehicleId
+    : assignedVehicle
+      ? getVehicleLabel(assignedVehicle)
+      : "Sin asignar";
+
+  const {
+    offers: jobOffers,
+    activeJob,
+    isUpdating: isUpdatingJob,
+    receiveJob,
+    cancelJob,
+    respond: respondToJob,
+    advance: advanceJob,
+  } = useDispatchJobs(() => ({
+    socket: socketRef.current,
+    vehicleId,
+    location: lastFixRef.current,
+  }));
+  const {
+    messages: chatMessages,
+    unreadCount: unreadChatCount,
+    send: sendChatMessage,
+    receive: receiveChatMessage,
+    markRead: markChatRead,
+    flushPending: flushChatMessages,
+  } = useChat(() => ({
+    socket: socketRef.current,
+    vehicleId,
+    location: lastFixRef.current,
+  }));
+
+  const {
+    alert: sosAlert,
+    burstUntil: sosBurstUntil,
+    isBurstActive: isSosBurstActive,
+    trigger: triggerSos,
+    acknowledge: acknowledgeSos,
+    flush: flushSosAlert,
+    dismiss: dismissSos,
+  } = useSos(
+    () => ({
+      socket: socketRef.current,
+      vehicleId,
+      tripId: getActiveTripId() ?? undefined,
+      jobId: activeJob?.id,
+    }),
+    () => applyTrackingPolicy()
+  );
 
-  // ✅ CORREGIDO: Acceso directo a vehicleId sin validación anidada
-  const vehicleId = user?.vehicleId || "driver-mobile";
+  // En el mapa se muestra el servicio en curso o, si no hay, la primera oferta
+  const mappedJob = activeJob ?? jobOffers[0] ?? null;
+
+  const {
+    target: routeTarget,
+    route: plannedRoute,
+    progress: routeProgress,
+    isLoading: isLoadingRoute,
+    error: routeError,
+    setTarget: setRouteTarget,
+    clearTarget: clearRouteTarget,
+    updatePosition: updateRoutePosition,
+  } = useRoutePreview();
+  const depot = getRegionDepot(region);
+  // Destinos posibles: el servicio en curso, la base de la región y las
+  // geocercas
+  const routeTargets: RouteTarget[] = [
+    ...(activeJob ? [getJobRouteTarget(activeJob)] : []),
+    { ...depot, id: `depot-${region.id}`, kind: "depot" },
+    ...geofences.map(
+      (geofence): RouteTarget => ({
+        id: `geofence-${geofence.id}`,
+        name: geofence.name,
+        kind: "geofence",
+        ...getGeofenceCenter(geofence),
+      })
+    ),
+  ];
+
+  // Token rechazado aun después de renovar la sesión: no se reintenta más
+  useEffect(() => {
+    if (connection.state === "authFailed") {
+      Alert.alert(
+        "🔒 Sesión Rechazada",
+        "El servidor no aceptó tu sesión. Las ubicaciones se siguen guardando; vuelve a iniciar sesión para enviarlas."
+      );
+    }
+  }, [connection.state]);
 
   // ✅ SOLICITAR PERMISOS AL INICIAR
   useEffect(() => {
     initializePermissions();
+    getOutboxSize().then(setPendingCount);
+    loadLocationHistory();
+    resumeBackgroundTracking();
     return () => {
       cleanup();
     };
   }, []);
 
+  // ✅ FUNCIÓN: Recuperar las últimas ubicaciones guardadas y aplicar retención
+  const loadLocationHistory = async () => {
+    try {
+      const { historyRetentionDays } = await loadSettings();
+      const pruned = await pruneHistory(historyRetentionDays);
+      if (pruned > 0) {
+        console.log(`🗂️ Historial: ${pruned} registros antiguos eliminados`);
+      }
+
+      const recent = await getRecentLocations(MAX_SESSION_LOCATIONS);
+      setSentLocations((prev) => {
+        const ids = new Set(prev.map((loc) => loc.id));
+        const stored = recent
+          .filter((point) => !ids.has(point.clientId))
+          .map(({ clientId, vehicleId: _v, tripId: _t, ...point }) => ({
+            ...point,
+            id: clientId,
+          }));
+        return [...prev, ...stored].slice(0, MAX_SESSION_LOCATIONS);
+      });
+    } catch (error) {
+      console.error("❌ Error cargando historial de ubicaciones:", error);
+    }
+  };
+
   // ✅ FUNCIÓN: Inicializar permisos
   const initializePermissions = async () => {
     try {
@@ -204,6 +498,43 @@ export default function DriverScreen() {
     }
   };
 
+  // ✅ Cargar el vehículo reclamado en un turno anterior
+  useEffect(() => {
+    if (user && !user.vehicleId) {
+      loadAssignedVehicle(user.id).then(setAssignedVehicle);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    sendLocationRef.current = sendLocation;
+  });
+
+  // ✅ Entregar los fixes en segundo plano retenidos hasta cargar el vehículo
+  useEffect(() => {
+    backgroundRelayRef.current.setVehicle(vehicleId);
+  }, [vehicleId]);
+
+  // ✅ Mantener actualizado el token del socket cuando se renueva la sesión
+  useEffect(() => {
+    if (socketRef.current && accessToken) {
+      socketRef.current.auth = { token: accessToken };
+    }
+  }, [accessToken]);
+
+  // ✅ FUNCIÓN: Retomar tracking en segundo plano que quedó activo
+  const resumeBackgroundTracking = async () => {
+    try {
+      if (await isBackgroundTrackingActive()) {
+        console.log("🛰️ Tracking en segundo plano activo, retomando...");
+        setBackgroundMode(true);
+        setIsTracking(true);
+        registerBackgroundHandler();
+      }
+    } catch (error) {
+      console.error("❌ Error verificando tracking en segundo plano:", error);
+    }
+  };
+
   // ✅ FUNCIÓN: Diálogo de permisos
   const showPermissionDialog = () => {
     Alert.alert(
@@ -282,6 +613,64 @@ export default function DriverScreen() {
     }
   };
 
+  // ✅ FUNCIÓN: Solicitar permiso de ubicación en segundo plano
+  const requestBackgroundPermission = async (): Promise<boolean> => {
+    const { status } = await Location.getBackgroundPermissionsAsync();
+    if (status === "granted") return true;
+
+    return new Promise((resolve) => {
+      Alert.alert(
+        "🌙 Ubicación en Segundo Plano",
+        `Para seguir enviando tu ubicación con la pantalla apagada, selecciona "${
+          Platform.OS === "ios" ? "Siempre" : "Permitir todo el tiempo"
+        }" en el siguiente diálogo.`,
+        [
+          {
+            text: "Cancelar",
+            style: "cancel",
+            onPress: () => resolve(false),
+          },
+          {
+            text: "Continuar",
+            onPress: async () => {
+              try {
+                resolve(await requestBackgroundPermissions());
+              } catch (error) {
+                console.error("❌ Error solicitando permiso:", error);
+                resolve(false);
+              }
+            },
+          },
+        ],
+        { cancelable: false }
+      );
+    });
+  };
+
+  // ✅ FUNCIÓN: Conectar la tarea en segundo plano al pipeline de envío
+  const registerBackgroundHandler = () => {
+    backgroundHandlerCleanup.current?.();
+    backgroundHandlerCleanup.current = setBackgroundLocationHandler(
+      (locations) => {
+        const latest = locations[locations.length - 1];
+        setCurrentLocation({
+          coords: {
+            latitude: latest.latitude,
+            longitude: latest.longitude,
+            altitude: null,
+            accuracy: latest.accuracy ?? null,
+            altitudeAccuracy: null,
+            heading: latest.heading ?? null,
+            speed: latest.speed ?? null,
+          },
+          timestamp: Date.parse(latest.timestamp),
+        });
+
+        backgroundRelayRef.current.push(locations);
+      }
+    );
+  };
+
   // ✅ FUNCIÓN: Obtener ubicación actual
   const getCurrentLocation = async (): Promise<LocationData | null> => {
     if (permissionStatus !== "granted") {
@@ -303,17 +692,10 @@ export default function DriverScreen() {
 
       console.log("✅ Ubicación obtenida:", location.coords);
 
-      const locationData: LocationData = {
-        latitude: location.coords.latitude,
-        longitude: location.coords.longitude,
-        accuracy: location.coords.accuracy || undefined,
-        timestamp: new Date().toISOString(),
-        speed: location.coords.speed || undefined,
-        heading: location.coords.heading || undefined,
-      };
+      // Con la hora del fix, un fix en caché repetido se detecta como duplicado
+      const locationData = toLocationData(location);
 
       setCurrentLocation(location);
-      lastLocationRef.current = locationData;
 
       console.log("📍 Ubicación actualizada en el estado");
       return locationData;
@@ -327,179 +709,633 @@ export default function DriverScreen() {
     }
   };
 
-  // ✅ FUNCIÓN: Conectar al servidor WebSocket
-  const connectToServer = async () => {
-    if (isConnecting || isConnected) return;
+  // ✅ FUNCIÓN: Ubicación para el latido del tracking. Corre sola cada pocos
+  // segundos: sin permisos o sin GPS solo registra el error, sin alertas
+  const readHeartbeatLocation = async (): Promise<LocationData | null> => {
+    try {
+      const location = await Location.getCurrentPositionAsync({
+        accuracy: Location.Accuracy.High,
+        timeInterval: 1000,
+      });
+      setCurrentLocation(location);
+      return toLocationData(location);
+    } catch (error) {
+      console.log("⚠️ Latido sin ubicación:", error);
+      return null;
+    }
+  };
+
+  // ✅ FUNCIÓN: Conectar al servidor WebSocket; los reintentos los maneja
+  // el gestor de conexión sin límite de intentos
+  const connectToServer = () => connection.connect();
+
+  // ✅ FUNCIÓN: Registrar los eventos de la app en el socket de la sesión
+  const registerSocketHandlers = (socket: Socket) => {
+    socketRef.current = socket;
+
+    socket.on(JOB_ASSIGNED_EVENT, (raw: unknown) => {
+      const job = receiveJob(raw);
+      if (!job) return;
+      console.log("📦 Servicio asignado:", job);
+      Alert.alert(
+        "📦 Nuevo Servicio",
+        `${job.title || `Servicio ${job.id}`}\nRecogida: ${job.pickup.name}`
+      );
+      mapRef.current?.animateToRegion(
+        { ...job.pickup, latitudeDelta: 0.02, longitudeDelta: 0.02 },
+        1000
+      );
+    });
+
+    socket.on(SOS_ACKNOWLEDGED_EVENT, (raw: unknown) => {
+      if (!acknowledgeSos(raw)) return;
+      Vibration.vibrate(400);
+      Alert.alert("✅ Alerta Atendida", "Despacho recibió tu alerta SOS");
+    });
+
+    socket.on(CHAT_MESSAGE_EVENT, (raw: unknown) => {
+      const message = receiveChatMessage(raw);
+      if (message) console.log("💬 Mensaje de despacho:", message.text);
+    });
+
+    socket.on(JOB_CANCELLED_EVENT, (payload: { jobId?: string }) => {
+      if (!payload?.jobId) return;
+      console.log("🚫 Servicio cancelado:", payload.jobId);
+      if (cancelJob(payload.jobId)) {
+        clearRouteTarget("job");
+        Alert.alert(
+          "🚫 Servicio Cancelado",
+          "Despacho canceló el servicio en curso"
+        );
+      }
+    });
+  };
+
+  // ✅ FUNCIÓN: Conexión establecida (la primera o una reconexión)
+  const handleConnected = (socket: Socket, isReconnect: boolean) => {
+    console.log(
+      isReconnect ? "✅ Reconectado al WebSocket" : "✅ Conectado al WebSocket"
+    );
+
+    if (!isReconnect) {
+      setSessionStats((prev) => ({
+        ...prev,
+        sessionStartTime: new Date().toISOString(),
+        isActive: true,
+      }));
+      Alert.alert(
+        "✅ Conectado",
+        "Conectado al sistema de monitoreo exitosamente"
+      );
+    }
+
+    // La cola se envía cuando se sabe si el servidor acepta lotes
+    detectServerCapabilities(socket).finally(flushOutbox);
+    flushSosAlert(socket);
+    flushGeofenceEvents(socket);
+    flushChatMessages(socket).catch((error) => {
+      console.error("❌ Error reenviando mensajes:", error);
+    });
+    syncTripSummaries().catch((error) => {
+      console.error("❌ Error sincronizando resúmenes de viaje:", error);
+    });
+  };
+
+  // ✅ FUNCIÓN: Se cayó el socket; el tracking sigue y las ubicaciones van
+  // a la cola hasta que el gestor reconecte
+  const handleDisconnected = (reason: string) => {
+    console.log("❌ Desconectado:", reason);
+    batcherRef.current?.flush();
+  };
+
+  // ✅ FUNCIÓN: Desconectar del servidor
+  const disconnectFromServer = () => {
+    connection.disconnect();
+    socketRef.current = null;
+    stopTracking();
+    stopRandomDataGeneration();
+    setSessionStats((prev) => ({ ...prev, isActive: false }));
+  };
+
+  // ✅ FUNCIÓN: Agregar ubicación al historial como pendiente de confirmación
+  const addSentLocation = (
+    id: string,
+    locationData: LocationData,
+    type: LocationType
+  ) => {
+    const sentLocation: SentLocation = {
+      ...locationData,
+      id,
+      type,
+      deliveryState: "pending",
+    };
+
+    setSentLocations((prev) => [
+      sentLocation,
+      ...prev
+        .filter((loc) => loc.id !== id)
+        .slice(0, MAX_SESSION_LOCATIONS - 1),
+    ]);
+  };
+
+  // ✅ FUNCIÓN: Actualizar estado de entrega en el historial
+  const setDeliveryState = (id: string, deliveryState: DeliveryState) => {
+    setSentLocations((prev) =>
+      prev.map((loc) => (loc.id === id ? { ...loc, deliveryState } : loc))
+    );
+    setLocationDeliveryState(id, deliveryState).catch((error) => {
+      console.error("❌ Error actualizando historial:", error);
+    });
+  };
+
+  // ✅ FUNCIÓN: Contabilizar ubicación confirmada por el servidor
+  const recordAckedLocation = (
+    locationData: LocationData,
+    type: LocationType
+  ) => {
+    setSessionStats((prev) => ({
+      ...prev,
+      totalLocationsSent: prev.totalLocationsSent + 1,
+      lastLocationTime: locationData.timestamp,
+      randomDataGenerated:
+        type === "random"
+          ? prev.randomDataGenerated + 1
+          : prev.randomDataGenerated,
+    }));
+  };
+
+  // ✅ FUNCIÓN: Guardar ubicación en la cola offline
+  const queueLocation = (entry: OutboxEntry) => {
+    enqueueLocation(entry)
+      .then((count) => {
+        setPendingCount(count);
+        console.log(`📥 Ubicación ${entry.type} en cola (${count} pendientes)`);
+      })
+      .catch((error) => {
+        console.error("❌ Error guardando ubicación en cola:", error);
+      });
+  };
+
+  // ✅ FUNCIÓN: Emitir una ubicación y esperar confirmación del servidor
+  const deliverLocation = async ({ payload, type }: OutboxEntry) => {
+    const {
+      clientId,
+      vehicleId: _vehicleId,
+      tripId: _tripId,
+      ...locationData
+    } = payload;
 
     try {
-      setIsConnecting(true);
-      setConnectionStatus("Conectando...");
-
-      const token = await SecureStore.getItemAsync("accessToken");
-      if (!token) {
-        Alert.alert("❌ Error", "Token de autenticación no encontrado");
-        setConnectionStatus("Error de autenticación");
-        setIsConnecting(false);
+      await emitLocationWithAck(socketRef.current!, payload);
+      setDeliveryState(clientId, "acked");
+      recordAckedLocation(locationData, type);
+      console.log(`✅ Ubicación ${type} confirmada:`, clientId);
+    } catch (error) {
+      if (error instanceof LocationRejectedError) {
+        console.error(`❌ Ubicación ${clientId} rechazada:`, error.message);
+        setDeliveryState(clientId, "failed");
         return;
       }
+      throw error;
+    }
+  };
 
-      const socket = io(WEBSOCKET_URL, {
-        auth: { token },
-        transports: ["websocket", "polling"],
-        timeout: 10000,
-        reconnection: true,
-        reconnectionAttempts: 5,
-        reconnectionDelay: 2000,
-      });
+  // ✅ FUNCIÓN: Emitir un lote y registrar el resultado de cada ubicación
+  const deliverBatch = async (entries: OutboxEntry[]) => {
+    setLastBatchSize(entries.length);
 
-      socketRef.current = socket;
+    try {
+      const { rejected } = await emitLocationBatchWithAck(
+        socketRef.current!,
+        entries.map((entry) => entry.payload)
+      );
+      const rejectedIds = new Set(rejected.map((r) => r.clientId));
 
-      socket.on("connect", () => {
-        console.log("✅ Conectado al WebSocket");
-        setIsConnected(true);
-        setIsConnecting(false);
-        setConnectionStatus("Conectado");
-        setSessionStats((prev) => ({
-          ...prev,
-          sessionStartTime: new Date().toISOString(),
-          isActive: true,
-        }));
+      entries.forEach(({ payload, type }) => {
+        if (rejectedIds.has(payload.clientId)) {
+          setDeliveryState(payload.clientId, "failed");
+          return;
+        }
+        const { clientId, vehicleId: _v, tripId: _t, ...locationData } =
+          payload;
+        setDeliveryState(clientId, "acked");
+        recordAckedLocation(locationData, type);
+      });
 
-        Alert.alert(
-          "✅ Conectado",
-          "Conectado al sistema de monitoreo exitosamente"
+      console.log(
+        `✅ Lote de ${entries.length} confirmado (${rejected.length} rechazadas)`
+      );
+    } catch (error) {
+      if (error instanceof LocationRejectedError) {
+        console.error("❌ Lote rechazado:", error.message);
+        entries.forEach(({ payload }) =>
+          setDeliveryState(payload.clientId, "failed")
         );
+        return;
+      }
+      throw error;
+    }
+  };
+
+  // ✅ FUNCIÓN: Aceptar o rechazar un servicio asignado
+  const handleJobResponse = async (job: DispatchJob, accepted: boolean) => {
+    try {
+      await respondToJob(job, accepted);
+      if (accepted) {
+        setRouteTarget(getJobRouteTarget({ ...job, status: "accepted" }));
+      }
+      console.log(
+        `📦 Servicio ${job.id} ${accepted ? "aceptado" : "rechazado"}`
+      );
+    } catch (error) {
+      console.error("❌ Error respondiendo al servicio:", error);
+      Alert.alert(
+        "❌ Error",
+        error instanceof Error
+          ? error.message
+          : "No se pudo responder al servicio"
+      );
+    }
+  };
+
+  // ✅ FUNCIÓN: Avanzar el servicio activo al siguiente estado
+  const handleJobAdvance = async () => {
+    try {
+      const job = activeJob;
+      const status = await advanceJob();
+      if (!job || !status) return;
+      console.log(`📦 Servicio: ${JOB_STATUS_LABELS[status]}`);
+      if (status === "completed") {
+        clearRouteTarget("job");
+        Alert.alert("✅ Servicio Completado", "Entrega registrada");
+      } else {
+        // Al iniciar la entrega el destino pasa a ser el punto de entrega
+        setRouteTarget(getJobRouteTarget({ ...job, status }));
+      }
+    } catch (error) {
+      console.error("❌ Error actualizando el servicio:", error);
+      Alert.alert(
+        "❌ Error",
+        error instanceof Error
+          ? error.message
+          : "No se pudo actualizar el servicio"
+      );
+    }
+  };
+
+  // ✅ FUNCIÓN: Registrar entradas/salidas de geocercas y avisar al servidor
+  const reportGeofenceEvents = async (events: GeofenceEvent[]) => {
+    events.forEach((event) =>
+      console.log(
+        `📍 ${event.type === "enter" ? "Entrada a" : "Salida de"} ${event.geofenceName}`,
+        event.dwellMs !== undefined ? formatDuration(event.dwellMs) : ""
+      )
+    );
+
+    try {
+      const entries = await appendGeofenceEvents(events);
+      if (socketRef.current?.connected) {
+        await deliverGeofenceEvents(socketRef.current, entries);
+      }
+    } catch (error) {
+      console.error("❌ Error registrando eventos de geocerca:", error);
+    }
+  };
+
+  // ✅ FUNCIÓN: Reenviar los eventos de geocerca que quedaron sin confirmar
+  const flushGeofenceEvents = async (socket: Socket) => {
+    try {
+      const pending = await getUndeliveredGeofenceEvents();
+      if (pending.length === 0) return;
+      const delivered = await deliverGeofenceEvents(socket, pending);
+      console.log(`📍 Eventos de geocerca reenviados: ${delivered}/${pending.length}`);
+    } catch (error) {
+      console.error("❌ Error reenviando eventos de geocerca:", error);
+    }
+  };
+
+  // ✅ FUNCIÓN: Preguntar al servidor si soporta lotes
+  const detectServerCapabilities = async (socket: Socket) => {
+    const capabilities = await fetchServerCapabilities(socket);
+    capabilitiesRef.current = capabilities;
+    setServerCapabilities(capabilities);
+    console.log(
+      capabilities.batch
+        ? "📦 Servidor con soporte de lotes"
+        : "📦 Servidor sin soporte de lotes, envío individual"
+    );
+  };
+
+  // Tamaño de lote efectivo: el configurado, limitado por el servidor
+  const getBatchSize = () =>
+    Math.min(
+      getSettings().batching.maxPoints,
+      capabilitiesRef.current.maxBatchSize ?? Infinity
+    );
+
+  // Durante una alerta SOS cada ubicación sale de inmediato
+  const isBatchingActive = () =>
+    getSettings().batching.enabled &&
+    !!capabilitiesRef.current.batch &&
+    !isSosBurstActive();
+
+  // Política de muestreo vigente: la de emergencia mientras dura la ráfaga
+  // SOS, si no la elegida en la configuración
+  const getSamplingPolicy = () =>
+    isSosBurstActive()
+      ? EMERGENCY_SAMPLING_POLICY
+      : SAMPLING_PRESETS[getSettings().samplingPreset];
+
+  // ✅ FUNCIÓN: Enviar un lote acumulado; sin conexión o sin ack va a la cola
+  const sendBatch = async (entries: OutboxEntry[]) => {
+    setBufferedCount(0);
+
+    if (!socketRef.current?.connected) {
+      entries.forEach(queueLocation);
+      return;
+    }
+
+    console.log(`📡 Enviando lote de ${entries.length} ubicaciones`);
+
+    try {
+      await deliverBatch(entries);
+    } catch (error) {
+      console.error("❌ Sin confirmación para el lote:", error);
+      entries.forEach((entry) => {
+        setDeliveryState(entry.payload.clientId, "failed");
+        queueLocation(entry);
       });
+    }
+  };
+
+  const getBatcher = () => {
+    if (!batcherRef.current) {
+      batcherRef.current = createLocationBatcher(sendBatch, () => ({
+        ...getSettings().batching,
+        maxPoints: getBatchSize(),
+      }));
+    }
+    return batcherRef.current;
+  };
+
+  // ✅ FUNCIÓN: Enviar ubicación al servidor
+  const sendLocation = async (
+    rawLocation: LocationData,
+    type: LocationType = "auto"
+  ) => {
+    if (!vehicleId) {
+      console.log(`⚠️ Ubicación ${type} descartada: sin vehículo asignado`);
+      return;
+    }
+
+    // Solo los fixes reales del GPS pasan por el filtro de calidad
+    let locationData = rawLocation;
+    if (type === "auto" || type === "manual") {
+      const { state, result } = filterFix(
+        fixFilterRef.current,
+        rawLocation,
+        getSettings().fixFilter
+      );
+      fixFilterRef.current = state;
+      setFilterCounters(state.counters);
+
+      if (!result.accepted) {
+        console.log(
+          `🚫 Ubicación ${type} rechazada por ${
+            result.reason === "accuracy" ? "precisión" : "salto imposible"
+          }:`,
+          rawLocation
+        );
+        return;
+      }
+      locationData = result.fix;
+    }
+    lastFixRef.current = locationData;
+
+    // Las estadísticas, el recorrido y las geocercas usan cada fix
+    // aceptado, aunque el muestreo no lo envíe
+    recordPoint(locationData);
+    setFixStats((prev) => addFix(prev, locationData));
+    const geofenceEvents = evaluateGeofences(locationData, {
+      vehicleId,
+      tripId: getActiveTripId() ?? undefined,
+    });
+    if (geofenceEvents.length > 0) {
+      reportGeofenceEvents(geofenceEvents);
+    }
+    updateRoutePosition(locationData);
+
+    // El tracking automático solo envía lo que pide la política de muestreo
+    if (type === "auto") {
+      const previousMotion = samplerRef.current.motion;
+      const { state, sample } = sampleFix(
+        samplerRef.current,
+        locationData,
+        getSamplingPolicy()
+      );
+      samplerRef.current = state;
+
+      if (state.motion !== previousMotion) {
+        console.log(`🚦 Vehículo ${MOTION_STATE_LABELS[state.motion]}`);
+        setMotionState(state.motion);
+        if (watchMotionRef.current) {
+          startWatching(state.motion);
+        }
+      }
+
+      if (!sample) return;
+    }
+
+    const payload: LocationPayload = {
+      clientId: createClientId(),
+      vehicleId: vehicleId,
+      latitude: locationData.latitude,
+      longitude: locationData.longitude,
+      timestamp: locationData.timestamp,
+      accuracy: locationData.accuracy,
+      speed: locationData.speed,
+      heading: locationData.heading,
+      lowAccuracy: locationData.lowAccuracy,
+      tripId: getActiveTripId() ?? undefined,
+    };
 
-      socket.on("disconnect", (reason) => {
-        console.log("❌ Desconectado:", reason);
-        setIsConnected(false);
-        setConnectionStatus(`Desconectado: ${reason}`);
-        stopTracking();
-        stopRandomDataGeneration();
+    addSentLocation(payload.clientId, locationData, type);
+    recordLocation({ payload, type }, "pending").catch((error) => {
+      console.error("❌ Error guardando ubicación en el historial:", error);
+    });
+
+    if (!socketRef.current?.connected) {
+      queueLocation({ payload, type });
+      return;
+    }
+
+    if (isBatchingActive()) {
+      const batcher = getBatcher();
+      batcher.add({ payload, type });
+      setBufferedCount(batcher.size());
+      return;
+    }
+
+    console.log(`📡 Enviando ubicación ${type}:`, payload);
+
+    try {
+      await deliverLocation({ payload, type });
+    } catch (error) {
+      // Sin ack tras los reintentos: se marca como fallida y queda en cola
+      console.error(`❌ Sin confirmación para ${payload.clientId}:`, error);
+      setDeliveryState(payload.clientId, "failed");
+      queueLocation({ payload, type });
+    }
+  };
+
+  // ✅ FUNCIÓN: Enviar ubicaciones pendientes de la cola
+  const flushOutbox = async () => {
+    try {
+      const ensureConnected = () => {
+        if (!socketRef.current?.connected) {
+          throw new Error("Socket desconectado durante el envío de la cola");
+        }
+      };
+
+      const remaining = capabilitiesRef.current.batch
+        ? await drainOutboxInBatches(async (entries) => {
+            ensureConnected();
+            await deliverBatch(entries);
+          }, getBatchSize())
+        : await drainOutbox(async (entry) => {
+            ensureConnected();
+            await deliverLocation(entry);
+          });
+
+      setPendingCount(remaining);
+      console.log(`📤 Cola de ubicaciones enviada (${remaining} pendientes)`);
+    } catch (error) {
+      console.error("❌ Error enviando la cola de ubicaciones:", error);
+      setPendingCount(await getOutboxSize());
+    }
+  };
+
+  // ✅ FUNCIÓN: Verificar que haya un vehículo asignado antes de enviar
+  const requireVehicle = (): boolean => {
+    if (vehicleId) return true;
+
+    Alert.alert(
+      "🚗 Vehículo Requerido",
+      "Debes elegir el vehículo de tu turno antes de enviar ubicaciones.",
+      [
+        { text: "Cancelar", style: "cancel" },
+        {
+          text: "Elegir Vehículo",
+          onPress: () => setIsVehiclePickerVisible(true),
+        },
+      ]
+    );
+    return false;
+  };
 
-        Alert.alert(
-          "🔌 Desconectado",
-          "Se ha perdido la conexión con el servidor"
-        );
-      });
+  // ✅ FUNCIÓN: Reclamar un vehículo al iniciar el turno
+  const handleVehicleSelect = async (vehicle: Vehicle) => {
+    if (!user) return;
 
-      socket.on("connect_error", (error) => {
-        console.error("❌ Error de conexión:", error);
-        setIsConnected(false);
-        setIsConnecting(false);
-        setConnectionStatus(`Error: ${error.message}`);
-        Alert.alert("❌ Error de Conexión", error.message);
+    const claimed = await claimVehicle(vehicle.id);
+    if (assignedVehicle && assignedVehicle.id !== claimed.id) {
+      await releaseVehicle(assignedVehicle.id).catch((error) => {
+        console.error("❌ Error liberando vehículo anterior:", error);
       });
-    } catch (error) {
-      console.error("Error conectando:", error);
-      setIsConnecting(false);
-      setConnectionStatus("Error de conexión");
-      Alert.alert("❌ Error", "No se pudo conectar al servidor");
     }
-  };
 
-  // ✅ FUNCIÓN: Desconectar del servidor
-  const disconnectFromServer = () => {
-    if (socketRef.current) {
-      socketRef.current.disconnect();
-      socketRef.current = null;
-    }
-    setIsConnected(false);
-    setConnectionStatus("Desconectado");
-    stopTracking();
-    stopRandomDataGeneration();
-    setSessionStats((prev) => ({ ...prev, isActive: false }));
+    await saveAssignedVehicle(user.id, claimed);
+    setAssignedVehicle(claimed);
+    setIsVehiclePickerVisible(false);
+    console.log("🚗 Vehículo asignado:", claimed.id);
   };
 
-  // ✅ FUNCIÓN: Calcular distancia
-  const calculateDistance = (
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number
-  ): number => {
-    const R = 6371;
-    const dLat = ((lat2 - lat1) * Math.PI) / 180;
-    const dLon = ((lon2 - lon1) * Math.PI) / 180;
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos((lat1 * Math.PI) / 180) *
-        Math.cos((lat2 * Math.PI) / 180) *
-        Math.sin(dLon / 2) *
-        Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c * 1000;
+  // ✅ FUNCIÓN: Liberar el vehículo al terminar el turno
+  const handleReleaseVehicle = () => {
+    if (!assignedVehicle) return;
+
+    Alert.alert(
+      "🏁 Terminar Turno",
+      `¿Liberar el vehículo ${getVehicleLabel(assignedVehicle)}? El tracking se detendrá.`,
+      [
+        { text: "Cancelar", style: "cancel" },
+        {
+          text: "Liberar",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              stopTracking();
+              stopRandomDataGeneration();
+              await releaseVehicle(assignedVehicle.id);
+              await clearAssignedVehicle();
+              setAssignedVehicle(null);
+              console.log("🏁 Vehículo liberado:", assignedVehicle.id);
+            } catch (error) {
+              console.error("❌ Error liberando vehículo:", error);
+              Alert.alert("❌ Error", "No se pudo liberar el vehículo");
+            }
+          },
+        },
+      ]
+    );
   };
 
-  // ✅ FUNCIÓN: Enviar ubicación al servidor
-  const sendLocation = (
-    locationData: LocationData,
-    type: "manual" | "auto" | "test" | "random" = "auto"
-  ) => {
-    if (!socketRef.current?.connected) {
-      Alert.alert("❌ Error", "No hay conexión al servidor");
+  // ✅ FUNCIÓN: Iniciar un viaje
+  const handleStartTrip = () => {
+    if (!vehicleId) {
+      requireVehicle();
       return;
     }
 
-    const payload = {
-      vehicleId: vehicleId,
-      latitude: locationData.latitude,
-      longitude: locationData.longitude,
-      timestamp: locationData.timestamp,
-      accuracy: locationData.accuracy,
-      speed: locationData.speed,
-      heading: locationData.heading,
-    };
-
-    socketRef.current.emit("sendLocation", payload);
-
-    const sentLocation: SentLocation = {
-      ...locationData,
-      id: Date.now().toString(),
-      type,
-    };
-
-    setSentLocations((prev) => [sentLocation, ...prev.slice(0, 99)]);
-
-    setSessionStats((prev) => {
-      const newStats = {
-        ...prev,
-        totalLocationsSent: prev.totalLocationsSent + 1,
-        lastLocationTime: locationData.timestamp,
-        avgAccuracy:
-          prev.avgAccuracy === 0
-            ? locationData.accuracy || 0
-            : (prev.avgAccuracy + (locationData.accuracy || 0)) / 2,
-      };
-
-      if (type === "random") {
-        newStats.randomDataGenerated = prev.randomDataGenerated + 1;
-      }
-
-      if (lastLocationRef.current && lastLocationRef.current !== locationData) {
-        const distance = calculateDistance(
-          lastLocationRef.current.latitude,
-          lastLocationRef.current.longitude,
-          locationData.latitude,
-          locationData.longitude
-        );
-        newStats.totalDistance = prev.totalDistance + distance;
-      }
+    const newTrip = startTrip(vehicleId);
+    console.log("🧭 Viaje iniciado:", newTrip.id);
 
-      return newStats;
-    });
+    if (!isTracking) {
+      Alert.alert(
+        "🧭 Viaje Iniciado",
+        "Inicia el tracking GPS para registrar el recorrido del viaje."
+      );
+    }
+  };
 
-    console.log(`📡 Ubicación ${type} enviada:`, payload);
+  // ✅ FUNCIÓN: Terminar el viaje y mostrar el resumen
+  const handleEndTrip = () => {
+    Alert.alert("🏁 Terminar Viaje", "¿Deseas terminar el viaje actual?", [
+      { text: "Cancelar", style: "cancel" },
+      {
+        text: "Terminar",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            const summary = await endTrip();
+            if (summary) {
+              console.log("🏁 Viaje terminado:", summary.tripId);
+              router.push({
+                pathname: "/(tabs)/trip-summary",
+                params: { tripId: summary.tripId },
+              });
+            }
+          } catch (error) {
+            console.error("❌ Error terminando viaje:", error);
+            Alert.alert("❌ Error", "No se pudo guardar el resumen del viaje");
+          }
+        },
+      },
+    ]);
   };
 
   // ✅ FUNCIÓN: Iniciar tracking automático
   const startTracking = async () => {
-    if (!isConnected) {
+    if (!isSessionActive) {
       Alert.alert("❌ Error", "Primero debes conectarte al servidor");
       return;
     }
 
+    if (!vehicleId) {
+      requireVehicle();
+      return;
+    }
+
     if (permissionStatus !== "granted") {
       Alert.alert(
         "❌ Permisos Requeridos",
@@ -515,47 +1351,49 @@ export default function DriverScreen() {
       return;
     }
 
+    const preset = getSettings().samplingPreset;
+    const policy = getSamplingPolicy();
+    const presetLabel = SAMPLING_PRESET_LABELS[preset];
+
     try {
       setIsTracking(true);
+      samplerRef.current = createSamplerState();
+      setMotionState(samplerRef.current.motion);
 
       const initialLocation = await getCurrentLocation();
       if (initialLocation) {
         sendLocation(initialLocation, "auto");
       }
 
-      const subscription = await Location.watchPositionAsync(
-        {
-          accuracy: Location.Accuracy.High,
-          timeInterval: trackingInterval * 1000,
-          distanceInterval: 5,
-        },
-        (location) => {
-          setCurrentLocation(location);
-          const locationData: LocationData = {
-            latitude: location.coords.latitude,
-            longitude: location.coords.longitude,
-            accuracy: location.coords.accuracy || undefined,
-            timestamp: new Date().toISOString(),
-            speed: location.coords.speed || undefined,
-            heading: location.coords.heading || undefined,
-          };
-
-          sendLocation(locationData, "auto");
+      if (backgroundMode) {
+        const granted = await requestBackgroundPermission();
+        if (!granted) {
+          setIsTracking(false);
+          Alert.alert(
+            "❌ Permiso Denegado",
+            "Sin ubicación en segundo plano no se puede usar este modo. Desactívalo para usar el tracking normal."
+          );
+          return;
         }
-      );
 
-      locationSubscription.current = subscription;
+        registerBackgroundHandler();
+        await startBackgroundTracking(
+          vehicleId,
+          getWatchOptions(policy, "moving")
+        );
 
-      trackingIntervalRef.current = setInterval(async () => {
-        const location = await getCurrentLocation();
-        if (location) {
-          sendLocation(location, "auto");
-        }
-      }, trackingInterval * 1000);
+        Alert.alert(
+          "🌙 Tracking en Segundo Plano",
+          `GPS activo (${presetLabel}) - La ubicación se seguirá enviando aunque bloquees el teléfono`
+        );
+        return;
+      }
+
+      await startWatching("moving");
 
       Alert.alert(
         "🚀 Tracking Iniciado",
-        `GPS activo - Enviando ubicación automáticamente cada ${trackingInterval} segundos`
+        `GPS activo (${presetLabel}) - La frecuencia de envío se ajusta según el movimiento del vehículo`
       );
     } catch (error) {
       console.error("Error iniciando tracking:", error);
@@ -564,6 +1402,87 @@ export default function DriverScreen() {
     }
   };
 
+  // ✅ FUNCIÓN: Suscribir el GPS con el ritmo del estado de movimiento.
+  // Se vuelve a llamar cada vez que el muestreador detecta un cambio.
+  const startWatching = async (motion: MotionState) => {
+    const policy = getSamplingPolicy();
+    watchMotionRef.current = motion;
+
+    locationSubscription.current?.remove();
+    locationSubscription.current = null;
+    if (heartbeatRef.current) {
+      clearInterval(heartbeatRef.current);
+      heartbeatRef.current = null;
+    }
+
+    const subscription = await Location.watchPositionAsync(
+      getWatchOptions(policy, motion),
+      (location) => {
+        setCurrentLocation(location);
+        sendLocation(toLocationData(location), "auto");
+      }
+    );
+
+    // Se detuvo el tracking o cambió el movimiento mientras se suscribía
+    if (watchMotionRef.current !== motion) {
+      subscription.remove();
+      return;
+    }
+    locationSubscription.current = subscription;
+
+    heartbeatRef.current = setInterval(async () => {
+      const location = await readHeartbeatLocation();
+      if (location) {
+        sendLocationRef.current(location, "auto");
+      }
+    }, policy.rates[motion].maxIntervalMs);
+
+    console.log(`🛰️ GPS suscrito (${MOTION_STATE_LABELS[motion]})`);
+  };
+
+  // ✅ FUNCIÓN: Reconfigurar el GPS en curso al empezar o terminar la
+  // ráfaga SOS
+  const applyTrackingPolicy = () => {
+    if (watchMotionRef.current) {
+      startWatching(watchMotionRef.current).catch((error) => {
+        console.error("❌ Error reconfigurando el GPS:", error);
+      });
+    } else if (backgroundHandlerCleanup.current && vehicleId) {
+      startBackgroundTracking(
+        vehicleId,
+        getWatchOptions(getSamplingPolicy(), "moving")
+      ).catch((error) => {
+        console.error("❌ Error reconfigurando el GPS en segundo plano:", error);
+      });
+    }
+  };
+
+  // ✅ FUNCIÓN: Disparar la alerta SOS con la ubicación actual
+  const handleSosTrigger = async () => {
+    Vibration.vibrate(500);
+
+    // Un fix de hace pocos segundos sirve; si no, se pide uno nuevo
+    const lastFix = lastFixRef.current;
+    const isRecent =
+      !!lastFix &&
+      Date.now() - Date.parse(lastFix.timestamp) < SOS_FIX_MAX_AGE_MS;
+    const location = isRecent
+      ? lastFix
+      : ((await getCurrentLocation()) ?? lastFix);
+
+    const { delivered } = await triggerSos(location);
+    console.log(
+      delivered
+        ? "🚨 Alerta SOS confirmada por el servidor"
+        : "📥 Alerta SOS en cola hasta reconectar"
+    );
+
+    // Sin tracking no habría ubicaciones de seguimiento
+    if (!isTracking && isSessionActive && vehicleId) {
+      startTracking();
+    }
+  };
+
   // ✅ FUNCIÓN: Detener tracking
   const stopTracking = () => {
     setIsTracking(false);
@@ -573,9 +1492,22 @@ export default function DriverScreen() {
       locationSubscription.current = null;
     }
 
-    if (trackingIntervalRef.current) {
-      clearInterval(trackingIntervalRef.current);
-      trackingIntervalRef.current = null;
+    // Lo acumulado en el lote actual no espera al temporizador
+    batcherRef.current?.flush();
+
+    watchMotionRef.current = null;
+    if (heartbeatRef.current) {
+      clearInterval(heartbeatRef.current);
+      heartbeatRef.current = null;
+    }
+
+    if (backgroundHandlerCleanup.current) {
+      backgroundHandlerCleanup.current();
+      backgroundHandlerCleanup.current = null;
+      backgroundRelayRef.current.clear();
+      stopBackgroundTracking().catch((error) => {
+        console.error("❌ Error deteniendo tracking en segundo plano:", error);
+      });
     }
   };
 
@@ -586,10 +1518,16 @@ export default function DriverScreen() {
       return;
     }
 
+    if (!requireVehicle()) return;
+
     setIsGeneratingRandomData(true);
 
+    const seed = createSeed();
+    const rng = createRng(seed);
+    console.log(`🎲 Datos aleatorios con semilla ${seed}`);
+
     randomDataIntervalRef.current = setInterval(() => {
-      const randomData = generateRandomTestData();
+      const randomData = generateRandomTestData(region, rng);
       const locationData: LocationData = {
         latitude: randomData.latitude,
         longitude: randomData.longitude,
@@ -614,7 +1552,7 @@ export default function DriverScreen() {
       setCurrentLocation(fakeLocationObject);
       sendLocation(locationData, "random");
 
-      if (Math.random() < 0.3 && mapRef.current) {
+      if (rng.next() < 0.3 && mapRef.current) {
         mapRef.current.animateToRegion(
           {
             latitude: locationData.latitude,
@@ -629,7 +1567,7 @@ export default function DriverScreen() {
 
     Alert.alert(
       "🎲 Datos Aleatorios Iniciados",
-      `Generando y enviando ubicaciones aleatorias cada ${randomDataInterval} segundos en Cartagena`
+      `Generando y enviando ubicaciones aleatorias cada ${randomDataInterval} segundos en ${region.name} (semilla ${seed})`
     );
   };
 
@@ -643,65 +1581,83 @@ export default function DriverScreen() {
     }
   };
 
-  // ✅ FUNCIÓN: Generar ruta aleatoria completa
-  const generateAndSendRandomRoute = async () => {
+  // ✅ FUNCIÓN: Importar un recorrido GPX/GeoJSON para reproducirlo
+  const handleImportTrack = async () => {
+    if (!requireVehicle()) return;
+
+    try {
+      const track = await pickTrackFile();
+      if (!track) return;
+
+      loadTrack(track);
+      console.log(`📂 Recorrido importado: ${track.name}`, track.points.length);
+      Alert.alert(
+        "📂 Recorrido Importado",
+        `${track.name}\n${track.points.length} puntos${
+          track.synthesizedTimes
+            ? "\n\nAl archivo le faltan horas: se estimaron a velocidad constante."
+            : ""
+        }\n\nUsa los controles para reproducirlo como ubicaciones de prueba.`
+      );
+    } catch (error) {
+      console.error("❌ Error importando recorrido:", error);
+      Alert.alert(
+        "❌ Error",
+        error instanceof TrackImportError
+          ? error.message
+          : "No se pudo leer el archivo seleccionado"
+      );
+    }
+  };
+
+  // ✅ FUNCIÓN: Simular una ruta por vías de la región
+  // La semilla elige ruta y escenario y fija todo el ruido: con la misma
+  // semilla se repite exactamente el mismo recorrido
+  const generateAndSendRandomRoute = () => {
     if (!isConnected) {
       Alert.alert("❌ Error", "Primero debes conectarte al servidor");
       return;
     }
 
-    const startLocation = generateRandomTestData();
-    const route = generateRandomRoute(startLocation, 8);
+    if (!requireVehicle()) return;
+
+    const runSimulation = (seed: number) => {
+      const rng = createRng(seed);
+      const route = rng.pick(getRegionRoutes(region));
+      const scenario = rng.pick(SIMULATION_SCENARIOS);
+      const points = simulateRoute(route, scenario, { seed });
+
+      lastSimulationSeedRef.current = seed;
+      loadTrack({
+        name: `${route.name} · ${scenario.name} (semilla ${seed})`,
+        points,
+        synthesizedTimes: false,
+        source: "simulation",
+      });
+      playReplay();
+      console.log(
+        `🗺️ Simulación ${route.id}/${scenario.id} con semilla ${seed}:`,
+        points.length
+      );
+    };
+
+    const seed = createSeed();
+    const lastSeed = lastSimulationSeedRef.current;
 
     Alert.alert(
-      "🗺️ Generando Ruta Aleatoria",
-      `Se enviará una ruta de ${route.length} puntos en ${route.length * 2} segundos`,
+      "🗺️ Simular Ruta",
+      `Se recorrerá una ruta de ${region.name} con un escenario al azar (semilla ${seed}).\n\nUsa los controles de reproducción para acelerarla.`,
       [
         { text: "Cancelar", style: "cancel" },
-        {
-          text: "Enviar",
-          onPress: () => {
-            route.forEach((point, index) => {
-              setTimeout(() => {
-                const locationData: LocationData = {
-                  latitude: point.latitude,
-                  longitude: point.longitude,
-                  accuracy: Math.floor(Math.random() * 15) + 5,
-                  timestamp: new Date().toISOString(),
-                  speed: Math.random() * 40,
-                };
-
-                const fakeLocationObject: Location.LocationObject = {
-                  coords: {
-                    latitude: locationData.latitude,
-                    longitude: locationData.longitude,
-                    altitude: 0,
-                    accuracy: locationData.accuracy || 15,
-                    altitudeAccuracy: null,
-                    heading: null,
-                    speed: locationData.speed || null,
-                  },
-                  timestamp: Date.now(),
-                };
-
-                setCurrentLocation(fakeLocationObject);
-                sendLocation(locationData, "random");
-
-                if (index === 0 && mapRef.current) {
-                  mapRef.current.animateToRegion(
-                    {
-                      latitude: locationData.latitude,
-                      longitude: locationData.longitude,
-                      latitudeDelta: 0.02,
-                      longitudeDelta: 0.02,
-                    },
-                    1000
-                  );
-                }
-              }, index * 2000);
-            });
-          },
-        },
+        ...(lastSeed !== null
+          ? [
+              {
+                text: `Repetir ${lastSeed}`,
+                onPress: () => runSimulation(lastSeed),
+              },
+            ]
+          : []),
+        { text: "Enviar", onPress: () => runSimulation(seed) },
       ]
     );
   };
@@ -713,6 +1669,8 @@ export default function DriverScreen() {
       return;
     }
 
+    if (!requireVehicle()) return;
+
     const location = await getCurrentLocation();
     if (location) {
       sendLocation(location, "manual");
@@ -721,8 +1679,11 @@ export default function DriverScreen() {
   };
 
   // ✅ FUNCIÓN: Usar ubicación de prueba
-  const useCartagenaTestLocation = async () => {
-    const testCoords = generateCartagenaTestLocation();
+  const useRegionTestLocation = async () => {
+    const testCoords = generateRegionTestLocation(
+      region,
+      createRng(createSeed())
+    );
     const testLocation: LocationData = {
       latitude: testCoords.latitude,
       longitude: testCoords.longitude,
@@ -744,7 +1705,6 @@ export default function DriverScreen() {
     };
 
     setCurrentLocation(fakeLocationObject);
-    lastLocationRef.current = testLocation;
 
     if (isConnected) {
       sendLocation(testLocation, "test");
@@ -764,7 +1724,7 @@ export default function DriverScreen() {
 
     Alert.alert(
       "🏖️ Ubicación de Prueba",
-      `Ubicación simulada en Cartagena:\nLat: ${testLocation.latitude.toFixed(4)}\nLng: ${testLocation.longitude.toFixed(4)}`
+      `Ubicación simulada en ${region.name}:\nLat: ${testLocation.latitude.toFixed(4)}\nLng: ${testLocation.longitude.toFixed(4)}`
     );
   };
 
@@ -792,7 +1752,7 @@ export default function DriverScreen() {
   const clearHistory = () => {
     Alert.alert(
       "🗑️ Limpiar Historial",
-      "¿Estás seguro de que quieres borrar el historial de ubicaciones?",
+      "¿Quitar del mapa las ubicaciones de esta sesión? El historial guardado se conserva en la pantalla de Historial.",
       [
         { text: "Cancelar", style: "cancel" },
         {
@@ -800,11 +1760,10 @@ export default function DriverScreen() {
           style: "destructive",
           onPress: () => {
             setSentLocations([]);
+            setFixStats(createTripStats());
             setSessionStats((prev) => ({
               ...prev,
               totalLocationsSent: 0,
-              totalDistance: 0,
-              avgAccuracy: 0,
               randomDataGenerated: 0,
             }));
           },
@@ -836,9 +1795,6 @@ export default function DriverScreen() {
   const cleanup = () => {
     stopTracking();
     stopRandomDataGeneration();
-    if (socketRef.current) {
-      socketRef.current.disconnect();
-    }
   };
 
   // ✅ FUNCIÓN: Refresh
@@ -862,6 +1818,11 @@ export default function DriverScreen() {
     return `${minutes}m`;
   };
 
+  // Ubicaciones del historial que no lograron confirmación
+  const failedCount = sentLocations.filter(
+    (loc) => loc.deliveryState === "failed"
+  ).length;
+
   // Generar coordenadas para la ruta
   const getRouteCoordinates = () => {
     return sentLocations
@@ -881,7 +1842,7 @@ export default function DriverScreen() {
       <MapView
         ref={mapRef}
         style={isMapExpanded ? mapStyles.mapExpanded : mapStyles.map}
-        initialRegion={CARTAGENA_COORDS}
+        initialRegion={initialMapRegion}
         region={
           currentLocation
             ? {
@@ -890,7 +1851,7 @@ export default function DriverScreen() {
                 latitudeDelta: 0.02,
                 longitudeDelta: 0.02,
               }
-            : CARTAGENA_COORDS
+            : initialMapRegion
         }
         showsUserLocation={permissionStatus === "granted"}
         showsMyLocationButton={false}
@@ -903,32 +1864,13 @@ export default function DriverScreen() {
       >
         {/* Marcador de ubicación actual */}
         {currentLocation && (
-          <>
-            <Marker
-              coordinate={currentLocation.coords}
-              title="🚗 Mi Ubicación"
-              description={`Precisión: ${Math.round(currentLocation.coords.accuracy || 0)}m`}
-              pinColor={
-                isTracking || isGeneratingRandomData ? "#34C759" : "#007AFF"
-              }
-            />
-
-            {/* Círculo de precisión */}
-            <Circle
-              center={currentLocation.coords}
-              radius={currentLocation.coords.accuracy || 20}
-              strokeColor={
-                isTracking || isGeneratingRandomData
-                  ? "rgba(52, 199, 89, 0.5)"
-                  : "rgba(0, 122, 255, 0.5)"
-              }
-              fillColor={
-                isTracking || isGeneratingRandomData
-                  ? "rgba(52, 199, 89, 0.2)"
-                  : "rgba(0, 122, 255, 0.2)"
-              }
-            />
-          </>
+          <LocationMarker
+            coordinate={currentLocation.coords}
+            accuracy={currentLocation.coords.accuracy}
+            title="🚗 Mi Ubicación"
+            description={`Precisión: ${Math.round(currentLocation.coords.accuracy || 0)}m`}
+            status={isTracking || isGeneratingRandomData ? "active" : "idle"}
+          />
         )}
 
         {/* Marcadores del historial */}
@@ -948,20 +1890,55 @@ export default function DriverScreen() {
                     ? "🎲"
                     : "📍"
             } Ubicación ${location.type}`}
-            description={new Date(location.timestamp).toLocaleTimeString()}
+            description={`${new Date(location.timestamp).toLocaleTimeString()} · ${
+              location.deliveryState === "acked"
+                ? "Confirmada"
+                : location.deliveryState === "failed"
+                  ? "Sin confirmar"
+                  : "Pendiente"
+            }`}
             pinColor={
-              location.type === "manual"
-                ? "#9F7AEA"
-                : location.type === "test"
-                  ? "#F6AD55"
-                  : location.type === "random"
-                    ? "#ED8936"
-                    : "#4299E1"
+              location.deliveryState === "failed"
+                ? "#E53E3E"
+                : location.deliveryState === "pending"
+                  ? "#A0AEC0"
+                  : location.type === "manual"
+                    ? "#9F7AEA"
+                    : location.type === "test"
+                      ? "#F6AD55"
+                      : location.type === "random"
+                        ? "#ED8936"
+                        : "#4299E1"
             }
             opacity={1 - index * 0.05}
           />
         ))}
 
+        <GeofenceOverlays
+          geofences={geofences}
+          insideIds={insideGeofenceIds}
+        />
+
+        {mappedJob && <JobMarkers job={mappedJob} />}
+        {routeTarget && routeTarget.kind !== "job" && (
+          <Marker
+            coordinate={routeTarget}
+            title={routeTarget.name}
+            description="Destino"
+            pinColor="#38A169"
+          />
+        )}
+
+        {/* Ruta planificada hacia el destino */}
+        {plannedRoute && (
+          <Polyline
+            coordinates={plannedRoute.coordinates}
+            strokeColor="#38A169"
+            strokeWidth={5}
+            lineDashPattern={[12, 6]}
+          />
+        )}
+
         {/* Línea de ruta del historial */}
         {getRouteCoordinates().length > 1 && (
           <Polyline
@@ -1022,23 +1999,97 @@ export default function DriverScreen() {
                 <Text className="text-xl font-bold text-gray-800">
                   👋 Hola, {user?.email || "Driver"}
                 </Text>
-                <Text className="text-sm text-gray-600 mt-1">
-                  Vehículo: {vehicleId}
-                </Text>
+                <View className="flex-row items-center mt-1">
+                  <Text className="text-sm text-gray-600">
+                    Vehículo: {vehicleLabel}
+                  </Text>
+                  {!user?.vehicleId && (
+                    <TouchableOpacity
+                      className="ml-2"
+                      onPress={
+                        assignedVehicle
+                          ? handleReleaseVehicle
+                          : () => setIsVehiclePickerVisible(true)
+                      }
+                    >
+                      <Text
+                        className={`text-sm font-semibold ${assignedVehicle ? "text-red-600" : "text-blue-600"}`}
+                      >
+                        {assignedVehicle ? "Liberar" : "Elegir"}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
               </View>
-              <TouchableOpacity onPress={handleLogout} className="p-2">
-                <Ionicons name="log-out-outline" size={24} color="#FF3B30" />
-              </TouchableOpacity>
+              <View className="flex-row items-center">
+                <TouchableOpacity
+                  onPress={() => setIsChatVisible(true)}
+                  className="p-2"
+                >
+                  <Ionicons
+                    name="chatbubbles-outline"
+                    size={24}
+                    color="#007AFF"
+                  />
+                  {unreadChatCount > 0 && (
+                    <View className="absolute top-1 right-1 min-w-[16px] h-4 px-1 rounded-full bg-red-500 items-center justify-center">
+                      <Text className="text-white text-[10px] font-bold">
+                        {unreadChatCount > 9 ? "9+" : unreadChatCount}
+                      </Text>
+                    </View>
+                  )}
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => router.push("/(tabs)/geofences")}
+                  className="p-2"
+                >
+                  <Ionicons name="flag-outline" size={24} color="#007AFF" />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => router.push("/(tabs)/history")}
+                  className="p-2"
+                >
+                  <Ionicons name="time-outline" size={24} color="#007AFF" />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => router.push("/(tabs)/settings")}
+                  className="p-2"
+                >
+                  <Ionicons name="settings-outline" size={24} color="#007AFF" />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={handleLogout} className="p-2">
+                  <Ionicons name="log-out-outline" size={24} color="#FF3B30" />
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            {/* Emergencia */}
+            <View className="px-5 pt-4">
+              {sosAlert ? (
+                <SosAlertBanner
+                  alert={sosAlert}
+                  burstUntil={sosBurstUntil}
+                  onDismiss={dismissSos}
+                />
+              ) : (
+                <SosButton onTrigger={handleSosTrigger} />
+              )}
             </View>
 
             {/* Estados con indicadores */}
             <View className="p-5 pb-4">
               <View className="flex-row items-center mb-2">
                 <View
-                  className={`w-2 h-2 rounded-full mr-3 ${isConnected ? "bg-green-500" : "bg-red-500"}`}
+                  className={`w-2 h-2 rounded-full mr-3 ${
+                    isConnected
+                      ? "bg-green-500"
+                      : isSessionActive
+                        ? "bg-yellow-500"
+                        : "bg-red-500"
+                  }`}
                 />
                 <Text className="text-sm text-gray-700">
-                  {connectionStatus}
+                  {describeConnection(connection)}
                 </Text>
               </View>
 
@@ -1048,6 +2099,17 @@ export default function DriverScreen() {
                 />
                 <Text className="text-sm text-gray-700">
                   GPS Tracking: {isTracking ? "Activo" : "Inactivo"}
+                  {backgroundMode ? " (segundo plano)" : ""}
+                </Text>
+              </View>
+
+              <View className="flex-row items-center mb-2">
+                <View
+                  className={`w-2 h-2 rounded-full mr-3 ${motionState === "stationary" ? "bg-gray-400" : "bg-blue-500"}`}
+                />
+                <Text className="text-sm text-gray-700">
+                  Muestreo: {SAMPLING_PRESET_LABELS[settings.samplingPreset]}
+                  {isTracking ? ` · ${MOTION_STATE_LABELS[motionState]}` : ""}
                 </Text>
               </View>
 
@@ -1061,6 +2123,60 @@ export default function DriverScreen() {
                 </Text>
               </View>
 
+              <View className="flex-row items-center mb-2">
+                <View
+                  className={`w-2 h-2 rounded-full mr-3 ${pendingCount > 0 ? "bg-yellow-500" : "bg-gray-400"}`}
+                />
+                <Text className="text-sm text-gray-700">
+                  Pendientes por enviar: {pendingCount}
+                </Text>
+              </View>
+
+              <View className="flex-row items-center mb-2">
+                <View
+                  className={`w-2 h-2 rounded-full mr-3 ${settings.batching.enabled && serverCapabilities?.batch ? "bg-blue-500" : "bg-gray-400"}`}
+                />
+                <Text className="text-sm text-gray-700">
+                  Envío:{" "}
+                  {!settings.batching.enabled
+                    ? "individual"
+                    : !serverCapabilities
+                      ? "por lotes (sin conexión)"
+                      : serverCapabilities.batch
+                        ? `por lotes · último ${lastBatchSize} · en espera ${bufferedCount}`
+                        : "individual (servidor sin lotes)"}
+                </Text>
+              </View>
+
+              <View className="flex-row items-center mb-2">
+                <View
+                  className={`w-2 h-2 rounded-full mr-3 ${rejectedFixes > 0 ? "bg-red-500" : "bg-gray-400"}`}
+                />
+                <Text className="text-sm text-gray-700">
+                  Fixes descartados: {rejectedFixes} (precisión{" "}
+                  {filterCounters.rejectedAccuracy}, saltos{" "}
+                  {filterCounters.rejectedSpeed})
+                  {filterCounters.flagged > 0
+                    ? ` · ${filterCounters.flagged} marcados`
+                    : ""}
+                </Text>
+              </View>
+
+              <View className="flex-row items-center mb-2">
+                <View
+                  className={`w-2 h-2 rounded-full mr-3 ${insideGeofenceIds.length > 0 ? "bg-orange-500" : "bg-gray-400"}`}
+                />
+                <Text className="text-sm text-gray-700">
+                  Geocercas:{" "}
+                  {insideGeofenceIds.length > 0
+                    ? `dentro de ${geofences
+                        .filter((g) => insideGeofenceIds.includes(g.id))
+                        .map((g) => g.name)
+                        .join(", ")}`
+                    : `fuera (${geofences.length} definidas)`}
+                </Text>
+              </View>
+
               <View className="flex-row items-center">
                 <View
                   className={`w-2 h-2 rounded-full mr-3 ${permissionStatus === "granted" ? "bg-green-500" : "bg-yellow-500"}`}
@@ -1086,7 +2202,7 @@ export default function DriverScreen() {
                       {sessionStats.totalLocationsSent}
                     </Text>
                     <Text className="text-xs text-gray-600 mt-1">
-                      Ubicaciones
+                      Confirmadas
                     </Text>
                   </View>
                   <View className="items-center">
@@ -1105,31 +2221,146 @@ export default function DriverScreen() {
                   </View>
                   <View className="items-center">
                     <Text className="text-lg font-bold text-blue-600">
-                      {(sessionStats.totalDistance / 1000).toFixed(1)}km
+                      {(fixStats.distanceMeters / 1000).toFixed(1)}km
                     </Text>
                     <Text className="text-xs text-gray-600 mt-1">
                       Distancia
                     </Text>
                   </View>
                 </View>
+                {fixStats.pointCount > 0 && (
+                  <Text className="text-xs text-gray-600 text-center mt-3">
+                    Precisión media: ±{Math.round(getMeanAccuracy(fixStats))}m
+                    · Vel. máx: {Math.round(fixStats.maxSpeed * 3.6)} km/h
+                  </Text>
+                )}
+                {failedCount > 0 && (
+                  <Text className="text-xs text-red-600 text-center mt-3">
+                    ❌ {failedCount} ubicaciones sin confirmación del servidor
+                  </Text>
+                )}
+              </View>
+            )}
+
+            {/* Servicios de despacho */}
+            {(activeJob || jobOffers.length > 0) && (
+              <View className="px-5 pb-1">
+                {activeJob && (
+                  <JobCard
+                    job={activeJob}
+                    isUpdating={isUpdatingJob}
+                    onAdvance={handleJobAdvance}
+                  />
+                )}
+                {jobOffers.map((job) => (
+                  <JobCard
+                    key={job.id}
+                    job={job}
+                    isUpdating={isUpdatingJob}
+                    onAccept={() => handleJobResponse(job, true)}
+                    onReject={() => handleJobResponse(job, false)}
+                  />
+                ))}
               </View>
             )}
 
+            {/* Ruta al próximo destino */}
+            <View className="px-5 pb-1">
+              <RoutePanel
+                isConfigured={isRoutingConfigured(settings.routing)}
+                targets={routeTargets}
+                target={routeTarget}
+                route={plannedRoute}
+                progress={routeProgress}
+                isLoading={isLoadingRoute}
+                error={routeError}
+                onSelect={setRouteTarget}
+              />
+            </View>
+
+            {/* Viaje */}
+            <View className="px-5 pb-4">
+              {trip ? (
+                <View className="p-4 bg-indigo-50 border border-indigo-200 rounded-xl">
+                  <View className="flex-row justify-between items-center mb-2">
+                    <Text className="text-base font-bold text-indigo-800">
+                      🧭 Viaje {trip.status === "active" ? "en curso" : "en pausa"}
+                    </Text>
+                    <Text className="text-xs text-indigo-600">
+                      Desde {new Date(trip.startedAt).toLocaleTimeString()}
+                    </Text>
+                  </View>
+                  <Text className="text-sm text-indigo-700 mb-3">
+                    {(trip.stats.distanceMeters / 1000).toFixed(2)} km ·{" "}
+                    {trip.stats.pointCount} puntos · En movimiento{" "}
+                    {formatDuration(trip.stats.movingMs)}
+                  </Text>
+                  <View className="flex-row">
+                    <TouchableOpacity
+                      className="flex-1 flex-row items-center justify-center py-2.5 rounded-lg mr-2 bg-indigo-500"
+                      onPress={trip.status === "active" ? pauseTrip : resumeTrip}
+                    >
+                      <Ionicons
+                        name={trip.status === "active" ? "pause" : "play"}
+                        size={16}
+                        color="#fff"
+                        style={{ marginRight: 6 }}
+                      />
+                      <Text className="text-white text-sm font-semibold">
+                        {trip.status === "active" ? "Pausar" : "Reanudar"}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      className="flex-1 flex-row items-center justify-center py-2.5 rounded-lg bg-red-500"
+                      onPress={handleEndTrip}
+                    >
+                      <Ionicons
+                        name="flag"
+                        size={16}
+                        color="#fff"
+                        style={{ marginRight: 6 }}
+                      />
+                      <Text className="text-white text-sm font-semibold">
+                        Terminar
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ) : (
+                <TouchableOpacity
+                  className="flex-row items-center justify-center py-3.5 px-4 rounded-xl bg-indigo-500"
+                  onPress={handleStartTrip}
+                >
+                  <Ionicons
+                    name="navigate-circle"
+                    size={20}
+                    color="#fff"
+                    style={{ marginRight: 8 }}
+                  />
+                  <Text className="text-white text-base font-semibold">
+                    🧭 Iniciar Viaje
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
             {/* Controles principales */}
             <View className="px-5 pb-4">
               {/* Conexión */}
               <TouchableOpacity
                 className={`flex-row items-center justify-center py-3.5 px-4 rounded-xl mb-3 ${
-                  isConnected ? "bg-gray-500" : "bg-blue-500"
+                  isSessionActive ? "bg-gray-500" : "bg-blue-500"
                 } ${isConnecting ? "bg-gray-300" : ""}`}
-                onPress={isConnected ? disconnectFromServer : connectToServer}
+                onPress={
+                  isSessionActive ? disconnectFromServer : connectToServer
+                }
                 disabled={isConnecting}
               >
                 <Ionicons size={20} color="#fff" style={{ marginRight: 8 }} />
                 <Text className="text-white text-base font-semibold">
                   {isConnecting
                     ? "Conectando..."
-                    : isConnected
+                    : isSessionActive
                       ? "🔌 Desconectar"
                       : "📡 Conectar al Servidor"}
                 </Text>
@@ -1139,9 +2370,9 @@ export default function DriverScreen() {
               <TouchableOpacity
                 className={`flex-row items-center justify-center py-3.5 px-4 rounded-xl mb-3 ${
                   isTracking ? "bg-red-500" : "bg-green-500"
-                } ${!isConnected || permissionStatus !== "granted" ? "bg-gray-300" : ""}`}
+                } ${!isSessionActive || permissionStatus !== "granted" ? "bg-gray-300" : ""}`}
                 onPress={isTracking ? stopTracking : startTracking}
-                disabled={!isConnected || permissionStatus !== "granted"}
+                disabled={!isSessionActive || permissionStatus !== "granted"}
               >
                 <Ionicons
                   name={isTracking ? "pause" : "play"}
@@ -1185,33 +2416,30 @@ export default function DriverScreen() {
               {!isTracking && !isGeneratingRandomData && (
                 <View className="mt-3 mb-3">
                   <Text className="text-sm text-gray-700 mb-3 text-center">
-                    Intervalos de envío
+                    Intervalo de datos aleatorios
                   </Text>
                   <View className="flex-row justify-around mb-3">
                     <Text className="text-xs text-gray-600">
-                      GPS: {trackingInterval}s
+                      GPS: {SAMPLING_PRESET_LABELS[settings.samplingPreset]}
                     </Text>
                     <Text className="text-xs text-gray-600">
                       Random: {randomDataInterval}s
                     </Text>
                   </View>
-                  <View className="flex-row justify-around">
+                  <View className="flex-row justify-around mb-3">
                     {[2, 3, 5, 10].map((interval) => (
                       <TouchableOpacity
                         key={interval}
                         className={`py-2 px-3 rounded-lg ${
-                          trackingInterval === interval
+                          randomDataInterval === interval
                             ? "bg-blue-500"
                             : "bg-gray-200"
                         }`}
-                        onPress={() => {
-                          setTrackingInterval(interval);
-                          setRandomDataInterval(interval);
-                        }}
+                        onPress={() => setRandomDataInterval(interval)}
                       >
                         <Text
                           className={`text-sm ${
-                            trackingInterval === interval
+                            randomDataInterval === interval
                               ? "text-white font-semibold"
                               : "text-gray-700"
                           }`}
@@ -1221,6 +2449,28 @@ export default function DriverScreen() {
                       </TouchableOpacity>
                     ))}
                   </View>
+                  <TouchableOpacity
+                    className={`flex-row items-center justify-center py-2 px-3 rounded-lg ${
+                      backgroundMode ? "bg-indigo-500" : "bg-gray-200"
+                    }`}
+                    onPress={() => setBackgroundMode(!backgroundMode)}
+                  >
+                    <Ionicons
+                      name="moon"
+                      size={16}
+                      color={backgroundMode ? "#fff" : "#4A5568"}
+                      style={{ marginRight: 6 }}
+                    />
+                    <Text
+                      className={`text-sm ${
+                        backgroundMode
+                          ? "text-white font-semibold"
+                          : "text-gray-700"
+                      }`}
+                    >
+                      Segundo plano: {backgroundMode ? "Activado" : "Desactivado"}
+                    </Text>
+                  </TouchableOpacity>
                 </View>
               )}
             </View>
@@ -1242,11 +2492,11 @@ export default function DriverScreen() {
 
               <TouchableOpacity
                 className="flex-row items-center py-3 px-4 rounded-lg mb-2 bg-yellow-50 border border-yellow-200"
-                onPress={useCartagenaTestLocation}
+                onPress={useRegionTestLocation}
               >
                 <Ionicons name="location" size={18} color="#F6AD55" />
                 <Text className="text-yellow-700 ml-2 text-sm">
-                  🏖️ Ubicación de Prueba (Cartagena)
+                  🏖️ Ubicación de Prueba ({region.name})
                 </Text>
               </TouchableOpacity>
 
@@ -1259,10 +2509,32 @@ export default function DriverScreen() {
               >
                 <Ionicons name="map" size={18} color="#9F7AEA" />
                 <Text className="text-purple-700 ml-2 text-sm">
-                  🗺️ Generar Ruta Aleatoria
+                  🗺️ Simular Ruta
                 </Text>
               </TouchableOpacity>
 
+              {replayTrack && replayState ? (
+                <ReplayControls
+                  track={replayTrack}
+                  state={replayState}
+                  onPlay={playReplay}
+                  onPause={pauseReplay}
+                  onSeek={seekReplay}
+                  onSpeedChange={setReplaySpeed}
+                  onClose={unloadTrack}
+                />
+              ) : (
+                <TouchableOpacity
+                  className="flex-row items-center py-3 px-4 rounded-lg mb-2 bg-teal-50 border border-teal-200"
+                  onPress={handleImportTrack}
+                >
+                  <Ionicons name="folder-open" size={18} color="#319795" />
+                  <Text className="text-teal-700 ml-2 text-sm">
+                    📂 Reproducir Recorrido (GPX/GeoJSON)
+                  </Text>
+                </TouchableOpacity>
+              )}
+
               {sentLocations.length > 0 && (
                 <TouchableOpacity
                   className="flex-row items-center py-3 px-4 rounded-lg mb-2 bg-red-50 border border-red-200"
@@ -1298,6 +2570,11 @@ export default function DriverScreen() {
                               : "📍 Auto"}
                       </Text>
                       <Text className="text-xs text-gray-600">
+                        {location.deliveryState === "acked"
+                          ? "✅"
+                          : location.deliveryState === "failed"
+                            ? "❌"
+                            : "⏳"}{" "}
                         {new Date(location.timestamp).toLocaleTimeString()}
                       </Text>
                     </View>
@@ -1356,6 +2633,22 @@ export default function DriverScreen() {
           </ScrollView>
         </View>
       )}
+
+      <VehiclePicker
+        visible={isVehiclePickerVisible}
+        onSelect={handleVehicleSelect}
+        onClose={() => setIsVehiclePickerVisible(false)}
+      />
+
+      <ChatPanel
+        visible={isChatVisible}
+        messages={chatMessages}
+        unreadCount={unreadChatCount}
+        canSend={!!vehicleId}
+        onSend={sendChatMessage}
+        onMarkRead={markChatRead}
+        onClose={() => setIsChatVisible(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -0,0 +1,261 @@
+// screens/GeofencesScreen.tsx
+import { Ionicons } from "@expo/vector-icons";
+import * as Location from "expo-location";
+import { useFocusEffect, useRouter } from "expo-router";
+import React, { useCallback, useState } from "react";
+import {
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StatusBar,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useGeofences } from "@/hooks/useGeofences";
+import {
+  clearGeofenceLog,
+  GeofenceLogEntry,
+  loadGeofenceLog,
+} from "@/lib/geofenceLog";
+import { createCircleGeofence, Geofence } from "@/lib/geofences";
+import { formatDuration } from "@/lib/trips";
+
+const RADIUS_OPTIONS = [50, 100, 200, 500];
+
+const describeGeofence = (geofence: Geofence) =>
+  geofence.type === "circle"
+    ? `Círculo de ${geofence.radiusMeters} m`
+    : `Polígono de ${geofence.coordinates.length} vértices`;
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export default function GeofencesScreen() {
+  const router = useRouter();
+  const { geofences, refresh, addLocalGeofence, removeLocalGeofence } =
+    useGeofences();
+  const [log, setLog] = useState<GeofenceLogEntry[]>([]);
+  const [name, setName] = useState("");
+  const [radius, setRadius] = useState(100);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadGeofenceLog().then(setLog);
+    }, [])
+  );
+
+  // ✅ FUNCIÓN: Crear una geocerca circular en la posición actual
+  const createHere = async () => {
+    setIsCreating(true);
+    try {
+      const position =
+        (await Location.getLastKnownPositionAsync()) ??
+        (await Location.getCurrentPositionAsync({
+          accuracy: Location.Accuracy.Balanced,
+        }));
+
+      const geofence = createCircleGeofence(
+        name.trim() || `Geocerca ${geofences.length + 1}`,
+        {
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+        },
+        radius
+      );
+      await addLocalGeofence(geofence);
+      setName("");
+      console.log("📍 Geocerca creada:", geofence);
+    } catch (error) {
+      console.error("❌ Error creando geocerca:", error);
+      Alert.alert(
+        "❌ Error",
+        "No se pudo obtener la ubicación actual. Revisa los permisos de GPS."
+      );
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const confirmRemove = (geofence: Geofence) => {
+    Alert.alert("🗑️ Eliminar Geocerca", `¿Eliminar "${geofence.name}"?`, [
+      { text: "Cancelar", style: "cancel" },
+      {
+        text: "Eliminar",
+        style: "destructive",
+        onPress: () => removeLocalGeofence(geofence.id),
+      },
+    ]);
+  };
+
+  const clearLog = async () => {
+    await clearGeofenceLog();
+    setLog([]);
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50">
+      <StatusBar barStyle="dark-content" backgroundColor="#fff" />
+
+      <View className="flex-row items-center p-5">
+        <TouchableOpacity onPress={() => router.back()} className="mr-3">
+          <Ionicons name="arrow-back" size={24} color="#2D3748" />
+        </TouchableOpacity>
+        <Text className="text-2xl font-bold text-gray-800 flex-1">
+          📍 Geocercas
+        </Text>
+        <TouchableOpacity onPress={refresh} className="p-2">
+          <Ionicons name="refresh" size={22} color="#007AFF" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView>
+        <View className="mx-5 mb-5 bg-white rounded-2xl p-5 shadow">
+          <Text className="text-lg font-bold text-gray-800 mb-1">
+            ➕ Nueva geocerca
+          </Text>
+          <Text className="text-xs text-gray-500 mb-4">
+            Círculo alrededor de tu posición actual, guardado solo en este
+            dispositivo
+          </Text>
+
+          <TextInput
+            className="border border-gray-200 rounded-lg px-3 py-2 mb-3 text-sm text-gray-800"
+            placeholder="Nombre (p. ej. Bodega principal)"
+            placeholderTextColor="#A0AEC0"
+            value={name}
+            onChangeText={setName}
+          />
+
+          <View className="flex-row justify-around mb-4">
+            {RADIUS_OPTIONS.map((meters) => (
+              <TouchableOpacity
+                key={meters}
+                className={`py-2 px-3 rounded-lg ${radius === meters ? "bg-blue-500" : "bg-gray-200"}`}
+                onPress={() => setRadius(meters)}
+              >
+                <Text
+                  className={`text-sm ${radius === meters ? "text-white font-semibold" : "text-gray-700"}`}
+                >
+                  {meters} m
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TouchableOpacity
+            className={`flex-row items-center justify-center py-3 rounded-lg ${isCreating ? "bg-gray-300" : "bg-purple-500"}`}
+            onPress={createHere}
+            disabled={isCreating}
+          >
+            <Ionicons name="locate" size={18} color="#fff" />
+            <Text className="text-white font-semibold ml-2">
+              {isCreating ? "Obteniendo ubicación..." : "Crear aquí"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <View className="mx-5 mb-5 bg-white rounded-2xl p-5 shadow">
+          <Text className="text-lg font-bold text-gray-800 mb-3">
+            🗺️ Definidas ({geofences.length})
+          </Text>
+
+          {geofences.length === 0 && (
+            <Text className="text-sm text-gray-600">
+              No hay geocercas del servidor ni locales
+            </Text>
+          )}
+
+          {geofences.map((geofence) => (
+            <View
+              key={geofence.id}
+              className="flex-row items-center py-2 border-b border-gray-100"
+            >
+              <Ionicons
+                name={
+                  geofence.source === "api"
+                    ? "cloud-outline"
+                    : "phone-portrait-outline"
+                }
+                size={18}
+                color="#805AD5"
+              />
+              <View className="ml-3 flex-1">
+                <Text className="text-sm font-semibold text-gray-800">
+                  {geofence.name}
+                </Text>
+                <Text className="text-xs text-gray-500">
+                  {describeGeofence(geofence)} ·{" "}
+                  {geofence.source === "api" ? "servidor" : "local"}
+                </Text>
+              </View>
+              {geofence.source === "local" && (
+                <TouchableOpacity onPress={() => confirmRemove(geofence)}>
+                  <Ionicons name="trash-outline" size={18} color="#E53E3E" />
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+        </View>
+
+        <View className="mx-5 mb-5 bg-white rounded-2xl p-5 shadow">
+          <View className="flex-row items-center justify-between mb-3">
+            <Text className="text-lg font-bold text-gray-800">
+              📜 Registro
+            </Text>
+            {log.length > 0 && (
+              <TouchableOpacity onPress={clearLog}>
+                <Text className="text-sm text-red-500">Borrar</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {log.length === 0 && (
+            <Text className="text-sm text-gray-600">
+              Todavía no hay entradas ni salidas registradas
+            </Text>
+          )}
+
+          {log.map((entry) => (
+            <View
+              key={entry.id}
+              className="flex-row items-center py-2 border-b border-gray-100"
+            >
+              <Ionicons
+                name={entry.type === "enter" ? "enter-outline" : "exit-outline"}
+                size={18}
+                color={entry.type === "enter" ? "#38A169" : "#DD6B20"}
+              />
+              <View className="ml-3 flex-1">
+                <Text className="text-sm text-gray-800">
+                  {entry.type === "enter" ? "Entrada a" : "Salida de"}{" "}
+                  {entry.geofenceName}
+                </Text>
+                <Text className="text-xs text-gray-500">
+                  {formatDateTime(entry.timestamp)} · {entry.vehicleId}
+                  {entry.dwellMs !== undefined
+                    ? ` · ${formatDuration(entry.dwellMs)} dentro`
+                    : ""}
+                </Text>
+              </View>
+              <Ionicons
+                name={
+                  entry.delivered ? "cloud-done-outline" : "cloud-upload-outline"
+                }
+                size={16}
+                color={entry.delivered ? "#34C759" : "#A0AEC0"}
+              />
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,205 @@
+// screens/HistoryScreen.tsx
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect, useRouter } from "expo-router";
+import React, { useCallback, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  SafeAreaView,
+  SectionList,
+  StatusBar,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { HistoryPointRow } from "@/components/HistoryPointRow";
+import {
+  getLocationsOutsideTrips,
+  HistoryPoint,
+} from "@/lib/locationHistory";
+import { formatDuration, loadTripSummaries, TripSummary } from "@/lib/trips";
+
+// Ubicaciones fuera de viaje por página
+const LOCATIONS_PAGE_SIZE = 50;
+
+type HistoryTab = "trips" | "locations";
+
+const HISTORY_TABS: { id: HistoryTab; label: string }[] = [
+  { id: "trips", label: "Viajes" },
+  { id: "locations", label: "Fuera de viaje" },
+];
+
+interface TripSection {
+  title: string;
+  data: TripSummary[];
+}
+
+// Agrupa por día de inicio; los resúmenes ya vienen del más reciente al más antiguo
+const groupByDay = (summaries: TripSummary[]): TripSection[] => {
+  const sections: TripSection[] = [];
+
+  summaries.forEach((summary) => {
+    const title = new Date(summary.startedAt).toLocaleDateString(undefined, {
+      weekday: "long",
+      day: "numeric",
+      month: "long",
+      year: "numeric",
+    });
+    const last = sections[sections.length - 1];
+    if (last?.title === title) {
+      last.data.push(summary);
+    } else {
+      sections.push({ title, data: [summary] });
+    }
+  });
+
+  return sections;
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString(undefined, {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export default function HistoryScreen() {
+  const router = useRouter();
+  const [sections, setSections] = useState<TripSection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [tab, setTab] = useState<HistoryTab>("trips");
+  const [locations, setLocations] = useState<HistoryPoint[]>([]);
+  const [hasMoreLocations, setHasMoreLocations] = useState(true);
+  const [isLoadingLocations, setIsLoadingLocations] = useState(false);
+
+  // Siguiente página de ubicaciones; sin `after` vuelve a la primera
+  const loadLocations = async (after?: HistoryPoint) => {
+    setIsLoadingLocations(true);
+    try {
+      const page = await getLocationsOutsideTrips(LOCATIONS_PAGE_SIZE, after);
+      setLocations((prev) => (after ? [...prev, ...page] : page));
+      setHasMoreLocations(page.length === LOCATIONS_PAGE_SIZE);
+    } catch (error) {
+      console.error("❌ Error cargando ubicaciones del historial:", error);
+    } finally {
+      setIsLoadingLocations(false);
+    }
+  };
+
+  // Se recarga al volver a la pantalla (p. ej. tras terminar un viaje)
+  useFocusEffect(
+    useCallback(() => {
+      loadTripSummaries()
+        .then((summaries) => setSections(groupByDay(summaries)))
+        .finally(() => setIsLoading(false));
+      loadLocations();
+    }, [])
+  );
+
+  const loadMoreLocations = () => {
+    if (isLoadingLocations || !hasMoreLocations) return;
+    loadLocations(locations[locations.length - 1]);
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50">
+      <StatusBar barStyle="dark-content" backgroundColor="#fff" />
+
+      <View className="flex-row items-center p-5">
+        <TouchableOpacity onPress={() => router.back()} className="mr-3">
+          <Ionicons name="arrow-back" size={24} color="#2D3748" />
+        </TouchableOpacity>
+        <Text className="text-2xl font-bold text-gray-800">🗂️ Historial</Text>
+      </View>
+
+      <View className="flex-row mx-5 mb-2 bg-gray-200 rounded-lg p-1">
+        {HISTORY_TABS.map((item) => (
+          <TouchableOpacity
+            key={item.id}
+            className={`flex-1 py-2 rounded-md ${
+              tab === item.id ? "bg-white" : ""
+            }`}
+            onPress={() => setTab(item.id)}
+          >
+            <Text
+              className={`text-sm text-center ${
+                tab === item.id ? "font-bold text-gray-800" : "text-gray-600"
+              }`}
+            >
+              {item.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {tab === "locations" ? (
+        <FlatList
+          data={locations}
+          keyExtractor={(point) => point.clientId}
+          contentContainerStyle={{ paddingHorizontal: 20, paddingBottom: 20 }}
+          renderItem={({ item }) => <HistoryPointRow point={item} showDate />}
+          onEndReached={loadMoreLocations}
+          onEndReachedThreshold={0.5}
+          ListEmptyComponent={
+            isLoadingLocations ? null : (
+              <Text className="text-sm text-gray-600 text-center p-5">
+                No hay ubicaciones registradas fuera de un viaje
+              </Text>
+            )
+          }
+          ListFooterComponent={
+            isLoadingLocations ? (
+              <ActivityIndicator size="small" color="#007AFF" />
+            ) : null
+          }
+        />
+      ) : isLoading ? (
+        <ActivityIndicator size="large" color="#007AFF" />
+      ) : (
+        <SectionList
+          sections={sections}
+          keyExtractor={(item) => item.tripId}
+          contentContainerStyle={{ paddingHorizontal: 20, paddingBottom: 20 }}
+          stickySectionHeadersEnabled={false}
+          ListEmptyComponent={
+            <Text className="text-sm text-gray-600 text-center p-5">
+              Todavía no hay viajes guardados en este dispositivo
+            </Text>
+          }
+          renderSectionHeader={({ section }) => (
+            <Text className="text-sm font-semibold text-gray-500 mt-4 mb-2 capitalize">
+              {section.title}
+            </Text>
+          )}
+          renderItem={({ item }) => (
+            <TouchableOpacity
+              className="bg-white rounded-xl p-4 mb-2 shadow"
+              onPress={() =>
+                router.push({
+                  pathname: "/(tabs)/trip-summary",
+                  params: { tripId: item.tripId },
+                })
+              }
+            >
+              <View className="flex-row justify-between items-center mb-1">
+                <Text className="text-base font-bold text-gray-800">
+                  {formatTime(item.startedAt)} – {formatTime(item.endedAt)}
+                </Text>
+                <Ionicons
+                  name={
+                    item.synced ? "cloud-done-outline" : "cloud-upload-outline"
+                  }
+                  size={18}
+                  color={item.synced ? "#34C759" : "#A0AEC0"}
+                />
+              </View>
+              <Text className="text-sm text-gray-600">
+                {item.vehicleId} · {(item.distanceMeters / 1000).toFixed(2)} km
+                · {formatDuration(item.durationMs)} · {item.pointCount} puntos
+              </Text>
+            </TouchableOpacity>
+          )}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
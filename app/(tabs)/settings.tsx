@@ -0,0 +1,513 @@
+// screens/SettingsScreen.tsx
+import { Ionicons } from "@expo/vector-icons";
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+import { useRouter } from "expo-router";
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StatusBar,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useSettings } from "@/hooks/useSettings";
+import type { FixFilterConfig } from "@/lib/fixFilter";
+import type { BatchingConfig } from "@/lib/locationBatcher";
+import { pruneHistory } from "@/lib/locationHistory";
+import {
+  BUILT_IN_REGIONS,
+  DEFAULT_REGION_ID,
+  parseRegionProfiles,
+  RegionProfileError,
+} from "@/lib/regions";
+import { DEFAULT_ROUTING_CONFIG } from "@/lib/routing";
+import {
+  SAMPLING_PRESET_LABELS,
+  SAMPLING_PRESETS,
+  SamplingPreset,
+} from "@/lib/samplingPolicy";
+
+const ACCURACY_OPTIONS = [25, 50, 100, 200];
+// Velocidades máximas en m/s (se muestran en km/h)
+const MAX_SPEED_OPTIONS = [30, 50, 70];
+
+// Días de historial local; 0 = conservar siempre
+const RETENTION_OPTIONS = [7, 30, 90, 0];
+
+const BATCH_WAIT_OPTIONS = [5000, 10000, 30000];
+const BATCH_POINTS_OPTIONS = [5, 10, 25];
+
+// Distancia fuera de la ruta antes de recalcularla
+const REROUTE_THRESHOLD_OPTIONS = [50, 75, 150];
+
+// Minutos de GPS a máxima frecuencia tras una alerta SOS
+const SOS_BURST_OPTIONS = [5, 15, 30];
+
+const SAMPLING_PRESET_OPTIONS = Object.keys(SAMPLING_PRESETS) as SamplingPreset[];
+
+const SAMPLING_PRESET_DESCRIPTIONS: Record<SamplingPreset, string> = {
+  economy: "Menos envíos y GPS de menor consumo",
+  balanced: "Buen detalle de ruta con consumo moderado",
+  highPrecision: "Máximo detalle, mayor consumo de batería",
+};
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+function Chip({ label, selected, onPress }: ChipProps) {
+  return (
+    <TouchableOpacity
+      className={`py-2 px-3 rounded-lg ${selected ? "bg-blue-500" : "bg-gray-200"}`}
+      onPress={onPress}
+    >
+      <Text
+        className={`text-sm ${selected ? "text-white font-semibold" : "text-gray-700"}`}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+export default function SettingsScreen() {
+  const router = useRouter();
+  const { settings, updateSettings } = useSettings();
+  const { fixFilter, batching, routing } = settings;
+  // Se guarda al terminar de editar, no con cada tecla
+  const [routingUrl, setRoutingUrl] = useState(routing.url);
+
+  useEffect(() => {
+    setRoutingUrl(routing.url);
+  }, [routing.url]);
+
+  const saveSettings = (changes: Parameters<typeof updateSettings>[0]) => {
+    updateSettings(changes).catch((error) => {
+      console.error("❌ Error guardando configuración:", error);
+    });
+  };
+
+  const updateFixFilter = (changes: Partial<FixFilterConfig>) =>
+    saveSettings({ fixFilter: { ...fixFilter, ...changes } });
+
+  const updateBatching = (changes: Partial<BatchingConfig>) =>
+    saveSettings({ batching: { ...batching, ...changes } });
+
+  // Vacío desactiva las rutas
+  const saveRoutingUrl = () => {
+    const url = routingUrl.trim().replace(/\/+$/, "");
+    if (url && !/^https?:\/\//.test(url)) {
+      Alert.alert("❌ Error", "La URL debe empezar con http:// o https://");
+      setRoutingUrl(routing.url);
+      return;
+    }
+    saveSettings({ routing: { ...routing, url } });
+  };
+
+  const updateRetention = (days: number) => {
+    saveSettings({ historyRetentionDays: days });
+    pruneHistory(days).catch((error) => {
+      console.error("❌ Error aplicando retención del historial:", error);
+    });
+  };
+
+  // Carga uno o varios perfiles desde JSON; los ids repetidos se reemplazan
+  const importRegions = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: "*/*",
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+
+      const content = await FileSystem.readAsStringAsync(result.assets[0].uri);
+      const imported = parseRegionProfiles(content);
+      const builtIn = imported.find((region) =>
+        BUILT_IN_REGIONS.some((r) => r.id === region.id)
+      );
+      if (builtIn) {
+        throw new RegionProfileError(
+          `El id "${builtIn.id}" ya es de una región incluida en la app`
+        );
+      }
+
+      const ids = new Set(imported.map((region) => region.id));
+      saveSettings({
+        customRegions: [
+          ...settings.customRegions.filter((region) => !ids.has(region.id)),
+          ...imported,
+        ],
+        regionId: imported[0].id,
+      });
+      Alert.alert(
+        "🌎 Regiones Cargadas",
+        imported.map((region) => region.name).join("\n")
+      );
+    } catch (error) {
+      console.error("❌ Error cargando regiones:", error);
+      Alert.alert(
+        "❌ Error",
+        error instanceof RegionProfileError
+          ? error.message
+          : "No se pudo leer el archivo seleccionado"
+      );
+    }
+  };
+
+  const removeRegion = (regionId: string) => {
+    saveSettings({
+      customRegions: settings.customRegions.filter((r) => r.id !== regionId),
+      regionId:
+        settings.regionId === regionId ? DEFAULT_REGION_ID : settings.regionId,
+    });
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50">
+      <StatusBar barStyle="dark-content" backgroundColor="#fff" />
+
+      <View className="flex-row items-center p-5">
+        <TouchableOpacity onPress={() => router.back()} className="mr-3">
+          <Ionicons name="arrow-back" size={24} color="#2D3748" />
+        </TouchableOpacity>
+        <Text className="text-2xl font-bold text-gray-800">⚙️ Configuración</Text>
+      </View>
+
+      <ScrollView>
+        <View className="mx-5 mb-5 bg-white rounded-2xl p-5 shadow">
+          <Text className="text-lg font-bold text-gray-800 mb-1">
+            🔋 Muestreo
+          </Text>
+          <Text className="text-xs text-gray-500 mb-4">
+            La frecuencia se ajusta a la velocidad, los giros y las paradas.
+            Se aplica al iniciar el tracking.
+          </Text>
+
+          {SAMPLING_PRESET_OPTIONS.map((preset) => {
+            const selected = settings.samplingPreset === preset;
+            return (
+              <TouchableOpacity
+                key={preset}
+                className={`flex-row items-center py-3 px-4 rounded-lg mb-2 border ${
+                  selected
+                    ? "bg-blue-50 border-blue-500"
+                    : "bg-white border-gray-200"
+                }`}
+                onPress={() => saveSettings({ samplingPreset: preset })}
+              >
+                <Ionicons
+                  name={selected ? "radio-button-on" : "radio-button-off"}
+                  size={18}
+                  color={selected ? "#007AFF" : "#A0AEC0"}
+                />
+                <View className="ml-3">
+                  <Text className="text-sm font-semibold text-gray-800">
+                    {SAMPLING_PRESET_LABELS[preset]}
+                  </Text>
+                  <Text className="text-xs text-gray-500">
+                    {SAMPLING_PRESET_DESCRIPTIONS[preset]}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View className="mx-5 mb-5 bg-white rounded-2xl p-5 shadow">
+          <Text className="text-lg font-bold text-gray-800 mb-1">
+            🛰️ Filtro de GPS
+          </Text>
+          <Text className="text-xs text-gray-500 mb-4">
+            Se aplica a las ubicaciones reales antes de enviarlas
+          </Text>
+
+          <Text className="text-sm text-gray-700 mb-2">Precisión máxima</Text>
+          <View className="flex-row justify-around mb-4">
+            {ACCURACY_OPTIONS.map((meters) => (
+              <Chip
+                key={meters}
+                label={`${meters} m`}
+                selected={fixFilter.maxAccuracyMeters === meters}
+                onPress={() => updateFixFilter({ maxAccuracyMeters: meters })}
+              />
+            ))}
+          </View>
+
+          <Text className="text-sm text-gray-700 mb-2">
+            Fixes por encima del umbral
+          </Text>
+          <View className="flex-row justify-around mb-4">
+            <Chip
+              label="Descartar"
+              selected={fixFilter.lowAccuracyMode === "drop"}
+              onPress={() => updateFixFilter({ lowAccuracyMode: "drop" })}
+            />
+            <Chip
+              label="Enviar marcados"
+              selected={fixFilter.lowAccuracyMode === "flag"}
+              onPress={() => updateFixFilter({ lowAccuracyMode: "flag" })}
+            />
+          </View>
+
+          <Text className="text-sm text-gray-700 mb-2">
+            Velocidad máxima creíble
+          </Text>
+          <View className="flex-row justify-around mb-4">
+            {MAX_SPEED_OPTIONS.map((speed) => (
+              <Chip
+                key={speed}
+                label={`${Math.round(speed * 3.6)} km/h`}
+                selected={fixFilter.maxSpeedMps === speed}
+                onPress={() => updateFixFilter({ maxSpeedMps: speed })}
+              />
+            ))}
+          </View>
+
+          <TouchableOpacity
+            className={`flex-row items-center justify-center py-2 px-3 rounded-lg ${
+              fixFilter.smoothing ? "bg-indigo-500" : "bg-gray-200"
+            }`}
+            onPress={() => updateFixFilter({ smoothing: !fixFilter.smoothing })}
+          >
+            <Ionicons
+              name="pulse"
+              size={16}
+              color={fixFilter.smoothing ? "#fff" : "#4A5568"}
+              style={{ marginRight: 6 }}
+            />
+            <Text
+              className={`text-sm ${
+                fixFilter.smoothing ? "text-white font-semibold" : "text-gray-700"
+              }`}
+            >
+              Suavizado (Kalman):{" "}
+              {fixFilter.smoothing ? "Activado" : "Desactivado"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <View className="mx-5 mb-5 bg-white rounded-2xl p-5 shadow">
+          <Text className="text-lg font-bold text-gray-800 mb-1">
+            📦 Envío por lotes
+          </Text>
+          <Text className="text-xs text-gray-500 mb-4">
+            Agrupa ubicaciones en un solo mensaje para redes lentas. Si el
+            servidor no soporta lotes se envían de a una.
+          </Text>
+
+          <TouchableOpacity
+            className={`flex-row items-center justify-center py-2 px-3 rounded-lg mb-4 ${
+              batching.enabled ? "bg-indigo-500" : "bg-gray-200"
+            }`}
+            onPress={() => updateBatching({ enabled: !batching.enabled })}
+          >
+            <Ionicons
+              name="layers"
+              size={16}
+              color={batching.enabled ? "#fff" : "#4A5568"}
+              style={{ marginRight: 6 }}
+            />
+            <Text
+              className={`text-sm ${
+                batching.enabled ? "text-white font-semibold" : "text-gray-700"
+              }`}
+            >
+              Lotes: {batching.enabled ? "Activados" : "Desactivados"}
+            </Text>
+          </TouchableOpacity>
+
+          {batching.enabled && (
+            <>
+              <Text className="text-sm text-gray-700 mb-2">
+                Enviar cada
+              </Text>
+              <View className="flex-row justify-around mb-4">
+                {BATCH_WAIT_OPTIONS.map((ms) => (
+                  <Chip
+                    key={ms}
+                    label={`${ms / 1000}s`}
+                    selected={batching.maxWaitMs === ms}
+                    onPress={() => updateBatching({ maxWaitMs: ms })}
+                  />
+                ))}
+              </View>
+
+              <Text className="text-sm text-gray-700 mb-2">
+                O al juntar
+              </Text>
+              <View className="flex-row justify-around">
+                {BATCH_POINTS_OPTIONS.map((points) => (
+                  <Chip
+                    key={points}
+                    label={`${points} puntos`}
+                    selected={batching.maxPoints === points}
+                    onPress={() => updateBatching({ maxPoints: points })}
+                  />
+                ))}
+              </View>
+            </>
+          )}
+        </View>
+
+        <View className="mx-5 mb-5 bg-white rounded-2xl p-5 shadow">
+          <Text className="text-lg font-bold text-gray-800 mb-1">
+            🌎 Región
+          </Text>
+          <Text className="text-xs text-gray-500 mb-4">
+            Centra el mapa y define dónde se generan las ubicaciones de prueba
+            y las rutas simuladas
+          </Text>
+
+          {[...BUILT_IN_REGIONS, ...settings.customRegions].map((region) => {
+            const selected = settings.regionId === region.id;
+            const custom = !BUILT_IN_REGIONS.includes(region);
+            return (
+              <TouchableOpacity
+                key={region.id}
+                className={`flex-row items-center py-3 px-4 rounded-lg mb-2 border ${
+                  selected
+                    ? "bg-blue-50 border-blue-500"
+                    : "bg-white border-gray-200"
+                }`}
+                onPress={() => saveSettings({ regionId: region.id })}
+              >
+                <Ionicons
+                  name={selected ? "radio-button-on" : "radio-button-off"}
+                  size={18}
+                  color={selected ? "#007AFF" : "#A0AEC0"}
+                />
+                <View className="ml-3 flex-1">
+                  <Text className="text-sm font-semibold text-gray-800">
+                    {region.name}
+                  </Text>
+                  <Text className="text-xs text-gray-500">
+                    {region.pointsOfInterest.length} puntos de interés ·{" "}
+                    {region.routes?.length ?? 0} rutas
+                    {custom ? " · desde archivo" : ""}
+                  </Text>
+                </View>
+                {custom && (
+                  <TouchableOpacity onPress={() => removeRegion(region.id)}>
+                    <Ionicons name="trash-outline" size={18} color="#E53E3E" />
+                  </TouchableOpacity>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+
+          <TouchableOpacity
+            className="flex-row items-center justify-center py-2 px-3 rounded-lg bg-gray-200 mt-2"
+            onPress={importRegions}
+          >
+            <Ionicons
+              name="folder-open"
+              size={16}
+              color="#4A5568"
+              style={{ marginRight: 6 }}
+            />
+            <Text className="text-sm text-gray-700">Cargar desde JSON</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View className="mx-5 mb-5 bg-white rounded-2xl p-5 shadow">
+          <Text className="text-lg font-bold text-gray-800 mb-1">
+            🧭 Rutas
+          </Text>
+          <Text className="text-xs text-gray-500 mb-4">
+            Servicio compatible con OSRM para la ruta hacia el próximo destino
+          </Text>
+
+          <TextInput
+            className="border border-gray-200 rounded-lg px-3 py-2 mb-2 text-sm text-gray-800"
+            value={routingUrl}
+            onChangeText={setRoutingUrl}
+            onEndEditing={saveRoutingUrl}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            placeholder="https://rutas.tuservidor.com"
+            placeholderTextColor="#A0AEC0"
+          />
+          {routing.url !== DEFAULT_ROUTING_CONFIG.url && (
+            <TouchableOpacity
+              className="mb-4"
+              onPress={() =>
+                saveSettings({
+                  routing: { ...routing, url: DEFAULT_ROUTING_CONFIG.url },
+                })
+              }
+            >
+              <Text className="text-xs text-blue-500">
+                Restablecer URL por defecto
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          <Text className="text-sm text-gray-700 mb-2 mt-2">
+            Recalcular al desviarse más de
+          </Text>
+          <View className="flex-row justify-around">
+            {REROUTE_THRESHOLD_OPTIONS.map((meters) => (
+              <Chip
+                key={meters}
+                label={`${meters} m`}
+                selected={routing.rerouteThresholdMeters === meters}
+                onPress={() =>
+                  saveSettings({
+                    routing: { ...routing, rerouteThresholdMeters: meters },
+                  })
+                }
+              />
+            ))}
+          </View>
+        </View>
+
+        <View className="mx-5 mb-5 bg-white rounded-2xl p-5 shadow">
+          <Text className="text-lg font-bold text-gray-800 mb-1">
+            🆘 Emergencia
+          </Text>
+          <Text className="text-xs text-gray-500 mb-4">
+            Tras una alerta SOS se envía cada ubicación a máxima frecuencia
+            durante este tiempo (mayor consumo de batería)
+          </Text>
+          <View className="flex-row justify-around">
+            {SOS_BURST_OPTIONS.map((minutes) => (
+              <Chip
+                key={minutes}
+                label={`${minutes} min`}
+                selected={settings.sosBurstMinutes === minutes}
+                onPress={() => saveSettings({ sosBurstMinutes: minutes })}
+              />
+            ))}
+          </View>
+        </View>
+
+        <View className="mx-5 mb-5 bg-white rounded-2xl p-5 shadow">
+          <Text className="text-lg font-bold text-gray-800 mb-1">
+            🗂️ Historial
+          </Text>
+          <Text className="text-xs text-gray-500 mb-4">
+            Tiempo que se guardan en el dispositivo las ubicaciones y los
+            viajes ya enviados al servidor
+          </Text>
+          <View className="flex-row justify-around">
+            {RETENTION_OPTIONS.map((days) => (
+              <Chip
+                key={days}
+                label={days === 0 ? "Siempre" : `${days} días`}
+                selected={settings.historyRetentionDays === days}
+                onPress={() => updateRetention(days)}
+              />
+            ))}
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
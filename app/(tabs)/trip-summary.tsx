@@ -0,0 +1,257 @@
+// screens/TripSummaryScreen.tsx
+import { Ionicons } from "@expo/vector-icons";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  SafeAreaView,
+  StatusBar,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import MapView, { Marker, Polyline } from "react-native-maps";
+import { HistoryPointRow } from "@/components/HistoryPointRow";
+import { getTripPoints, HistoryPoint } from "@/lib/locationHistory";
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  exportTrip,
+} from "@/lib/trackExport";
+import { formatDuration, getTripSummary, TripSummary } from "@/lib/trips";
+
+// Región que encuadra todo el recorrido
+const getRegion = (points: HistoryPoint[]) => {
+  const latitudes = points.map((p) => p.latitude);
+  const longitudes = points.map((p) => p.longitude);
+  const minLat = Math.min(...latitudes);
+  const maxLat = Math.max(...latitudes);
+  const minLon = Math.min(...longitudes);
+  const maxLon = Math.max(...longitudes);
+
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLon + maxLon) / 2,
+    latitudeDelta: Math.max((maxLat - minLat) * 1.4, 0.005),
+    longitudeDelta: Math.max((maxLon - minLon) * 1.4, 0.005),
+  };
+};
+
+export default function TripSummaryScreen() {
+  const { tripId } = useLocalSearchParams<{ tripId: string }>();
+  const router = useRouter();
+
+  const [summary, setSummary] = useState<TripSummary | null>(null);
+  const [points, setPoints] = useState<HistoryPoint[]>([]);
+  const [selectedPoint, setSelectedPoint] = useState<HistoryPoint | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(
+    null
+  );
+
+  useEffect(() => {
+    if (!tripId) return;
+    Promise.all([
+      getTripSummary(tripId).then(setSummary),
+      getTripPoints(tripId)
+        .then(setPoints)
+        .catch((error) => {
+          console.error("❌ Error cargando puntos del viaje:", error);
+        }),
+    ]).finally(() => setIsLoading(false));
+  }, [tripId]);
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!tripId) return;
+
+    setExportingFormat(format);
+    try {
+      await exportTrip(tripId, format);
+    } catch (error) {
+      console.error("❌ Error exportando viaje:", error);
+      Alert.alert(
+        "❌ Error",
+        error instanceof Error ? error.message : "No se pudo exportar el viaje"
+      );
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const stats = summary
+    ? [
+        {
+          label: "Distancia",
+          value: `${(summary.distanceMeters / 1000).toFixed(2)} km`,
+        },
+        { label: "Duración", value: formatDuration(summary.durationMs) },
+        { label: "En movimiento", value: formatDuration(summary.movingMs) },
+        { label: "Detenido", value: formatDuration(summary.idleMs) },
+        {
+          label: "Velocidad media",
+          value: `${Math.round(summary.avgSpeed * 3.6)} km/h`,
+        },
+        {
+          label: "Velocidad máxima",
+          value: `${Math.round(summary.maxSpeed * 3.6)} km/h`,
+        },
+        {
+          label: "Precisión media",
+          value: `±${Math.round(summary.meanAccuracy)} m`,
+        },
+        { label: "Puntos", value: `${summary.pointCount}` },
+      ]
+    : [];
+
+  // La lista de puntos puede tener miles de filas: el resto de la pantalla va
+  // en la cabecera y el pie de la lista para que se virtualice
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50">
+      <StatusBar barStyle="dark-content" backgroundColor="#fff" />
+      <FlatList
+        data={summary ? points : []}
+        keyExtractor={(point) => point.clientId}
+        renderItem={({ item }) => (
+          <View className="mx-5 px-5 bg-white">
+            <HistoryPointRow
+              point={item}
+              selected={selectedPoint?.clientId === item.clientId}
+              onPress={setSelectedPoint}
+            />
+          </View>
+        )}
+        extraData={selectedPoint}
+        initialNumToRender={20}
+        ListHeaderComponent={
+          <>
+            <View className="p-5">
+              <Text className="text-2xl font-bold text-gray-800 mb-1">
+                🏁 Resumen del Viaje
+              </Text>
+              {summary && (
+                <Text className="text-sm text-gray-600">
+                  {summary.vehicleId} ·{" "}
+                  {new Date(summary.startedAt).toLocaleString()}
+                </Text>
+              )}
+            </View>
+
+            {isLoading ? (
+              <ActivityIndicator size="large" color="#007AFF" />
+            ) : !summary ? (
+              <Text className="text-sm text-gray-600 text-center p-5">
+                No se encontró el resumen de este viaje
+              </Text>
+            ) : (
+              <>
+                {points.length > 0 && (
+                  <View className="mx-5 mb-4 h-64 rounded-2xl overflow-hidden shadow">
+                    <MapView style={{ flex: 1 }} initialRegion={getRegion(points)}>
+                      <Polyline
+                        coordinates={points}
+                        strokeColor="#007AFF"
+                        strokeWidth={4}
+                      />
+                      <Marker
+                        coordinate={points[0]}
+                        title="Inicio"
+                        pinColor="green"
+                      />
+                      <Marker
+                        coordinate={points[points.length - 1]}
+                        title="Fin"
+                        pinColor="red"
+                      />
+                      {selectedPoint && (
+                        <Marker
+                          coordinate={selectedPoint}
+                          title={new Date(
+                            selectedPoint.timestamp
+                          ).toLocaleTimeString()}
+                          pinColor="blue"
+                        />
+                      )}
+                    </MapView>
+                  </View>
+                )}
+                <View className="mx-5 bg-white rounded-2xl p-5 shadow">
+                  {stats.map((stat) => (
+                    <View
+                      key={stat.label}
+                      className="flex-row justify-between py-3 border-b border-gray-100"
+                    >
+                      <Text className="text-base text-gray-600">{stat.label}</Text>
+                      <Text className="text-base font-bold text-blue-600">
+                        {stat.value}
+                      </Text>
+                    </View>
+                  ))}
+                  <Text className="text-xs text-gray-500 mt-3 text-center">
+                    {summary.synced
+                      ? "✅ Enviado al servidor"
+                      : "⏳ Pendiente de envío al servidor"}
+                  </Text>
+                </View>
+
+                {points.length > 0 && (
+                  <Text className="mx-5 mt-4 mb-2 text-lg font-bold text-gray-800">
+                    📍 Puntos ({points.length})
+                  </Text>
+                )}
+              </>
+            )}
+          </>
+        }
+        ListFooterComponent={
+          <>
+            {points.length > 0 && (
+              <View className="mx-5 mt-4">
+                <Text className="text-sm text-gray-700 mb-2 text-center">
+                  Exportar recorrido
+                </Text>
+                <View className="flex-row justify-around">
+                  {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(
+                    (format) => (
+                      <TouchableOpacity
+                        key={format}
+                        className="flex-row items-center py-2 px-4 rounded-lg bg-white border border-blue-200"
+                        onPress={() => handleExport(format)}
+                        disabled={exportingFormat !== null}
+                      >
+                        {exportingFormat === format ? (
+                          <ActivityIndicator size="small" color="#007AFF" />
+                        ) : (
+                          <Ionicons name="share-outline" size={16} color="#007AFF" />
+                        )}
+                        <Text className="text-blue-700 ml-2 text-sm font-semibold">
+                          {EXPORT_FORMATS[format].label}
+                        </Text>
+                      </TouchableOpacity>
+                    )
+                  )}
+                </View>
+              </View>
+            )}
+
+            <TouchableOpacity
+              className="flex-row items-center justify-center py-3.5 px-4 rounded-xl m-5 bg-blue-500"
+              onPress={() => router.replace("/(tabs)/driver")}
+            >
+              <Ionicons
+                name="arrow-back"
+                size={20}
+                color="#fff"
+                style={{ marginRight: 8 }}
+              />
+              <Text className="text-white text-base font-semibold">
+                Volver al Mapa
+              </Text>
+            </TouchableOpacity>
+          </>
+        }
+      />
+    </SafeAreaView>
+  );
+}
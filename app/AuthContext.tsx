@@ -1,14 +1,32 @@
 // context/AuthContext.tsx
 import { useRouter, useSegments } from "expo-router";
 import * as SecureStore from "expo-secure-store";
-import React, { createContext, useContext, useEffect, useState } from "react";
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
 import { Alert } from "react-native";
-
-const API_URL = `${process.env.EXPO_PUBLIC_BASE_URL}/v1`; // Cambia por tu IP
+import {
+  api,
+  API_URL,
+  ApiError,
+  NetworkError,
+  setTokenProvider,
+} from "@/lib/api";
+import { canAccessGroup, getHomeRoute, normalizeRole } from "@/lib/roles";
 
 console.log(API_URL);
 
-interface User {
+const ACCESS_TOKEN_KEY = "accessToken";
+const REFRESH_TOKEN_KEY = "refreshToken";
+
+// Margen para renovar el token antes de que expire
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+export interface User {
   id: string;
   email: string;
   role: string;
@@ -16,13 +34,52 @@ interface User {
   vehicleId?: string | null;
 }
 
+interface AuthTokens {
+  accessToken: string;
+  refreshToken: string | null;
+}
+
+// Respuesta de /user/login y /user/refresh
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+}
+
 interface AuthContextData {
   user: User | null;
+  accessToken: string | null;
   login: (email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
+  getAccessToken: () => Promise<string | null>;
+  refreshSession: () => Promise<string | null>;
   isLoading: boolean;
 }
 
+class SessionExpiredError extends Error {
+  constructor(message = "Session expired") {
+    super(message);
+    this.name = "SessionExpiredError";
+  }
+}
+
+// Lee el claim `exp` del JWT (en ms). Devuelve null si no se puede leer.
+const getTokenExpiry = (token: string): number | null => {
+  try {
+    const [, payload] = token.split(".");
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, "=");
+    const { exp } = JSON.parse(atob(padded));
+    return typeof exp === "number" ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+const isTokenExpiring = (token: string) => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - Date.now() < REFRESH_MARGIN_MS;
+};
+
 const AuthContext = createContext<AuthContextData>({} as AuthContextData);
 
 function useProtectedRoute(user: User | null, isLoading: boolean) {
@@ -41,16 +98,27 @@ function useProtectedRoute(user: User | null, isLoading: boolean) {
     // Rutas según tu estructura
     // /(tabs) = login (index.tsx)
     // /(tabs)/driver = pantalla del driver
+    // /(dispatcher)/fleet = mapa de flota del despachador
 
     const isLoginRoute = currentPath === "/(tabs)" || currentPath === "/";
-    const isDriverRoute = currentPath.startsWith("/(tabs)/driver");
-
-    if (!isAuthenticated && isDriverRoute) {
-      console.log("Redirecting to login: not authenticated");
-      router.replace("/(tabs)"); // Redirige al login
-    } else if (isAuthenticated && isLoginRoute) {
-      console.log("Redirecting to driver: already authenticated");
-      router.replace("/(tabs)/driver"); // Redirige al driver
+    const group = segments[0] as string | undefined;
+
+    if (!isAuthenticated) {
+      if (!isLoginRoute && group) {
+        console.log("Redirecting to login: not authenticated");
+        router.replace("/(tabs)"); // Redirige al login
+      }
+      return;
+    }
+
+    const role = normalizeRole(user.role);
+
+    if (isLoginRoute) {
+      console.log(`Redirecting ${role} to home: already authenticated`);
+      router.replace(getHomeRoute(role));
+    } else if (group && !canAccessGroup(role, group)) {
+      console.log(`Redirecting ${role} to home: no access to ${group}`);
+      router.replace(getHomeRoute(role));
     }
   }, [user, segments, router, isLoading]);
 }
@@ -61,44 +129,173 @@ interface AuthProviderProps {
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
+  const [accessToken, setAccessToken] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
+  const tokensRef = useRef<AuthTokens | null>(null);
+  const refreshPromiseRef = useRef<Promise<string | null> | null>(null);
+  const refreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
   useProtectedRoute(user, isLoading);
 
   useEffect(() => {
+    setTokenProvider({ getAccessToken, refreshSession });
     loadUserFromStorage();
+    return () => {
+      setTokenProvider(null);
+      clearRefreshTimer();
+    };
   }, []);
 
+  const clearRefreshTimer = () => {
+    if (refreshTimerRef.current) {
+      clearTimeout(refreshTimerRef.current);
+      refreshTimerRef.current = null;
+    }
+  };
+
+  const clearSession = async () => {
+    clearRefreshTimer();
+    tokensRef.current = null;
+    setAccessToken(null);
+    setUser(null);
+    await SecureStore.deleteItemAsync(ACCESS_TOKEN_KEY);
+    await SecureStore.deleteItemAsync(REFRESH_TOKEN_KEY);
+  };
+
+  const storeTokens = async (tokens: AuthTokens) => {
+    tokensRef.current = tokens;
+    setAccessToken(tokens.accessToken);
+    await SecureStore.setItemAsync(ACCESS_TOKEN_KEY, tokens.accessToken);
+    if (tokens.refreshToken) {
+      await SecureStore.setItemAsync(REFRESH_TOKEN_KEY, tokens.refreshToken);
+    } else {
+      await SecureStore.deleteItemAsync(REFRESH_TOKEN_KEY);
+    }
+    scheduleRefresh(tokens.accessToken);
+  };
+
+  // Programa la renovación proactiva del token antes de su expiración
+  const scheduleRefresh = (token: string) => {
+    clearRefreshTimer();
+    const expiry = getTokenExpiry(token);
+    if (expiry === null || !tokensRef.current?.refreshToken) return;
+
+    const delay = Math.max(expiry - Date.now() - REFRESH_MARGIN_MS, 0);
+    console.log(`Token refresh scheduled in ${Math.round(delay / 1000)}s`);
+    refreshTimerRef.current = setTimeout(() => {
+      refreshSession();
+    }, delay);
+  };
+
+  const requestTokenRefresh = async (): Promise<AuthTokens> => {
+    const refreshToken = tokensRef.current?.refreshToken;
+    if (!refreshToken) {
+      throw new SessionExpiredError("No refresh token available");
+    }
+
+    try {
+      const { data } = await api.post<TokenResponse>(
+        "/user/refresh",
+        { refresh_token: refreshToken },
+        { auth: false }
+      );
+      if (!data?.access_token) {
+        throw new SessionExpiredError("Token refresh failed");
+      }
+
+      return {
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token ?? refreshToken,
+      };
+    } catch (error) {
+      // El servidor rechazó el refresh token: la sesión terminó
+      if (error instanceof ApiError && error.status < 500) {
+        throw new SessionExpiredError(error.message);
+      }
+      throw error;
+    }
+  };
+
+  // Cierra la sesión cuando no se puede renovar el token
+  const forceLogout = async (reason: string) => {
+    console.log("Forcing logout:", reason);
+    await clearSession();
+    Alert.alert(
+      "Sesión expirada",
+      "Tu sesión ha expirado. Inicia sesión nuevamente para continuar."
+    );
+  };
+
+  // Renueva el token de acceso; las llamadas concurrentes comparten la misma
+  // petición. Devuelve null si la sesión terminó.
+  const refreshSession = async (): Promise<string | null> => {
+    if (refreshPromiseRef.current) return refreshPromiseRef.current;
+
+    refreshPromiseRef.current = (async () => {
+      try {
+        console.log("Refreshing access token...");
+        const tokens = await requestTokenRefresh();
+        await storeTokens(tokens);
+        console.log("Access token refreshed");
+        return tokens.accessToken;
+      } catch (error) {
+        if (error instanceof SessionExpiredError) {
+          await forceLogout(error.message);
+          return null;
+        }
+        // Error de red: se conserva la sesión y se reintenta más tarde
+        console.error("Token refresh error:", error);
+        return tokensRef.current?.accessToken ?? null;
+      } finally {
+        refreshPromiseRef.current = null;
+      }
+    })();
+
+    return refreshPromiseRef.current;
+  };
+
+  // Devuelve un token vigente, renovándolo si está por expirar
+  const getAccessToken = async (): Promise<string | null> => {
+    const tokens = tokensRef.current;
+    if (!tokens) return null;
+    if (tokens.refreshToken && isTokenExpiring(tokens.accessToken)) {
+      return refreshSession();
+    }
+    return tokens.accessToken;
+  };
+
+  // Consulta /user/me; el cliente de API renueva el token ante un 401
+  const fetchCurrentUser = async (): Promise<User> => {
+    const { data } = await api.get<User>("/user/me");
+    return data;
+  };
+
   const loadUserFromStorage = async () => {
     try {
       console.log("Loading user from storage...");
       setIsLoading(true);
-      const token = await SecureStore.getItemAsync("accessToken");
+      const token = await SecureStore.getItemAsync(ACCESS_TOKEN_KEY);
+      const refreshToken = await SecureStore.getItemAsync(REFRESH_TOKEN_KEY);
 
       if (token) {
         console.log("Token found, fetching user data...");
-        const response = await fetch(`${API_URL}/user/me`, {
-          headers: {
-            Authorization: `Bearer ${token}`,
-            "Content-Type": "application/json",
-          },
-        });
-
-        if (response.ok) {
-          const userData = await response.json();
-          console.log("User data loaded successfully");
-          setUser(userData.data);
-        } else {
-          console.log("Token invalid, removing...");
-          await SecureStore.deleteItemAsync("accessToken");
-        }
+        tokensRef.current = { accessToken: token, refreshToken };
+        setAccessToken(token);
+        scheduleRefresh(token);
+
+        const userData = await fetchCurrentUser();
+        console.log("User data loaded successfully");
+        setUser(userData);
       } else {
         console.log("No token found");
       }
     } catch (e) {
       console.error("Failed to load user from storage", e);
+      // Sin red se conserva el token para el próximo intento
+      if (e instanceof NetworkError) return;
       try {
-        await SecureStore.deleteItemAsync("accessToken");
+        await clearSession();
       } catch (deleteError) {
         console.error("Error deleting invalid token:", deleteError);
       }
@@ -112,45 +309,37 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       console.log("Attempting login for:", email);
       setIsLoading(true);
 
-      const response = await fetch(`${API_URL}/user/login`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ email, password }),
+      const { data } = await api.post<TokenResponse>(
+        "/user/login",
+        { email, password },
+        { auth: false }
+      );
+
+      if (!data?.access_token) {
+        throw new ApiError(500, "Login response without access token", data);
+      }
+
+      await storeTokens({
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token ?? null,
       });
 
-      const data: any = await response.json();
-      console.log(data);
-      if (response.ok && data.data?.access_token) {
-        const { access_token } = data.data;
-        await SecureStore.setItemAsync("accessToken", access_token);
-
-        // Fetch user data
-        const userResponse = await fetch(`${API_URL}/user/me`, {
-          headers: {
-            Authorization: `Bearer ${access_token}`,
-            "Content-Type": "application/json",
-          },
-        });
-
-        if (userResponse.ok) {
-          const userData = await userResponse.json();
-          console.log("Login successful");
-          setUser(userData.data);
-        } else {
-          throw new Error("Failed to fetch user data after login");
-        }
+      // Fetch user data
+      const userData = await fetchCurrentUser();
+      console.log("Login successful");
+      setUser(userData);
+    } catch (error) {
+      console.error("Login error:", error);
+      if (error instanceof NetworkError) {
+        Alert.alert("Error de red", "No se pudo conectar al servidor.");
       } else {
         Alert.alert(
           "Error de inicio de sesión",
-          data.message || "Credenciales incorrectas."
+          error instanceof ApiError
+            ? error.message
+            : "Credenciales incorrectas."
         );
-        throw new Error(data.message || "Login failed");
       }
-    } catch (error) {
-      console.error("Login error:", error);
-      Alert.alert("Error de red", "No se pudo conectar al servidor.");
       throw error;
     } finally {
       setIsLoading(false);
@@ -160,15 +349,24 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const logout = async (): Promise<void> => {
     try {
       console.log("Logging out...");
-      await SecureStore.deleteItemAsync("accessToken");
-      setUser(null);
+      await clearSession();
     } catch (error) {
       console.error("Logout error:", error);
     }
   };
 
   return (
-    <AuthContext.Provider value={{ user, login, logout, isLoading }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        accessToken,
+        login,
+        logout,
+        getAccessToken,
+        refreshSession,
+        isLoading,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -1,4 +1,6 @@
 import { useColorScheme } from "@/hooks/useColorScheme";
+// Registra la tarea de ubicación en segundo plano en el ámbito global
+import "@/lib/backgroundLocation";
 import {
   DarkTheme,
   DefaultTheme,
@@ -8,6 +10,7 @@ import { useFonts } from "expo-font";
 import { Stack } from "expo-router";
 import { StatusBar } from "expo-status-bar";
 import "react-native-reanimated";
+import { AuthProvider } from "./AuthContext";
 import "./global.css";
 
 export default function RootLayout() {
@@ -23,10 +26,13 @@ export default function RootLayout() {
 
   return (
     <ThemeProvider value={colorScheme === "dark" ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="+not-found" />
-      </Stack>
+      <AuthProvider>
+        <Stack>
+          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+          <Stack.Screen name="(dispatcher)" options={{ headerShown: false }} />
+          <Stack.Screen name="+not-found" />
+        </Stack>
+      </AuthProvider>
       <StatusBar style="auto" />
     </ThemeProvider>
   );
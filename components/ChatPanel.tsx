@@ -0,0 +1,199 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useRef, useState } from "react";
+import {
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { ChatMessage, QUICK_REPLIES } from "@/lib/chat";
+
+interface ChatPanelProps {
+  visible: boolean;
+  messages: ChatMessage[];
+  unreadCount: number;
+  // Sin vehículo no se puede escribir a despacho
+  canSend: boolean;
+  onSend: (text: string) => Promise<unknown>;
+  onMarkRead: () => void;
+  onClose: () => void;
+}
+
+const STATUS_ICONS: Record<
+  NonNullable<ChatMessage["status"]>,
+  { name: "time-outline" | "checkmark" | "alert-circle"; color: string }
+> = {
+  pending: { name: "time-outline", color: "#BEE3F8" },
+  sent: { name: "checkmark", color: "#fff" },
+  failed: { name: "alert-circle", color: "#FEB2B2" },
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+function MessageBubble({ message }: { message: ChatMessage }) {
+  const outgoing = message.direction === "outgoing";
+  const statusIcon = message.status && STATUS_ICONS[message.status];
+
+  return (
+    <View
+      className={`max-w-[80%] rounded-2xl px-3 py-2 mb-2 ${
+        outgoing ? "self-end bg-blue-500" : "self-start bg-gray-100"
+      }`}
+    >
+      {!outgoing && message.sender && (
+        <Text className="text-xs font-semibold text-gray-600 mb-1">
+          {message.sender}
+        </Text>
+      )}
+      <Text className={outgoing ? "text-white" : "text-gray-800"}>
+        {message.text}
+      </Text>
+      <View className="flex-row items-center justify-end mt-1">
+        {message.location && (
+          <Ionicons
+            name="location"
+            size={12}
+            color={outgoing ? "#BEE3F8" : "#A0AEC0"}
+            style={{ marginRight: 4 }}
+          />
+        )}
+        <Text
+          className={`text-xs ${outgoing ? "text-blue-100" : "text-gray-500"}`}
+        >
+          {formatTime(message.timestamp)}
+        </Text>
+        {statusIcon && (
+          <Ionicons
+            name={statusIcon.name}
+            size={12}
+            color={statusIcon.color}
+            style={{ marginLeft: 4 }}
+          />
+        )}
+      </View>
+    </View>
+  );
+}
+
+// Conversación con despacho: historial, respuestas rápidas y campo de texto
+export function ChatPanel({
+  visible,
+  messages,
+  unreadCount,
+  canSend,
+  onSend,
+  onMarkRead,
+  onClose,
+}: ChatPanelProps) {
+  const [text, setText] = useState("");
+  const scrollRef = useRef<ScrollView>(null);
+
+  // Lo que llega con el panel abierto ya se considera leído
+  useEffect(() => {
+    if (visible && unreadCount > 0) onMarkRead();
+  }, [visible, unreadCount, onMarkRead]);
+
+  const send = async (value: string) => {
+    if (!value.trim() || !canSend) return;
+    setText("");
+    try {
+      await onSend(value);
+    } catch (error) {
+      console.error("❌ Error enviando mensaje:", error);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        className="flex-1"
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <View className="flex-1 justify-end bg-black/40">
+          <View className="bg-white rounded-tl-3xl rounded-tr-3xl p-5 h-[75%]">
+            <View className="flex-row justify-between items-center mb-4">
+              <Text className="text-lg font-bold text-gray-800">
+                💬 Despacho
+              </Text>
+              <TouchableOpacity onPress={onClose} className="p-1">
+                <Ionicons name="close" size={24} color="#4A5568" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView
+              ref={scrollRef}
+              className="flex-1"
+              onContentSizeChange={() =>
+                scrollRef.current?.scrollToEnd({ animated: true })
+              }
+            >
+              {messages.length === 0 && (
+                <Text className="text-sm text-gray-600 text-center py-4">
+                  Todavía no hay mensajes con despacho
+                </Text>
+              )}
+              {messages.map((message) => (
+                <MessageBubble key={message.id} message={message} />
+              ))}
+            </ScrollView>
+
+            {!canSend && (
+              <Text className="text-xs text-red-600 mt-2">
+                ⚠️ Asigna un vehículo para escribir a despacho
+              </Text>
+            )}
+
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              className="mt-3 flex-grow-0"
+            >
+              {QUICK_REPLIES.map((reply) => (
+                <TouchableOpacity
+                  key={reply}
+                  className="py-1 px-3 rounded-full mr-2 bg-blue-50 border border-blue-200"
+                  onPress={() => send(reply)}
+                  disabled={!canSend}
+                >
+                  <Text className="text-xs text-blue-700">{reply}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+
+            <View className="flex-row items-center mt-3">
+              <TextInput
+                className="flex-1 border border-gray-200 rounded-full px-4 py-2 text-sm text-gray-800"
+                placeholder="Escribe un mensaje"
+                placeholderTextColor="#A0AEC0"
+                value={text}
+                onChangeText={setText}
+                onSubmitEditing={() => send(text)}
+                editable={canSend}
+                returnKeyType="send"
+              />
+              <TouchableOpacity
+                className={`ml-2 w-10 h-10 rounded-full items-center justify-center ${
+                  text.trim() && canSend ? "bg-blue-500" : "bg-gray-300"
+                }`}
+                onPress={() => send(text)}
+                disabled={!text.trim() || !canSend}
+              >
+                <Ionicons name="send" size={18} color="#fff" />
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
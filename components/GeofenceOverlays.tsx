@@ -0,0 +1,55 @@
+import React from "react";
+import { Circle, Polygon } from "react-native-maps";
+import type { Geofence } from "@/lib/geofences";
+
+const GEOFENCE_COLORS = {
+  outside: {
+    stroke: "rgba(128, 90, 213, 0.8)",
+    fill: "rgba(128, 90, 213, 0.12)",
+  },
+  inside: {
+    stroke: "rgba(221, 107, 32, 0.9)",
+    fill: "rgba(221, 107, 32, 0.2)",
+  },
+};
+
+interface GeofenceOverlaysProps {
+  geofences: Geofence[];
+  // Geocercas en las que está el vehículo: se resaltan
+  insideIds?: string[];
+}
+
+// Dibuja las geocercas como círculos o polígonos dentro de un MapView
+export function GeofenceOverlays({
+  geofences,
+  insideIds = [],
+}: GeofenceOverlaysProps) {
+  return (
+    <>
+      {geofences.map((geofence) => {
+        const colors = insideIds.includes(geofence.id)
+          ? GEOFENCE_COLORS.inside
+          : GEOFENCE_COLORS.outside;
+
+        return geofence.type === "circle" ? (
+          <Circle
+            key={geofence.id}
+            center={geofence.center}
+            radius={geofence.radiusMeters}
+            strokeColor={colors.stroke}
+            fillColor={colors.fill}
+            strokeWidth={2}
+          />
+        ) : (
+          <Polygon
+            key={geofence.id}
+            coordinates={geofence.coordinates}
+            strokeColor={colors.stroke}
+            fillColor={colors.fill}
+            strokeWidth={2}
+          />
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,56 @@
+import React from "react";
+import { Text, TouchableOpacity, View } from "react-native";
+import type { HistoryPoint } from "@/lib/locationHistory";
+
+// Colores del punto según su estado de entrega (mismos que en el mapa del conductor)
+const DELIVERY_COLORS = {
+  acked: "#34C759",
+  pending: "#A0AEC0",
+  failed: "#E53E3E",
+};
+
+interface HistoryPointRowProps {
+  point: HistoryPoint;
+  selected?: boolean;
+  // Mostrar la fecha además de la hora (listas de varios días)
+  showDate?: boolean;
+  onPress?: (point: HistoryPoint) => void;
+}
+
+export function HistoryPointRow({
+  point,
+  selected = false,
+  showDate = false,
+  onPress,
+}: HistoryPointRowProps) {
+  const time = new Date(point.timestamp);
+
+  return (
+    <TouchableOpacity
+      className={`py-2 border-b border-gray-100 ${selected ? "bg-blue-50" : ""}`}
+      disabled={!onPress}
+      onPress={() => onPress?.(point)}
+    >
+      <View className="flex-row items-center justify-between">
+        <Text className="text-sm font-semibold text-gray-800">
+          {showDate ? time.toLocaleString() : time.toLocaleTimeString()}
+        </Text>
+        <View
+          className="w-2 h-2 rounded-full"
+          style={{ backgroundColor: DELIVERY_COLORS[point.deliveryState] }}
+        />
+      </View>
+      <Text className="text-xs text-gray-600">
+        {point.latitude.toFixed(6)}, {point.longitude.toFixed(6)}
+        {point.accuracy !== undefined
+          ? ` · ±${Math.round(point.accuracy)} m`
+          : ""}
+        {point.speed !== undefined
+          ? ` · ${Math.round(point.speed * 3.6)} km/h`
+          : ""}
+        {point.heading !== undefined ? ` · ${Math.round(point.heading)}°` : ""}
+        {point.lowAccuracy ? " · baja precisión" : ""}
+      </Text>
+    </TouchableOpacity>
+  );
+}
@@ -0,0 +1,107 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { Text, TouchableOpacity, View } from "react-native";
+import {
+  DispatchJob,
+  getNextJobStep,
+  JOB_STATUS_LABELS,
+  JobStop,
+} from "@/lib/jobs";
+
+interface JobCardProps {
+  job: DispatchJob;
+  isUpdating: boolean;
+  // Solo para ofertas pendientes ("assigned")
+  onAccept?: () => void;
+  onReject?: () => void;
+  // Solo para el servicio en curso
+  onAdvance?: () => void;
+}
+
+function StopRow({
+  icon,
+  color,
+  stop,
+}: {
+  icon: "arrow-up-circle" | "arrow-down-circle";
+  color: string;
+  stop: JobStop;
+}) {
+  return (
+    <View className="flex-row items-start mb-1">
+      <Ionicons name={icon} size={16} color={color} />
+      <View className="ml-2 flex-1">
+        <Text className="text-sm text-gray-800">{stop.name}</Text>
+        {stop.address && (
+          <Text className="text-xs text-gray-500">{stop.address}</Text>
+        )}
+      </View>
+    </View>
+  );
+}
+
+// Tarjeta de un servicio de despacho: oferta por responder o servicio activo
+export function JobCard({
+  job,
+  isUpdating,
+  onAccept,
+  onReject,
+  onAdvance,
+}: JobCardProps) {
+  const isOffer = job.status === "assigned";
+  const step = getNextJobStep(job.status);
+
+  return (
+    <View className="bg-sky-50 border border-sky-200 rounded-xl p-4 mb-3">
+      <View className="flex-row items-center justify-between mb-2">
+        <Text
+          className="text-sm font-bold text-sky-800 flex-1"
+          numberOfLines={1}
+        >
+          📦 {job.title || `Servicio ${job.id}`}
+        </Text>
+        <Text className="text-xs text-sky-700 ml-2">
+          {JOB_STATUS_LABELS[job.status]}
+        </Text>
+      </View>
+
+      <StopRow icon="arrow-up-circle" color="#3182CE" stop={job.pickup} />
+      <StopRow icon="arrow-down-circle" color="#D69E2E" stop={job.dropoff} />
+
+      {job.notes && (
+        <Text className="text-xs text-gray-600 mt-1">📝 {job.notes}</Text>
+      )}
+
+      {isOffer ? (
+        <View className="flex-row mt-3">
+          <TouchableOpacity
+            className={`flex-1 py-2 rounded-lg mr-2 items-center ${isUpdating ? "bg-gray-300" : "bg-green-500"}`}
+            onPress={onAccept}
+            disabled={isUpdating}
+          >
+            <Text className="text-white font-semibold">Aceptar</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            className={`flex-1 py-2 rounded-lg items-center ${isUpdating ? "bg-gray-300" : "bg-red-500"}`}
+            onPress={onReject}
+            disabled={isUpdating}
+          >
+            <Text className="text-white font-semibold">Rechazar</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        step && (
+          <TouchableOpacity
+            className={`mt-3 py-2 rounded-lg items-center ${isUpdating ? "bg-gray-300" : "bg-sky-500"}`}
+            onPress={onAdvance}
+            disabled={isUpdating}
+          >
+            <Text className="text-white font-semibold">
+              {isUpdating ? "Enviando..." : step.action}
+            </Text>
+          </TouchableOpacity>
+        )
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,31 @@
+import React from "react";
+import { Marker } from "react-native-maps";
+import { DispatchJob, getJobTarget } from "@/lib/jobs";
+
+interface JobMarkersProps {
+  job: DispatchJob;
+}
+
+// Puntos de recogida y entrega de un servicio; el destino actual va opaco
+export function JobMarkers({ job }: JobMarkersProps) {
+  const target = getJobTarget(job);
+
+  return (
+    <>
+      <Marker
+        coordinate={job.pickup}
+        title={`Recogida: ${job.pickup.name}`}
+        description={job.pickup.address}
+        pinColor="#3182CE"
+        opacity={target === job.pickup ? 1 : 0.5}
+      />
+      <Marker
+        coordinate={job.dropoff}
+        title={`Entrega: ${job.dropoff.name}`}
+        description={job.dropoff.address}
+        pinColor="#D69E2E"
+        opacity={target === job.dropoff ? 1 : 0.5}
+      />
+    </>
+  );
+}
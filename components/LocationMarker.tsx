@@ -0,0 +1,66 @@
+import React from "react";
+import { Circle, Marker } from "react-native-maps";
+
+export type LocationMarkerStatus = "active" | "idle" | "stale";
+
+const MARKER_COLORS: Record<
+  LocationMarkerStatus,
+  { pin: string; stroke: string; fill: string }
+> = {
+  active: {
+    pin: "#34C759",
+    stroke: "rgba(52, 199, 89, 0.5)",
+    fill: "rgba(52, 199, 89, 0.2)",
+  },
+  idle: {
+    pin: "#007AFF",
+    stroke: "rgba(0, 122, 255, 0.5)",
+    fill: "rgba(0, 122, 255, 0.2)",
+  },
+  stale: {
+    pin: "#A0AEC0",
+    stroke: "rgba(160, 174, 192, 0.5)",
+    fill: "rgba(160, 174, 192, 0.2)",
+  },
+};
+
+interface LocationMarkerProps {
+  coordinate: { latitude: number; longitude: number };
+  accuracy?: number | null;
+  title: string;
+  description?: string;
+  status: LocationMarkerStatus;
+  onPress?: () => void;
+}
+
+// Marcador de posición con círculo de precisión
+export function LocationMarker({
+  coordinate,
+  accuracy,
+  title,
+  description,
+  status,
+  onPress,
+}: LocationMarkerProps) {
+  const colors = MARKER_COLORS[status];
+
+  return (
+    <>
+      <Marker
+        coordinate={coordinate}
+        title={title}
+        description={description}
+        pinColor={colors.pin}
+        onPress={onPress}
+      />
+
+      {/* Círculo de precisión */}
+      <Circle
+        center={coordinate}
+        radius={accuracy || 20}
+        strokeColor={colors.stroke}
+        fillColor={colors.fill}
+      />
+    </>
+  );
+}
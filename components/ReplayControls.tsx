@@ -0,0 +1,110 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useState } from "react";
+import { Pressable, Text, TouchableOpacity, View } from "react-native";
+import type { ImportedTrack } from "@/lib/trackParsers";
+import { REPLAY_SPEEDS, ReplayState } from "@/lib/trackReplay";
+
+interface ReplayControlsProps {
+  track: ImportedTrack;
+  state: ReplayState;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (index: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onClose: () => void;
+}
+
+// Panel de reproducción de un recorrido importado (GPX/GeoJSON) o simulado
+export function ReplayControls({
+  track,
+  state,
+  onPlay,
+  onPause,
+  onSeek,
+  onSpeedChange,
+  onClose,
+}: ReplayControlsProps) {
+  const [barWidth, setBarWidth] = useState(0);
+  const progress = state.total > 0 ? state.index / state.total : 0;
+  const isPlaying = state.status === "playing";
+  // Saltos de ~5% del recorrido con los botones de avance/retroceso
+  const step = Math.max(1, Math.round(state.total / 20));
+
+  return (
+    <View className="bg-teal-50 border border-teal-200 rounded-xl p-4 mb-3">
+      <View className="flex-row items-center justify-between mb-2">
+        <Text className="text-sm font-bold text-teal-800 flex-1" numberOfLines={1}>
+          {track.source === "simulation" ? "🗺️" : "📂"} {track.name}
+        </Text>
+        <TouchableOpacity onPress={onClose} className="ml-2">
+          <Ionicons name="close" size={20} color="#2C7A7B" />
+        </TouchableOpacity>
+      </View>
+
+      <Text className="text-xs text-teal-700 mb-2">
+        Punto {state.index} de {state.total}
+        {state.status === "finished" ? " · terminado" : ""}
+        {track.synthesizedTimes ? " · horas estimadas" : ""}
+      </Text>
+
+      {/* Barra de progreso: tocar para saltar a ese punto */}
+      <Pressable
+        className="h-3 bg-teal-100 rounded-full mb-3 overflow-hidden"
+        onLayout={(event) => setBarWidth(event.nativeEvent.layout.width)}
+        onPress={(event) => {
+          if (barWidth > 0) {
+            onSeek((event.nativeEvent.locationX / barWidth) * state.total);
+          }
+        }}
+      >
+        <View
+          className="h-3 bg-teal-500 rounded-full"
+          style={{ width: `${progress * 100}%` }}
+        />
+      </Pressable>
+
+      <View className="flex-row items-center justify-center mb-3">
+        <TouchableOpacity
+          className="p-2"
+          onPress={() => onSeek(state.index - step)}
+        >
+          <Ionicons name="play-back" size={22} color="#2C7A7B" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          className="mx-4 w-12 h-12 rounded-full bg-teal-500 items-center justify-center"
+          onPress={isPlaying ? onPause : onPlay}
+        >
+          <Ionicons name={isPlaying ? "pause" : "play"} size={24} color="#fff" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          className="p-2"
+          onPress={() => onSeek(state.index + step)}
+        >
+          <Ionicons name="play-forward" size={22} color="#2C7A7B" />
+        </TouchableOpacity>
+      </View>
+
+      <View className="flex-row justify-around">
+        {REPLAY_SPEEDS.map((speed) => (
+          <TouchableOpacity
+            key={speed}
+            className={`py-1.5 px-3 rounded-lg ${
+              state.speed === speed ? "bg-teal-500" : "bg-teal-100"
+            }`}
+            onPress={() => onSpeedChange(speed)}
+          >
+            <Text
+              className={`text-sm ${
+                state.speed === speed
+                  ? "text-white font-semibold"
+                  : "text-teal-800"
+              }`}
+            >
+              {speed}x
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,115 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { ScrollView, Text, TouchableOpacity, View } from "react-native";
+import type {
+  PlannedRoute,
+  RouteProgress,
+  RouteTarget,
+  RouteTargetKind,
+} from "@/lib/routing";
+import { formatDuration } from "@/lib/trips";
+
+const TARGET_ICONS: Record<RouteTargetKind, string> = {
+  job: "📦",
+  depot: "🏠",
+  geofence: "📍",
+};
+
+// "📏 3.2 km · ⏱️ 12m · llegada 14:32"
+const describeRemaining = (
+  route: PlannedRoute | null,
+  progress: RouteProgress | null
+) => {
+  if (!route) return "Esperando ubicación...";
+  const meters = progress?.remainingMeters ?? route.distanceMeters;
+  const seconds = progress?.remainingSeconds ?? route.durationSeconds;
+  const arrival = new Date(Date.now() + seconds * 1000).toLocaleTimeString(
+    [],
+    { hour: "2-digit", minute: "2-digit" }
+  );
+  return `📏 ${(meters / 1000).toFixed(1)} km · ⏱️ ${formatDuration(
+    seconds * 1000
+  )} · llegada ${arrival}`;
+};
+
+interface RoutePanelProps {
+  // Sin URL del servicio de rutas no se pide ninguna ruta
+  isConfigured: boolean;
+  targets: RouteTarget[];
+  target: RouteTarget | null;
+  route: PlannedRoute | null;
+  progress: RouteProgress | null;
+  isLoading: boolean;
+  error: string | null;
+  onSelect: (target: RouteTarget | null) => void;
+}
+
+// Elección del destino y resumen de la ruta planificada (distancia y ETA)
+export function RoutePanel({
+  isConfigured,
+  targets,
+  target,
+  route,
+  progress,
+  isLoading,
+  error,
+  onSelect,
+}: RoutePanelProps) {
+  if (!isConfigured) {
+    return (
+      <View className="bg-gray-50 border border-gray-200 rounded-xl p-4 mb-3">
+        <Text className="text-sm font-bold text-gray-700">
+          🧭 Rutas no configuradas
+        </Text>
+        <Text className="text-xs text-gray-500 mt-1">
+          Define EXPO_PUBLIC_ROUTING_URL o la URL del servicio de rutas en
+          Configuración para ver la ruta al próximo destino
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View className="bg-green-50 border border-green-200 rounded-xl p-4 mb-3">
+      <View className="flex-row items-center justify-between mb-2">
+        <Text className="text-sm font-bold text-green-800 flex-1">
+          🧭 {target ? `Ruta a ${target.name}` : "Elegir destino"}
+        </Text>
+        {target && (
+          <TouchableOpacity onPress={() => onSelect(null)} className="ml-2">
+            <Ionicons name="close" size={20} color="#2F855A" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {targets.map((option) => {
+          const selected = target?.id === option.id;
+          return (
+            <TouchableOpacity
+              key={option.id}
+              className={`py-1 px-3 rounded-full mr-2 ${selected ? "bg-green-500" : "bg-white border border-green-200"}`}
+              onPress={() => onSelect(option)}
+            >
+              <Text
+                className={`text-xs ${selected ? "text-white font-semibold" : "text-green-800"}`}
+              >
+                {TARGET_ICONS[option.kind]} {option.name}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      {target && (
+        <Text className="text-xs text-green-700 mt-3">
+          {isLoading
+            ? "Calculando ruta..."
+            : error
+              ? `⚠️ ${error}`
+              : describeRemaining(route, progress)}
+        </Text>
+      )}
+    </View>
+  );
+}
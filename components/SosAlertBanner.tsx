@@ -0,0 +1,62 @@
+import React from "react";
+import { Text, TouchableOpacity, View } from "react-native";
+import type { SosAlert } from "@/lib/sos";
+
+interface SosAlertBannerProps {
+  alert: SosAlert;
+  // Fin de la ráfaga a máxima frecuencia; null si ya terminó
+  burstUntil: number | null;
+  onDismiss: () => void;
+}
+
+const STATUS_TEXT: Record<SosAlert["status"], string> = {
+  queued: "Sin conexión: se enviará al reconectar",
+  sent: "Enviada, esperando a despacho",
+  acknowledged: "Despacho recibió tu alerta",
+};
+
+// Estado de la alerta SOS activa; se cierra solo tras la confirmación
+export function SosAlertBanner({
+  alert,
+  burstUntil,
+  onDismiss,
+}: SosAlertBannerProps) {
+  const acknowledged = alert.status === "acknowledged";
+
+  return (
+    <View
+      className={`rounded-xl p-4 mb-3 border ${
+        acknowledged ? "bg-green-50 border-green-300" : "bg-red-50 border-red-300"
+      }`}
+    >
+      <Text
+        className={`text-base font-bold ${acknowledged ? "text-green-800" : "text-red-700"}`}
+      >
+        {acknowledged ? "✅ Alerta atendida" : "🚨 Alerta SOS activa"}
+      </Text>
+      <Text
+        className={`text-sm mt-1 ${acknowledged ? "text-green-700" : "text-red-600"}`}
+      >
+        {STATUS_TEXT[alert.status]}
+        {alert.acknowledgedBy ? ` (${alert.acknowledgedBy})` : ""}
+      </Text>
+      <Text className="text-xs text-gray-600 mt-1">
+        Disparada a las {new Date(alert.triggeredAt).toLocaleTimeString()}
+        {alert.location ? "" : " · sin ubicación"}
+        {burstUntil
+          ? ` · GPS a máxima frecuencia hasta las ${new Date(
+              burstUntil
+            ).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+          : ""}
+      </Text>
+      {acknowledged && (
+        <TouchableOpacity
+          className="mt-3 py-2 rounded-lg items-center bg-green-500"
+          onPress={onDismiss}
+        >
+          <Text className="text-white font-semibold">Cerrar alerta</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
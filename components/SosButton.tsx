@@ -0,0 +1,58 @@
+import React, { useRef, useState } from "react";
+import { Animated, Easing, Pressable, Text, View } from "react-native";
+import { SOS_HOLD_MS } from "@/lib/sos";
+
+interface SosButtonProps {
+  onTrigger: () => void;
+  disabled?: boolean;
+}
+
+// Botón de pánico: hay que mantenerlo presionado hasta llenar la barra, así
+// un toque accidental no dispara la alerta
+export function SosButton({ onTrigger, disabled }: SosButtonProps) {
+  const progress = useRef(new Animated.Value(0)).current;
+  const [isHolding, setIsHolding] = useState(false);
+
+  const startHold = () => {
+    setIsHolding(true);
+    Animated.timing(progress, {
+      toValue: 1,
+      duration: SOS_HOLD_MS,
+      easing: Easing.linear,
+      useNativeDriver: false,
+    }).start(({ finished }) => {
+      setIsHolding(false);
+      progress.setValue(0);
+      if (finished) onTrigger();
+    });
+  };
+
+  // Detener la animación llama a `start` con finished = false
+  const cancelHold = () => progress.stopAnimation();
+
+  return (
+    <Pressable
+      onPressIn={startHold}
+      onPressOut={cancelHold}
+      disabled={disabled}
+      className={`rounded-xl overflow-hidden ${disabled ? "bg-gray-300" : "bg-red-500"}`}
+    >
+      <Animated.View
+        className="absolute top-0 bottom-0 left-0 bg-red-700"
+        style={{
+          width: progress.interpolate({
+            inputRange: [0, 1],
+            outputRange: ["0%", "100%"],
+          }),
+        }}
+      />
+      <View className="py-3 items-center">
+        <Text className="text-white font-bold">
+          {isHolding
+            ? "Suelta para cancelar"
+            : `🆘 Mantén ${SOS_HOLD_MS / 1000}s para SOS`}
+        </Text>
+      </View>
+    </Pressable>
+  );
+}
@@ -0,0 +1,132 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  fetchAvailableVehicles,
+  getVehicleLabel,
+  Vehicle,
+} from "@/lib/vehicles";
+
+interface VehiclePickerProps {
+  visible: boolean;
+  onSelect: (vehicle: Vehicle) => Promise<void>;
+  onClose: () => void;
+}
+
+// Modal para elegir un vehículo disponible al iniciar el turno
+export function VehiclePicker({
+  visible,
+  onSelect,
+  onClose,
+}: VehiclePickerProps) {
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [claimingId, setClaimingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      loadVehicles();
+    }
+  }, [visible]);
+
+  const loadVehicles = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setVehicles(await fetchAvailableVehicles());
+    } catch (e) {
+      console.error("❌ Error cargando vehículos:", e);
+      setError("No se pudieron cargar los vehículos disponibles");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSelect = async (vehicle: Vehicle) => {
+    try {
+      setClaimingId(vehicle.id);
+      setError(null);
+      await onSelect(vehicle);
+    } catch (e) {
+      console.error("❌ Error asignando vehículo:", e);
+      setError(
+        e instanceof Error ? e.message : "No se pudo asignar el vehículo"
+      );
+      loadVehicles();
+    } finally {
+      setClaimingId(null);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 justify-end bg-black/40">
+        <View className="bg-white rounded-tl-3xl rounded-tr-3xl p-5 max-h-[70%]">
+          <View className="flex-row justify-between items-center mb-4">
+            <Text className="text-lg font-bold text-gray-800">
+              🚗 Elegir Vehículo
+            </Text>
+            <TouchableOpacity onPress={onClose} className="p-1">
+              <Ionicons name="close" size={24} color="#4A5568" />
+            </TouchableOpacity>
+          </View>
+
+          {error && (
+            <Text className="text-sm text-red-600 mb-3">❌ {error}</Text>
+          )}
+
+          {isLoading ? (
+            <ActivityIndicator size="large" color="#007AFF" />
+          ) : (
+            <ScrollView>
+              {vehicles.length === 0 && !error && (
+                <Text className="text-sm text-gray-600 text-center py-4">
+                  No hay vehículos disponibles en este momento
+                </Text>
+              )}
+              {vehicles.map((vehicle) => (
+                <TouchableOpacity
+                  key={vehicle.id}
+                  className="flex-row items-center justify-between py-3 px-4 rounded-lg mb-2 bg-gray-50 border border-gray-200"
+                  onPress={() => handleSelect(vehicle)}
+                  disabled={claimingId !== null}
+                >
+                  <Text className="text-base text-gray-800">
+                    {getVehicleLabel(vehicle)}
+                  </Text>
+                  {claimingId === vehicle.id ? (
+                    <ActivityIndicator size="small" color="#007AFF" />
+                  ) : (
+                    <Ionicons name="chevron-forward" size={18} color="#A0AEC0" />
+                  )}
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+
+          <TouchableOpacity
+            className="flex-row items-center justify-center py-3 mt-2"
+            onPress={loadVehicles}
+            disabled={isLoading}
+          >
+            <Ionicons name="refresh" size={16} color="#007AFF" />
+            <Text className="text-blue-600 ml-2 text-sm">Actualizar lista</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
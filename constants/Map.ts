@@ -0,0 +1,5 @@
+// Zoom inicial del mapa sobre el centro de la región activa
+export const INITIAL_REGION_DELTA = {
+  latitudeDelta: 0.05,
+  longitudeDelta: 0.05,
+};
@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Socket } from 'socket.io-client';
+
+import {
+  ChatMessage,
+  createChatMessage,
+  deliverChatMessage,
+  loadChatMessages,
+  markChatMessagesRead,
+  parseIncomingMessage,
+  saveChatMessage,
+  updateChatMessage,
+} from '@/lib/chat';
+import type { LocationData } from '@/lib/locationTypes';
+
+interface ChatContext {
+  socket: Socket | null;
+  vehicleId: string | null;
+  location: LocationData | null;
+}
+
+/**
+ * Mensajes entre el conductor y despacho, guardados en el dispositivo. Los
+ * salientes llevan la ubicación actual y quedan pendientes hasta que el
+ * servidor los confirma; al reconectar se reenvían en orden.
+ */
+export function useChat(getContext: () => ChatContext) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const getContextRef = useRef(getContext);
+  const messagesRef = useRef<ChatMessage[]>([]);
+
+  useEffect(() => {
+    getContextRef.current = getContext;
+  });
+
+  const applyMessages = (next: ChatMessage[]) => {
+    messagesRef.current = next;
+    setMessages(next);
+  };
+
+  const upsert = (message: ChatMessage) =>
+    applyMessages([
+      ...messagesRef.current.filter((m) => m.id !== message.id),
+      message,
+    ]);
+
+  useEffect(() => {
+    loadChatMessages().then((stored) =>
+      // Lo recibido antes de terminar de leer va al final
+      applyMessages([
+        ...stored,
+        ...messagesRef.current.filter(
+          (m) => !stored.some((s) => s.id === m.id)
+        ),
+      ])
+    );
+  }, []);
+
+  const setStatus = async (
+    message: ChatMessage,
+    status: ChatMessage['status']
+  ) => {
+    const current = messagesRef.current.find((m) => m.id === message.id);
+    upsert({ ...(current ?? message), status });
+    await updateChatMessage(message.id, { status });
+  };
+
+  const send = async (text: string) => {
+    const { socket, vehicleId, location } = getContextRef.current();
+    const trimmed = text.trim();
+    if (!trimmed || !vehicleId) return null;
+
+    const message = createChatMessage(
+      trimmed,
+      vehicleId,
+      location
+        ? {
+            latitude: location.latitude,
+            longitude: location.longitude,
+            accuracy: location.accuracy,
+          }
+        : null
+    );
+    upsert(message);
+    await saveChatMessage(message);
+
+    if (socket) {
+      const status = await deliverChatMessage(socket, message);
+      if (status !== 'pending') await setStatus(message, status);
+    }
+    return message;
+  };
+
+  // Mensaje de despacho recibido por el socket; devuelve el mensaje si sirve
+  const receive = (raw: unknown) => {
+    const { vehicleId } = getContextRef.current();
+    const message = parseIncomingMessage(raw, vehicleId ?? '');
+    if (!message) {
+      console.log('⚠️ Mensaje inválido:', raw);
+      return null;
+    }
+    // Un reenvío del servidor no vuelve a contar como no leído
+    if (messagesRef.current.some((m) => m.id === message.id)) return null;
+
+    upsert(message);
+    saveChatMessage(message).catch((error) => {
+      console.error('❌ Error guardando mensaje:', error);
+    });
+    return message;
+  };
+
+  const markRead = useCallback(() => {
+    const hasUnread = messagesRef.current.some(
+      (m) => m.direction === 'incoming' && !m.read
+    );
+    if (!hasUnread) return;
+
+    applyMessages(
+      messagesRef.current.map((m) =>
+        m.direction === 'incoming' && !m.read ? { ...m, read: true } : m
+      )
+    );
+    markChatMessagesRead().catch((error) => {
+      console.error('❌ Error marcando mensajes como leídos:', error);
+    });
+  }, []);
+
+  // Reenvía los pendientes en orden; al primero sin confirmar se detiene
+  const flushPending = async (socket: Socket) => {
+    const pending = messagesRef.current.filter(
+      (m) => m.direction === 'outgoing' && m.status === 'pending'
+    );
+    for (const message of pending) {
+      const status = await deliverChatMessage(socket, message);
+      if (status === 'pending') break;
+      await setStatus(message, status);
+    }
+  };
+
+  const unreadCount = messages.filter(
+    (m) => m.direction === 'incoming' && !m.read
+  ).length;
+
+  return { messages, unreadCount, send, receive, markRead, flushPending };
+}
@@ -0,0 +1,71 @@
+import NetInfo from '@react-native-community/netinfo';
+import { useEffect, useRef, useState } from 'react';
+import type { Socket } from 'socket.io-client';
+
+import {
+  ConnectionManager,
+  ConnectionSnapshot,
+  createConnectionManager,
+  INITIAL_CONNECTION_SNAPSHOT,
+} from '@/lib/connectionManager';
+
+interface ConnectionCallbacks {
+  getToken: () => Promise<string | null>;
+  refreshToken: () => Promise<string | null>;
+  onSocketCreated?: (socket: Socket) => void;
+  onConnected?: (socket: Socket, isReconnect: boolean) => void;
+  onDisconnected?: (reason: string) => void;
+}
+
+/**
+ * Conexión WebSocket gestionada por `createConnectionManager`, con la red
+ * del dispositivo (NetInfo) para pausar los reintentos sin conexión. Los
+ * callbacks se leen de un ref, así que siempre ven el último render.
+ */
+export function useConnection(url: string, callbacks: ConnectionCallbacks) {
+  const [snapshot, setSnapshot] = useState<ConnectionSnapshot>(
+    INITIAL_CONNECTION_SNAPSHOT
+  );
+  const callbacksRef = useRef(callbacks);
+  const managerRef = useRef<ConnectionManager | null>(null);
+
+  useEffect(() => {
+    callbacksRef.current = callbacks;
+  });
+
+  if (!managerRef.current) {
+    managerRef.current = createConnectionManager({
+      url,
+      getToken: () => callbacksRef.current.getToken(),
+      refreshToken: () => callbacksRef.current.refreshToken(),
+      onSocketCreated: (socket) => callbacksRef.current.onSocketCreated?.(socket),
+      onConnected: (socket, isReconnect) =>
+        callbacksRef.current.onConnected?.(socket, isReconnect),
+      onDisconnected: (reason) =>
+        callbacksRef.current.onDisconnected?.(reason),
+    });
+  }
+
+  useEffect(() => {
+    const manager = managerRef.current!;
+    const unsubscribe = manager.subscribe(setSnapshot);
+    // isInternetReachable es null mientras NetInfo no lo sabe
+    const unsubscribeNetInfo = NetInfo.addEventListener((state) =>
+      manager.setNetworkAvailable(
+        state.isConnected !== false && state.isInternetReachable !== false
+      )
+    );
+
+    return () => {
+      unsubscribe();
+      unsubscribeNetInfo();
+      manager.disconnect();
+    };
+  }, []);
+
+  return {
+    ...snapshot,
+    connect: () => managerRef.current!.connect(),
+    disconnect: () => managerRef.current!.disconnect(),
+  };
+}
@@ -0,0 +1,149 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Socket } from 'socket.io-client';
+
+import {
+  DispatchJob,
+  emitJobStatus,
+  getNextJobStep,
+  JobStatus,
+  JobStatusError,
+  loadActiveJob,
+  parseJobAssignment,
+  saveActiveJob,
+} from '@/lib/jobs';
+import type { LocationData } from '@/lib/locationTypes';
+
+interface JobContext {
+  socket: Socket | null;
+  vehicleId: string | null;
+  location: LocationData | null;
+}
+
+/**
+ * Servicios asignados por despacho: ofertas pendientes de respuesta y el
+ * servicio en curso. Cada respuesta o cambio de estado se envía con la
+ * ubicación actual y solo se aplica si el servidor la confirma.
+ */
+export function useDispatchJobs(getContext: () => JobContext) {
+  const [offers, setOffers] = useState<DispatchJob[]>([]);
+  const [activeJob, setActiveJob] = useState<DispatchJob | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+  // Los listeners del socket se registran una sola vez, así que leen del ref
+  const activeJobRef = useRef<DispatchJob | null>(null);
+  const getContextRef = useRef(getContext);
+
+  useEffect(() => {
+    getContextRef.current = getContext;
+  });
+
+  useEffect(() => {
+    loadActiveJob().then((stored) => {
+      if (stored && !activeJobRef.current) {
+        activeJobRef.current = stored;
+        setActiveJob(stored);
+      }
+    });
+  }, []);
+
+  const updateActiveJob = (next: DispatchJob | null) => {
+    activeJobRef.current = next;
+    setActiveJob(next);
+    saveActiveJob(next).catch((error) => {
+      console.error('❌ Error guardando servicio activo:', error);
+    });
+  };
+
+  const sendStatus = async (
+    job: DispatchJob,
+    status: JobStatus,
+    reason?: string
+  ) => {
+    const { socket, vehicleId, location } = getContextRef.current();
+    if (!vehicleId) {
+      throw new JobStatusError('No hay un vehículo asignado');
+    }
+
+    await emitJobStatus(socket, {
+      jobId: job.id,
+      vehicleId,
+      status,
+      timestamp: new Date().toISOString(),
+      location,
+      reason,
+    });
+  };
+
+  // Asignación recibida por el socket; devuelve el servicio si es nuevo
+  const receiveJob = (raw: unknown): DispatchJob | null => {
+    const job = parseJobAssignment(raw);
+    if (!job) {
+      console.log('⚠️ Asignación de servicio inválida:', raw);
+      return null;
+    }
+    if (activeJobRef.current?.id === job.id) return null;
+
+    setOffers((prev) => [...prev.filter((o) => o.id !== job.id), job]);
+    return job;
+  };
+
+  // Despacho retiró el servicio; true si era el que estaba en curso
+  const cancelJob = (jobId: string) => {
+    setOffers((prev) => prev.filter((o) => o.id !== jobId));
+    if (activeJobRef.current?.id !== jobId) return false;
+    updateActiveJob(null);
+    return true;
+  };
+
+  const respond = async (job: DispatchJob, accepted: boolean) => {
+    if (accepted && activeJobRef.current) {
+      throw new JobStatusError(
+        'Termina el servicio en curso antes de aceptar otro'
+      );
+    }
+
+    setIsUpdating(true);
+    try {
+      await sendStatus(job, accepted ? 'accepted' : 'rejected');
+      setOffers((prev) => prev.filter((o) => o.id !== job.id));
+      if (accepted) {
+        updateActiveJob({
+          ...job,
+          status: 'accepted',
+          updatedAt: new Date().toISOString(),
+        });
+      }
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  // Pasa al siguiente estado del flujo; al completar se libera el servicio
+  const advance = async (): Promise<JobStatus | null> => {
+    const job = activeJobRef.current;
+    const step = job && getNextJobStep(job.status);
+    if (!job || !step) return null;
+
+    setIsUpdating(true);
+    try {
+      await sendStatus(job, step.next);
+      updateActiveJob(
+        step.next === 'completed'
+          ? null
+          : { ...job, status: step.next, updatedAt: new Date().toISOString() }
+      );
+      return step.next;
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return {
+    offers,
+    activeJob,
+    isUpdating,
+    receiveJob,
+    cancelJob,
+    respond,
+    advance,
+  };
+}
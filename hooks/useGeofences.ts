@@ -0,0 +1,139 @@
+import { useEffect, useRef, useState } from 'react';
+
+import { loadGeofenceState, saveGeofenceState } from '@/lib/geofenceLog';
+import {
+  evaluateGeofences,
+  fetchGeofences,
+  Geofence,
+  GeofenceEvent,
+  GeofenceState,
+  keepUnknownGeofenceState,
+  loadLocalGeofences,
+  saveLocalGeofences,
+  subscribeLocalGeofences,
+} from '@/lib/geofences';
+import type { LocationData } from '@/lib/locationTypes';
+
+// Sin red se conservan las geocercas del servidor que ya se tenían;
+// `remoteLoaded` indica si la lista del servidor se descargó
+const loadAllGeofences = async (previous: Geofence[]) => {
+  let remoteLoaded = true;
+  const [remote, local] = await Promise.all([
+    fetchGeofences().catch((error) => {
+      console.error('❌ Error cargando geocercas del servidor:', error);
+      remoteLoaded = false;
+      return previous.filter((geofence) => geofence.source === 'api');
+    }),
+    loadLocalGeofences(),
+  ]);
+  return { geofences: [...remote, ...local], remoteLoaded };
+};
+
+const sameIds = (a: GeofenceState, b: GeofenceState) => {
+  const ids = Object.keys(a);
+  return ids.length === Object.keys(b).length && ids.every((id) => id in b);
+};
+
+/**
+ * Geocercas del servidor y locales, y en cuáles está el vehículo. El estado
+ * de entrada/salida vive en refs para evaluarlo desde los callbacks de
+ * ubicación sin esperar un render, y se persiste para retomarlo tras un
+ * reinicio. Hasta tener las geocercas y el estado guardado no se evalúa: la
+ * primera evaluación después reconcilia lo guardado con la posición actual.
+ * Mientras la lista del servidor no se haya descargado, lo guardado para
+ * geocercas desconocidas se conserva en vez de descartarse.
+ */
+export function useGeofences() {
+  const [geofences, setGeofences] = useState<Geofence[]>([]);
+  const [insideIds, setInsideIds] = useState<string[]>([]);
+  const geofencesRef = useRef<Geofence[]>([]);
+  const stateRef = useRef<GeofenceState>({});
+  const geofencesLoadedRef = useRef(false);
+  const stateRestoredRef = useRef(false);
+  const remoteLoadedRef = useRef(false);
+
+  const applyGeofences = (next: Geofence[]) => {
+    geofencesRef.current = next;
+    geofencesLoadedRef.current = true;
+    setGeofences(next);
+  };
+
+  const applyLoaded = ({
+    geofences: next,
+    remoteLoaded,
+  }: Awaited<ReturnType<typeof loadAllGeofences>>) => {
+    remoteLoadedRef.current ||= remoteLoaded;
+    applyGeofences(next);
+  };
+
+  useEffect(() => {
+    loadAllGeofences([]).then(applyLoaded);
+    loadGeofenceState().then((state) => {
+      stateRef.current = state;
+      stateRestoredRef.current = true;
+      setInsideIds(Object.keys(state));
+    });
+
+    // Cambios hechos desde otra pantalla
+    return subscribeLocalGeofences((local) =>
+      applyGeofences([
+        ...geofencesRef.current.filter((g) => g.source === 'api'),
+        ...local,
+      ])
+    );
+  }, []);
+
+  const refresh = async () =>
+    applyLoaded(await loadAllGeofences(geofencesRef.current));
+
+  const evaluate = (
+    fix: LocationData,
+    context: { vehicleId: string; tripId?: string }
+  ): GeofenceEvent[] => {
+    if (!geofencesLoadedRef.current || !stateRestoredRef.current) return [];
+
+    const previous = stateRef.current;
+    const evaluated = evaluateGeofences(
+      previous,
+      geofencesRef.current,
+      fix,
+      context
+    );
+    const { events } = evaluated;
+    const state = remoteLoadedRef.current
+      ? evaluated.state
+      : keepUnknownGeofenceState(
+          previous,
+          evaluated.state,
+          geofencesRef.current
+        );
+    stateRef.current = state;
+    // También cambia si se borró una geocerca en la que estaba
+    if (!sameIds(previous, state)) {
+      setInsideIds(Object.keys(state));
+      saveGeofenceState(state).catch((error) =>
+        console.error('❌ Error guardando el estado de geocercas:', error)
+      );
+    }
+    return events;
+  };
+
+  const addLocalGeofence = async (geofence: Geofence) => {
+    const local = await loadLocalGeofences();
+    await saveLocalGeofences([...local, geofence]);
+  };
+
+  const removeLocalGeofence = async (geofenceId: string) => {
+    const local = await loadLocalGeofences();
+    await saveLocalGeofences(local.filter((g) => g.id !== geofenceId));
+  };
+
+  return {
+    geofences,
+    insideIds,
+    refresh,
+    evaluate,
+    addLocalGeofence,
+    removeLocalGeofence,
+  };
+}
@@ -0,0 +1,17 @@
+import { INITIAL_REGION_DELTA } from '@/constants/Map';
+import { useSettings } from '@/hooks/useSettings';
+import { findRegion } from '@/lib/regions';
+
+/**
+ * Región elegida en la configuración para el mapa y los datos de prueba,
+ * con la región inicial del mapa ya calculada.
+ */
+export function useRegion() {
+  const { settings } = useSettings();
+  const region = findRegion(settings.regionId, settings.customRegions);
+
+  return {
+    region,
+    initialMapRegion: { ...region.center, ...INITIAL_REGION_DELTA },
+  };
+}
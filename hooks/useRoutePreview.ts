@@ -0,0 +1,146 @@
+import { useCallback, useRef, useState } from 'react';
+
+import type { Coordinate } from '@/lib/geo';
+import {
+  fetchRoute,
+  getRouteProgress,
+  PlannedRoute,
+  RouteProgress,
+  RouteTarget,
+  RouteTargetKind,
+  isRoutingConfigured,
+  RoutingError,
+} from '@/lib/routing';
+import { getSettings } from '@/lib/settings';
+
+// Tiempo mínimo entre recálculos, para no saturar el servicio de rutas
+// mientras el conductor sigue fuera de la ruta
+const REROUTE_COOLDOWN_MS = 15000;
+
+/**
+ * Ruta planificada desde la posición actual hasta el destino elegido, con la
+ * distancia y el tiempo restantes. Las posiciones llegan desde los callbacks
+ * de ubicación; si el conductor se aleja de la ruta más que el umbral de la
+ * configuración se vuelve a calcular.
+ */
+export function useRoutePreview() {
+  const [target, setTargetState] = useState<RouteTarget | null>(null);
+  const [route, setRoute] = useState<PlannedRoute | null>(null);
+  const [progress, setProgress] = useState<RouteProgress | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const targetRef = useRef<RouteTarget | null>(null);
+  const routeRef = useRef<PlannedRoute | null>(null);
+  const positionRef = useRef<Coordinate | null>(null);
+  // Cada petición tiene un número; las respuestas viejas se descartan
+  const requestRef = useRef(0);
+  const isLoadingRef = useRef(false);
+  const lastRequestRef = useRef(0);
+
+  const requestRoute = useCallback(async (from: Coordinate) => {
+    const destination = targetRef.current;
+    const { routing } = getSettings();
+    if (!destination || !isRoutingConfigured(routing)) return;
+
+    const requestId = ++requestRef.current;
+    lastRequestRef.current = Date.now();
+    isLoadingRef.current = true;
+    setIsLoading(true);
+
+    try {
+      const next = await fetchRoute(routing.url, from, destination);
+      if (requestId !== requestRef.current) return;
+      routeRef.current = next;
+      setRoute(next);
+      setProgress(getRouteProgress(next, from));
+      setError(null);
+      console.log(
+        `🧭 Ruta a ${destination.name}: ${(next.distanceMeters / 1000).toFixed(1)} km`
+      );
+    } catch (err) {
+      if (requestId !== requestRef.current) return;
+      console.error('❌ Error calculando ruta:', err);
+      setError(
+        err instanceof RoutingError ? err.message : 'No se pudo calcular la ruta'
+      );
+    } finally {
+      if (requestId === requestRef.current) {
+        isLoadingRef.current = false;
+        setIsLoading(false);
+      }
+    }
+  }, []);
+
+  const setTarget = useCallback(
+    (next: RouteTarget | null) => {
+      targetRef.current = next;
+      routeRef.current = null;
+      // Invalida la petición en curso hacia el destino anterior
+      requestRef.current++;
+      isLoadingRef.current = false;
+      lastRequestRef.current = 0;
+      setTargetState(next);
+      setRoute(null);
+      setProgress(null);
+      setError(null);
+      setIsLoading(false);
+
+      if (next && positionRef.current) {
+        requestRoute(positionRef.current);
+      }
+    },
+    [requestRoute]
+  );
+
+  // Quita el destino solo si es del tipo indicado (p. ej. al terminar un
+  // servicio no se borra una base elegida a mano)
+  const clearTarget = useCallback(
+    (kind?: RouteTargetKind) => {
+      if (!kind || targetRef.current?.kind === kind) setTarget(null);
+    },
+    [setTarget]
+  );
+
+  const updatePosition = useCallback(
+    (position: Coordinate) => {
+      positionRef.current = position;
+      if (!targetRef.current || isLoadingRef.current) return;
+
+      const current = routeRef.current;
+      const canRequest =
+        Date.now() - lastRequestRef.current >= REROUTE_COOLDOWN_MS;
+
+      if (!current) {
+        // Primer fix con destino elegido, o reintento tras un error
+        if (lastRequestRef.current === 0 || canRequest) {
+          requestRoute(position);
+        }
+        return;
+      }
+
+      const next = getRouteProgress(current, position);
+      setProgress(next);
+
+      const { rerouteThresholdMeters } = getSettings().routing;
+      if (next.offRouteMeters > rerouteThresholdMeters && canRequest) {
+        console.log(
+          `🔀 Fuera de ruta (${Math.round(next.offRouteMeters)} m), recalculando`
+        );
+        requestRoute(position);
+      }
+    },
+    [requestRoute]
+  );
+
+  return {
+    target,
+    route,
+    progress,
+    isLoading,
+    error,
+    setTarget,
+    clearTarget,
+    updatePosition,
+  };
+}
@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+
+import {
+  AppSettings,
+  getSettings,
+  loadSettings,
+  subscribeSettings,
+  updateSettings,
+} from '@/lib/settings';
+
+/**
+ * Configuración persistida de la app. Se actualiza en todas las pantallas
+ * que la usan cuando cualquiera de ellas la cambia.
+ */
+export function useSettings() {
+  const [settings, setSettings] = useState<AppSettings>(getSettings);
+
+  useEffect(() => {
+    const unsubscribe = subscribeSettings(setSettings);
+    loadSettings().then(setSettings);
+    return unsubscribe;
+  }, []);
+
+  return { settings, updateSettings };
+}
@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Socket } from 'socket.io-client';
+
+import type { LocationData } from '@/lib/locationTypes';
+import { getSettings } from '@/lib/settings';
+import {
+  createSosAlert,
+  deliverSosAlert,
+  loadActiveSosAlert,
+  parseSosAcknowledgement,
+  saveActiveSosAlert,
+  SosAlert,
+} from '@/lib/sos';
+
+interface SosContext {
+  socket: Socket | null;
+  vehicleId: string | null;
+  tripId?: string;
+  jobId?: string;
+}
+
+/**
+ * Alerta SOS del conductor. Se guarda en el dispositivo y queda activa hasta
+ * que despacho la confirma; sin conexión se reenvía al reconectar. Mientras
+ * dura la ráfaga el tracking envía a máxima frecuencia: `onBurstChange`
+ * avisa al empezar y al terminar para reconfigurar el GPS.
+ */
+export function useSos(
+  getContext: () => SosContext,
+  onBurstChange: (active: boolean) => void
+) {
+  const [alert, setAlert] = useState<SosAlert | null>(null);
+  const [burstUntil, setBurstUntil] = useState<number | null>(null);
+  const alertRef = useRef<SosAlert | null>(null);
+  const burstUntilRef = useRef<number | null>(null);
+  const burstTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const getContextRef = useRef(getContext);
+  const onBurstChangeRef = useRef(onBurstChange);
+
+  useEffect(() => {
+    getContextRef.current = getContext;
+    onBurstChangeRef.current = onBurstChange;
+  });
+
+  const applyAlert = (next: SosAlert | null) => {
+    alertRef.current = next;
+    setAlert(next);
+    saveActiveSosAlert(next).catch((error) => {
+      console.error('❌ Error guardando alerta SOS:', error);
+    });
+  };
+
+  const endBurst = useCallback(() => {
+    if (burstTimerRef.current) {
+      clearTimeout(burstTimerRef.current);
+      burstTimerRef.current = null;
+    }
+    if (burstUntilRef.current === null) return;
+    burstUntilRef.current = null;
+    setBurstUntil(null);
+    console.log('🛰️ Fin del envío a máxima frecuencia');
+    onBurstChangeRef.current(false);
+  }, []);
+
+  const startBurst = useCallback(
+    (until: number) => {
+      if (burstTimerRef.current) clearTimeout(burstTimerRef.current);
+      burstUntilRef.current = until;
+      setBurstUntil(until);
+      burstTimerRef.current = setTimeout(endBurst, until - Date.now());
+      onBurstChangeRef.current(true);
+    },
+    [endBurst]
+  );
+
+  useEffect(() => {
+    loadActiveSosAlert().then((stored) => {
+      if (!stored || alertRef.current) return;
+      alertRef.current = stored;
+      setAlert(stored);
+      // La ráfaga sigue si la app se reinició antes de que terminara
+      const until = Date.parse(stored.burstUntil);
+      if (until > Date.now()) startBurst(until);
+    });
+
+    return () => {
+      if (burstTimerRef.current) clearTimeout(burstTimerRef.current);
+    };
+  }, [startBurst]);
+
+  const isBurstActive = () =>
+    burstUntilRef.current !== null && Date.now() < burstUntilRef.current;
+
+  const deliver = async (socket: Socket, pending: SosAlert) => {
+    if (!(await deliverSosAlert(socket, pending))) return false;
+    // Despacho pudo confirmarla antes de que llegara el ack
+    const current = alertRef.current;
+    if (current?.id === pending.id && current.status === 'queued') {
+      applyAlert({ ...current, status: 'sent', sentAt: new Date().toISOString() });
+    }
+    return true;
+  };
+
+  // Dispara la alerta con el fix indicado y pasa a máxima frecuencia
+  const trigger = async (location: LocationData | null) => {
+    const { socket, vehicleId, tripId, jobId } = getContextRef.current();
+    const next = createSosAlert(
+      { vehicleId, tripId, jobId, location },
+      getSettings().sosBurstMinutes * 60000
+    );
+    applyAlert(next);
+    startBurst(Date.parse(next.burstUntil));
+    console.log('🚨 Alerta SOS disparada:', next);
+
+    const delivered = socket ? await deliver(socket, next) : false;
+    return { alert: next, delivered };
+  };
+
+  // Aviso de despacho recibido por el socket; true si era la alerta activa
+  const acknowledge = (raw: unknown) => {
+    const ack = parseSosAcknowledgement(raw);
+    const current = alertRef.current;
+    if (!ack || !current || current.id !== ack.alertId) return false;
+
+    applyAlert({
+      ...current,
+      status: 'acknowledged',
+      sentAt: current.sentAt ?? new Date().toISOString(),
+      acknowledgedAt: new Date().toISOString(),
+      acknowledgedBy: ack.acknowledgedBy,
+    });
+    return true;
+  };
+
+  // Reenvía la alerta si quedó sin confirmación del servidor
+  const flush = async (socket: Socket) => {
+    const current = alertRef.current;
+    if (current?.status !== 'queued') return;
+    if (await deliver(socket, current)) {
+      console.log('🚨 Alerta SOS reenviada');
+    }
+  };
+
+  // Solo se puede cerrar una vez que despacho la confirmó
+  const dismiss = () => {
+    if (alertRef.current?.status !== 'acknowledged') return;
+    applyAlert(null);
+    endBurst();
+  };
+
+  return {
+    alert,
+    burstUntil,
+    isBurstActive,
+    trigger,
+    acknowledge,
+    flush,
+    dismiss,
+  };
+}
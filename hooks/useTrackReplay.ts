@@ -0,0 +1,62 @@
+import { useEffect, useRef, useState } from 'react';
+
+import type { LocationData } from '@/lib/locationTypes';
+import type { ImportedTrack } from '@/lib/trackParsers';
+import {
+  createTrackReplay,
+  ReplayState,
+  TrackReplay,
+} from '@/lib/trackReplay';
+
+/**
+ * Reproducción de un recorrido importado. `onPoint` recibe cada punto con la
+ * hora actual y el recorrido al que pertenece; se lee de un ref para que
+ * siempre use el callback más reciente. El recorrido viaja con el punto porque
+ * el primero puede salir antes de que el estado `track` llegue al callback.
+ */
+export function useTrackReplay(
+  onPoint: (point: LocationData, index: number, track: ImportedTrack) => void
+) {
+  const [track, setTrack] = useState<ImportedTrack | null>(null);
+  const [replayState, setReplayState] = useState<ReplayState | null>(null);
+  const replayRef = useRef<TrackReplay | null>(null);
+  const onPointRef = useRef(onPoint);
+
+  useEffect(() => {
+    onPointRef.current = onPoint;
+  });
+
+  useEffect(() => {
+    return () => replayRef.current?.stop();
+  }, []);
+
+  const loadTrack = (next: ImportedTrack) => {
+    replayRef.current?.stop();
+    const replay = createTrackReplay(
+      next.points,
+      (point, index) => onPointRef.current(point, index, next),
+      setReplayState
+    );
+    replayRef.current = replay;
+    setTrack(next);
+    setReplayState(replay.getState());
+  };
+
+  const unloadTrack = () => {
+    replayRef.current?.stop();
+    replayRef.current = null;
+    setTrack(null);
+    setReplayState(null);
+  };
+
+  return {
+    track,
+    replayState,
+    loadTrack,
+    unloadTrack,
+    play: () => replayRef.current?.play(),
+    pause: () => replayRef.current?.pause(),
+    seek: (index: number) => replayRef.current?.seek(index),
+    setSpeed: (speed: number) => replayRef.current?.setSpeed(speed),
+  };
+}
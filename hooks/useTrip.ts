@@ -0,0 +1,93 @@
+import { useEffect, useRef, useState } from 'react';
+
+import type { LocationData } from '@/lib/locationTypes';
+import {
+  createTrip,
+  loadActiveTrip,
+  pauseTrip as pause,
+  resumeTrip as resume,
+  saveActiveTrip,
+  storeTripSummary,
+  summarizeTrip,
+  syncTripSummaries,
+  Trip,
+  TripSummary,
+} from '@/lib/trips';
+import { addFix } from '@/lib/tripStats';
+
+/**
+ * Ciclo de vida del viaje del conductor: iniciar, pausar, reanudar y terminar.
+ * El viaje activo se guarda en el dispositivo para sobrevivir reinicios.
+ */
+export function useTrip() {
+  const [trip, setTrip] = useState<Trip | null>(null);
+  // Los callbacks de ubicación se registran una sola vez, así que leen del ref
+  const tripRef = useRef<Trip | null>(null);
+
+  const updateTrip = (next: Trip | null) => {
+    tripRef.current = next;
+    setTrip(next);
+    saveActiveTrip(next).catch((error) => {
+      console.error('❌ Error guardando viaje activo:', error);
+    });
+  };
+
+  useEffect(() => {
+    loadActiveTrip().then((stored) => {
+      if (stored && !tripRef.current) {
+        tripRef.current = stored;
+        setTrip(stored);
+      }
+    });
+  }, []);
+
+  const startTrip = (vehicleId: string) => {
+    const next = createTrip(vehicleId);
+    updateTrip(next);
+    return next;
+  };
+
+  const pauseTrip = () => {
+    if (tripRef.current) updateTrip(pause(tripRef.current));
+  };
+
+  const resumeTrip = () => {
+    if (tripRef.current) updateTrip(resume(tripRef.current));
+  };
+
+  // Termina el viaje, guarda el resumen y lo envía al backend
+  const endTrip = async (): Promise<TripSummary | null> => {
+    const current = tripRef.current;
+    if (!current) return null;
+
+    const summary = summarizeTrip(current);
+    await storeTripSummary(summary);
+    updateTrip(null);
+
+    syncTripSummaries().catch((error) => {
+      console.error('❌ Error sincronizando resúmenes de viaje:', error);
+    });
+
+    return summary;
+  };
+
+  // Id del viaje para estampar en el payload; null si no hay viaje en curso
+  const getActiveTripId = () =>
+    tripRef.current?.status === 'active' ? tripRef.current.id : null;
+
+  const recordPoint = (point: LocationData) => {
+    const current = tripRef.current;
+    if (!current || current.status !== 'active') return;
+    updateTrip({ ...current, stats: addFix(current.stats, point) });
+  };
+
+  return {
+    trip,
+    startTrip,
+    pauseTrip,
+    resumeTrip,
+    endTrip,
+    getActiveTripId,
+    recordPoint,
+  };
+}
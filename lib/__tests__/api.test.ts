@@ -0,0 +1,40 @@
+// lib/__tests__/api.test.ts
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+
+import { api, ApiError } from "../api";
+
+const realFetch = globalThis.fetch;
+
+const respondWith = (status: number, text: string) => {
+  globalThis.fetch = async () => new Response(text || null, { status });
+};
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+describe("api: sobre de la respuesta", () => {
+  it("devuelve data y message", async () => {
+    respondWith(200, JSON.stringify({ data: { id: 7 }, message: "ok" }));
+    assert.deepEqual(await api.get<{ id: number }>("/x"), {
+      data: { id: 7 },
+      message: "ok",
+    });
+  });
+
+  it("una respuesta vacía llega como data null", async () => {
+    respondWith(204, "");
+    assert.deepEqual(await api.post("/x"), { data: null });
+  });
+
+  it("un cuerpo sin data es un error", async () => {
+    respondWith(200, JSON.stringify({ message: "ok" }));
+    await assert.rejects(api.get("/x"), ApiError);
+  });
+
+  it("un cuerpo que no es objeto es un error", async () => {
+    respondWith(200, "<html></html>");
+    await assert.rejects(api.get("/x"), ApiError);
+  });
+});
@@ -0,0 +1,61 @@
+// lib/__tests__/backgroundRelay.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { createBackgroundRelay } from "../backgroundRelay";
+import type { LocationData } from "../locationTypes";
+
+const fixAt = (seconds: number): LocationData => ({
+  latitude: 10.39,
+  longitude: -75.55,
+  timestamp: new Date(Date.UTC(2025, 0, 1, 8, 0, seconds)).toISOString(),
+});
+
+describe("createBackgroundRelay", () => {
+  it("retiene los fixes retomados hasta que carga el vehículo", () => {
+    const sent: LocationData[] = [];
+    const relay = createBackgroundRelay((location) => sent.push(location));
+
+    // Tras un reinicio la tarea entrega fixes antes de cargar el vehículo
+    relay.push([fixAt(0), fixAt(5)]);
+    assert.equal(sent.length, 0);
+    assert.equal(relay.pendingCount(), 2);
+
+    relay.setVehicle("truck-7");
+    assert.deepEqual(sent, [fixAt(0), fixAt(5)]);
+    assert.equal(relay.pendingCount(), 0);
+
+    relay.push([fixAt(10)]);
+    assert.deepEqual(sent, [fixAt(0), fixAt(5), fixAt(10)]);
+  });
+
+  it("vuelve a retener si se pierde el vehículo", () => {
+    const sent: LocationData[] = [];
+    const relay = createBackgroundRelay((location) => sent.push(location));
+
+    relay.setVehicle("truck-7");
+    relay.setVehicle(null);
+    relay.push([fixAt(0)]);
+    assert.equal(sent.length, 0);
+    assert.equal(relay.pendingCount(), 1);
+  });
+
+  it("conserva solo los más recientes al superar el límite", () => {
+    const sent: LocationData[] = [];
+    const relay = createBackgroundRelay((location) => sent.push(location), 2);
+
+    relay.push([fixAt(0), fixAt(5), fixAt(10)]);
+    relay.setVehicle("truck-7");
+    assert.deepEqual(sent, [fixAt(5), fixAt(10)]);
+  });
+
+  it("descarta lo retenido al limpiar", () => {
+    const sent: LocationData[] = [];
+    const relay = createBackgroundRelay((location) => sent.push(location));
+
+    relay.push([fixAt(0)]);
+    relay.clear();
+    relay.setVehicle("truck-7");
+    assert.equal(sent.length, 0);
+  });
+});
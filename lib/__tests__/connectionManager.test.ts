@@ -0,0 +1,123 @@
+// lib/__tests__/connectionManager.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  BackoffConfig,
+  createConnectionManager,
+  DEFAULT_BACKOFF_CONFIG,
+  describeConnection,
+  getBackoffDelay,
+} from "../connectionManager";
+
+const NO_JITTER: BackoffConfig = { ...DEFAULT_BACKOFF_CONFIG, jitter: 0 };
+
+describe("getBackoffDelay", () => {
+  it("duplica la espera en cada intento", () => {
+    assert.deepEqual(
+      [1, 2, 3, 4, 5].map((attempt) => getBackoffDelay(attempt, NO_JITTER)),
+      [1000, 2000, 4000, 8000, 16000],
+    );
+  });
+
+  it("no pasa del máximo", () => {
+    assert.equal(getBackoffDelay(7, NO_JITTER), 60000);
+    assert.equal(getBackoffDelay(50, NO_JITTER), 60000);
+  });
+
+  it("el intento 0 o negativo espera lo inicial", () => {
+    assert.equal(getBackoffDelay(0, NO_JITTER), 1000);
+    assert.equal(getBackoffDelay(-3, NO_JITTER), 1000);
+  });
+
+  it("el jitter reparte la espera alrededor de la base", () => {
+    const config = DEFAULT_BACKOFF_CONFIG;
+    assert.equal(
+      getBackoffDelay(3, config, () => 0),
+      2800,
+    );
+    assert.equal(
+      getBackoffDelay(3, config, () => 0.5),
+      4000,
+    );
+    assert.equal(
+      getBackoffDelay(3, config, () => 1),
+      5200,
+    );
+    // También con el tope aplicado
+    assert.equal(
+      getBackoffDelay(20, config, () => 1),
+      78000,
+    );
+  });
+});
+
+describe("createConnectionManager", () => {
+  const createManager = (getToken: () => Promise<string | null>) =>
+    createConnectionManager({
+      url: "http://127.0.0.1:9",
+      getToken,
+      refreshToken: async () => null,
+    });
+
+  it("sin red queda offline y no intenta conectar", async () => {
+    let tokenReads = 0;
+    const manager = createManager(async () => {
+      tokenReads += 1;
+      return null;
+    });
+    manager.setNetworkAvailable(false);
+    manager.connect();
+    await Promise.resolve();
+
+    assert.equal(manager.getSnapshot().state, "offline");
+    assert.equal(manager.getSnapshot().nextRetryAt, null);
+    assert.equal(tokenReads, 0);
+    manager.disconnect();
+  });
+
+  it("al volver la red intenta de inmediato", async () => {
+    let tokenReads = 0;
+    const manager = createManager(async () => {
+      tokenReads += 1;
+      return null;
+    });
+    manager.setNetworkAvailable(false);
+    manager.connect();
+    manager.setNetworkAvailable(true);
+    await Promise.resolve();
+
+    assert.equal(tokenReads, 1);
+    // Sin token no hay reintentos
+    assert.equal(manager.getSnapshot().state, "authFailed");
+    manager.disconnect();
+  });
+
+  it("desconectar vuelve al estado inicial y avisa a los suscriptores", () => {
+    const manager = createManager(async () => null);
+    const states: string[] = [];
+    const unsubscribe = manager.subscribe((snapshot) =>
+      states.push(snapshot.state),
+    );
+    manager.setNetworkAvailable(false);
+    manager.connect();
+    manager.disconnect();
+    unsubscribe();
+
+    assert.deepEqual(states, ["offline", "idle"]);
+    assert.equal(manager.getSocket(), null);
+  });
+});
+
+describe("describeConnection", () => {
+  it("muestra el número de intento al reconectar", () => {
+    const text = describeConnection({
+      state: "reconnecting",
+      attempt: 3,
+      nextRetryAt: null,
+      lastError: null,
+      hasConnected: true,
+    });
+    assert.match(text, /intento 3/);
+  });
+});
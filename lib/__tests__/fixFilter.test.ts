@@ -0,0 +1,102 @@
+// lib/__tests__/fixFilter.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  createFixFilterState,
+  DEFAULT_FIX_FILTER_CONFIG,
+  FixFilterConfig,
+  FixFilterState,
+  filterFix,
+} from "../fixFilter";
+import type { LocationData } from "../locationTypes";
+
+const START = Date.parse("2025-01-01T08:00:00.000Z");
+
+// Fix a `seconds` del inicio, desplazado `north` metros hacia el norte
+const fixAt = (seconds: number, north: number, accuracy = 5): LocationData => ({
+  latitude: 10.4 + north / 111320,
+  longitude: -75.5,
+  accuracy,
+  timestamp: new Date(START + seconds * 1000).toISOString(),
+});
+
+const run = (
+  fixes: LocationData[],
+  config: FixFilterConfig = DEFAULT_FIX_FILTER_CONFIG,
+) => {
+  let state: FixFilterState = createFixFilterState();
+  const results = fixes.map((fix) => {
+    const next = filterFix(state, fix, config);
+    state = next.state;
+    return next.result;
+  });
+  return { state, results };
+};
+
+describe("filterFix", () => {
+  it("acepta fixes precisos y creíbles", () => {
+    const { state, results } = run([fixAt(0, 0), fixAt(10, 100)]);
+    assert.ok(results.every((result) => result.accepted));
+    assert.equal(state.counters.accepted, 2);
+  });
+
+  it("descarta fixes imprecisos en modo drop", () => {
+    const { state, results } = run([fixAt(0, 0, 150)]);
+    assert.deepEqual(results[0], { accepted: false, reason: "accuracy" });
+    assert.equal(state.counters.rejectedAccuracy, 1);
+    assert.equal(state.lastAccepted, null);
+  });
+
+  it("marca los fixes imprecisos en modo flag", () => {
+    const { state, results } = run([fixAt(0, 0, 150)], {
+      ...DEFAULT_FIX_FILTER_CONFIG,
+      lowAccuracyMode: "flag",
+    });
+    const [result] = results;
+    assert.ok(result.accepted);
+    assert.equal(result.fix.lowAccuracy, true);
+    assert.equal(state.counters.flagged, 1);
+  });
+
+  it("rechaza saltos imposibles", () => {
+    // 2 km en 10 s: 200 m/s
+    const { state, results } = run([fixAt(0, 0), fixAt(10, 2000)]);
+    assert.deepEqual(results[1], { accepted: false, reason: "speed" });
+    assert.equal(state.counters.rejectedSpeed, 1);
+    assert.equal(state.lastAccepted?.timestamp, fixAt(0, 0).timestamp);
+  });
+
+  it("tolera el ruido dentro de la precisión reportada", () => {
+    // 60 m en 1 s, pero con ±40 m en cada fix
+    const { results } = run([fixAt(0, 0, 40), fixAt(1, 60, 40)]);
+    assert.ok(results[1].accepted);
+  });
+
+  it("acepta la nueva posición tras varios saltos seguidos", () => {
+    const { results, state } = run([
+      fixAt(0, 0),
+      fixAt(10, 5000),
+      fixAt(20, 5000),
+      fixAt(30, 5000),
+      fixAt(40, 5000),
+    ]);
+    assert.deepEqual(
+      results.map((result) => result.accepted),
+      [true, false, false, false, true],
+    );
+    assert.equal(state.consecutiveSpeedRejections, 0);
+  });
+
+  it("suaviza hacia la posición estimada con el Kalman", () => {
+    const config = { ...DEFAULT_FIX_FILTER_CONFIG, smoothing: true };
+    const { results } = run([fixAt(0, 0, 10), fixAt(1, 20, 10)], config);
+    const [first, second] = results;
+    assert.ok(first.accepted && second.accepted);
+    assert.equal(first.fix.latitude, fixAt(0, 0).latitude);
+    // Queda entre la estimación anterior y la medición
+    assert.ok(second.fix.latitude > fixAt(1, 0).latitude);
+    assert.ok(second.fix.latitude < fixAt(1, 20).latitude);
+    assert.ok((second.fix.accuracy ?? Infinity) < 10);
+  });
+});
@@ -0,0 +1,200 @@
+// lib/__tests__/geofences.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  evaluateGeofences,
+  Geofence,
+  GeofenceState,
+  isInsideGeofence,
+  keepUnknownGeofenceState,
+} from "../geofences";
+import type { LocationData } from "../locationTypes";
+
+const CONTEXT = { vehicleId: "truck-7" };
+
+const depot: Geofence = {
+  id: "api-depot",
+  name: "Base",
+  source: "api",
+  type: "circle",
+  center: { latitude: 10.4, longitude: -75.5 },
+  radiusMeters: 100,
+};
+
+const yard: Geofence = {
+  id: "local-yard",
+  name: "Patio",
+  source: "local",
+  type: "circle",
+  center: { latitude: 10.5, longitude: -75.5 },
+  radiusMeters: 100,
+};
+
+const fixAt = (
+  minutes: number,
+  latitude: number,
+  longitude = -75.5,
+): LocationData => ({
+  latitude,
+  longitude,
+  timestamp: new Date(Date.UTC(2025, 0, 1, 8, minutes)).toISOString(),
+});
+
+// Grados de latitud para una distancia en metros
+const north = (meters: number) => meters / 111320;
+
+// Polígono en forma de L: el cuadrante noreste queda fuera
+const lot: Geofence = {
+  id: "local-lot",
+  name: "Lote",
+  source: "local",
+  type: "polygon",
+  coordinates: [
+    { latitude: 10, longitude: -75 },
+    { latitude: 10, longitude: -74.99 },
+    { latitude: 10.005, longitude: -74.99 },
+    { latitude: 10.005, longitude: -74.995 },
+    { latitude: 10.01, longitude: -74.995 },
+    { latitude: 10.01, longitude: -75 },
+  ],
+};
+
+describe("isInsideGeofence", () => {
+  it("círculo: dentro hasta el radio", () => {
+    assert.ok(
+      isInsideGeofence(depot, { latitude: 10.4 + north(95), longitude: -75.5 }),
+    );
+    assert.ok(
+      !isInsideGeofence(depot, {
+        latitude: 10.4 + north(105),
+        longitude: -75.5,
+      }),
+    );
+  });
+
+  it("círculo: el margen agranda el radio", () => {
+    const point = { latitude: 10.4 + north(110), longitude: -75.5 };
+    assert.ok(!isInsideGeofence(depot, point));
+    assert.ok(isInsideGeofence(depot, point, 15));
+    assert.ok(!isInsideGeofence(depot, point, 5));
+  });
+
+  it("polígono cóncavo: distingue el hueco de la L", () => {
+    assert.ok(isInsideGeofence(lot, { latitude: 10.002, longitude: -74.992 }));
+    assert.ok(isInsideGeofence(lot, { latitude: 10.008, longitude: -74.998 }));
+    assert.ok(!isInsideGeofence(lot, { latitude: 10.008, longitude: -74.992 }));
+    assert.ok(!isInsideGeofence(lot, { latitude: 9.99, longitude: -74.995 }));
+  });
+
+  it("polígono: el margen cuenta la distancia al borde", () => {
+    const point = { latitude: 10 - north(10), longitude: -74.995 };
+    assert.ok(!isInsideGeofence(lot, point));
+    assert.ok(isInsideGeofence(lot, point, 15));
+    assert.ok(!isInsideGeofence(lot, point, 5));
+  });
+
+  it("polígono con menos de tres vértices nunca contiene", () => {
+    const line: Geofence = { ...lot, coordinates: lot.coordinates.slice(0, 2) };
+    assert.ok(
+      !isInsideGeofence(line, { latitude: 10, longitude: -74.995 }, 50),
+    );
+  });
+});
+
+describe("evaluateGeofences", () => {
+  it("entra al cruzar el radio y sale solo pasado el margen", () => {
+    const inside = evaluateGeofences(
+      {},
+      [depot],
+      fixAt(0, 10.4 + north(90)),
+      CONTEXT,
+    );
+    assert.deepEqual(
+      inside.events.map((e) => e.type),
+      ["enter"],
+    );
+
+    // Fuera del radio pero dentro del margen: sigue dentro, sin eventos
+    const edge = evaluateGeofences(
+      inside.state,
+      [depot],
+      fixAt(1, 10.4 + north(110)),
+      CONTEXT,
+    );
+    assert.deepEqual(edge.events, []);
+    assert.deepEqual(edge.state, inside.state);
+
+    const out = evaluateGeofences(
+      edge.state,
+      [depot],
+      fixAt(3, 10.4 + north(120)),
+      CONTEXT,
+    );
+    assert.deepEqual(
+      out.events.map((e) => e.type),
+      ["exit"],
+    );
+    assert.equal(out.events[0].dwellMs, 3 * 60 * 1000);
+    assert.deepEqual(out.state, {});
+  });
+});
+
+describe("keepUnknownGeofenceState", () => {
+  it("no repite la entrada si la descarga falló y luego funcionó", () => {
+    // Estado guardado antes del reinicio: dentro de la base del servidor
+    const restored: GeofenceState = { "api-depot": fixAt(0, 10.4).timestamp };
+
+    // Descarga fallida: solo se conocen las geocercas locales
+    const offline = evaluateGeofences(
+      restored,
+      [yard],
+      fixAt(5, 10.4),
+      CONTEXT,
+    );
+    assert.deepEqual(offline.events, []);
+    const kept = keepUnknownGeofenceState(restored, offline.state, [yard]);
+    assert.deepEqual(kept, restored);
+
+    // La lista del servidor llega con el vehículo todavía dentro
+    const online = evaluateGeofences(
+      kept,
+      [depot, yard],
+      fixAt(10, 10.4),
+      CONTEXT,
+    );
+    assert.deepEqual(online.events, []);
+    assert.deepEqual(online.state, restored);
+  });
+
+  it("detecta la salida ocurrida mientras la lista no estaba", () => {
+    const restored: GeofenceState = { "api-depot": fixAt(0, 10.4).timestamp };
+    const kept = keepUnknownGeofenceState(
+      restored,
+      evaluateGeofences(restored, [yard], fixAt(5, 10.45), CONTEXT).state,
+      [yard],
+    );
+
+    const { events, state } = evaluateGeofences(
+      kept,
+      [depot, yard],
+      fixAt(10, 10.45),
+      CONTEXT,
+    );
+    assert.equal(events.length, 1);
+    assert.equal(events[0].type, "exit");
+    assert.equal(events[0].dwellMs, 10 * 60 * 1000);
+    assert.deepEqual(state, {});
+  });
+
+  it("las geocercas conocidas siguen la evaluación", () => {
+    const previous: GeofenceState = { "local-yard": fixAt(0, 10.5).timestamp };
+    const { state } = evaluateGeofences(
+      previous,
+      [yard],
+      fixAt(5, 10.45),
+      CONTEXT,
+    );
+    assert.deepEqual(keepUnknownGeofenceState(previous, state, [yard]), {});
+  });
+});
@@ -0,0 +1,119 @@
+// lib/__tests__/historyRetention.test.ts
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import initSqlJs, { Database } from "sql.js";
+
+import { MIGRATIONS } from "../databaseSchema";
+import { pruneHistoryRows, RetentionDatabase } from "../historyRetention";
+import type { DeliveryState } from "../locationTypes";
+
+const NOW = Date.parse("2025-03-01T12:00:00.000Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysAgo = (days: number) => new Date(NOW - days * DAY_MS).toISOString();
+
+// Misma base que en la app, en memoria con sql.js
+const openDatabase = async () => {
+  const SQL = await initSqlJs();
+  const raw = new SQL.Database();
+  MIGRATIONS.forEach((migration) => raw.exec(migration));
+
+  const db: RetentionDatabase = {
+    runAsync: async (source, ...params) => {
+      raw.run(source, params);
+      return { changes: raw.getRowsModified() };
+    },
+    withTransactionAsync: async (task) => {
+      raw.exec("BEGIN");
+      try {
+        await task();
+        raw.exec("COMMIT");
+      } catch (error) {
+        raw.exec("ROLLBACK");
+        throw error;
+      }
+    },
+  };
+  return { raw, db };
+};
+
+const insertLocation = (
+  raw: Database,
+  clientId: string,
+  timestamp: string,
+  deliveryState: DeliveryState,
+  tripId: string | null = null,
+) =>
+  raw.run(
+    `INSERT INTO locations (
+      client_id, vehicle_id, trip_id, type, latitude, longitude, timestamp,
+      delivery_state
+    ) VALUES (?, 'truck-7', ?, 'auto', 10.4, -75.5, ?, ?)`,
+    [clientId, tripId, timestamp, deliveryState],
+  );
+
+const insertTrip = (
+  raw: Database,
+  id: string,
+  endedAt: string,
+  synced: boolean,
+) =>
+  raw.run(
+    `INSERT INTO trips (
+      id, vehicle_id, started_at, ended_at, duration_ms, distance_m,
+      moving_ms, idle_ms, max_speed, avg_speed, mean_accuracy, point_count,
+      synced
+    ) VALUES (?, 'truck-7', ?, ?, 0, 0, 0, 0, 0, 0, 0, 0, ?)`,
+    [id, endedAt, endedAt, synced ? 1 : 0],
+  );
+
+const ids = (raw: Database, table: "locations" | "trips") => {
+  const column = table === "locations" ? "client_id" : "id";
+  const [result] = raw.exec(`SELECT ${column} FROM ${table} ORDER BY 1`);
+  return result ? result.values.map(([id]) => String(id)) : [];
+};
+
+describe("pruneHistoryRows", () => {
+  let raw: Database;
+  let db: RetentionDatabase;
+
+  beforeEach(async () => {
+    ({ raw, db } = await openDatabase());
+  });
+
+  it("borra confirmadas y rechazadas antiguas, conserva las pendientes", async () => {
+    insertLocation(raw, "old-acked", daysAgo(10), "acked");
+    insertLocation(raw, "old-failed", daysAgo(10), "failed");
+    insertLocation(raw, "old-pending", daysAgo(10), "pending");
+    insertLocation(raw, "new-acked", daysAgo(1), "acked");
+    insertLocation(raw, "new-failed", daysAgo(1), "failed");
+
+    const deleted = await pruneHistoryRows(db, 7, NOW);
+
+    assert.equal(deleted, 2);
+    assert.deepEqual(ids(raw, "locations"), [
+      "new-acked",
+      "new-failed",
+      "old-pending",
+    ]);
+  });
+
+  it("conserva los viajes sin sincronizar y sus ubicaciones", async () => {
+    insertTrip(raw, "synced", daysAgo(10), true);
+    insertTrip(raw, "unsynced", daysAgo(10), false);
+    insertLocation(raw, "synced-point", daysAgo(10), "acked", "synced");
+    insertLocation(raw, "unsynced-point", daysAgo(10), "acked", "unsynced");
+
+    const deleted = await pruneHistoryRows(db, 7, NOW);
+
+    assert.equal(deleted, 2);
+    assert.deepEqual(ids(raw, "trips"), ["unsynced"]);
+    assert.deepEqual(ids(raw, "locations"), ["unsynced-point"]);
+  });
+
+  it("con retención 0 no borra nada", async () => {
+    insertLocation(raw, "old-acked", daysAgo(400), "acked");
+    assert.equal(await pruneHistoryRows(db, 0, NOW), 0);
+    assert.deepEqual(ids(raw, "locations"), ["old-acked"]);
+  });
+});
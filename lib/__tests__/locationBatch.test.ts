@@ -0,0 +1,157 @@
+// lib/__tests__/locationBatch.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Socket } from "socket.io-client";
+
+import {
+  createLocationBatcher,
+  DEFAULT_BATCHING_CONFIG,
+} from "../locationBatcher";
+import {
+  emitLocationBatchWithAck,
+  encodeLocationBatch,
+  LocationBatchAck,
+  LocationRejectedError,
+} from "../locationDelivery";
+import type { OutboxEntry } from "../locationOutbox";
+import type { LocationPayload } from "../locationTypes";
+
+const START = Date.parse("2025-01-01T08:00:00.000Z");
+
+const payloadAt = (
+  id: string,
+  seconds: number,
+  extra: Partial<LocationPayload> = {},
+): LocationPayload => ({
+  clientId: id,
+  vehicleId: "truck-7",
+  latitude: 10.3910485,
+  longitude: -75.4794257,
+  timestamp: new Date(START + seconds * 1000).toISOString(),
+  ...extra,
+});
+
+// Socket mínimo: responde cada emisión con el siguiente ack de la lista;
+// un Error simula el timeout
+const fakeSocket = (acks: (LocationBatchAck | Error)[]) => {
+  const emitted: unknown[] = [];
+  const socket = {
+    connected: true,
+    timeout: () => ({
+      emitWithAck: async (_event: string, batch: unknown) => {
+        emitted.push(batch);
+        const ack = acks.shift();
+        if (ack instanceof Error) throw ack;
+        return ack;
+      },
+    }),
+  };
+  return { socket: socket as unknown as Socket, emitted };
+};
+
+describe("encodeLocationBatch", () => {
+  it("usa claves cortas, micro-grados y tiempos relativos", () => {
+    const batch = encodeLocationBatch([
+      payloadAt("a", 5, { accuracy: 4.56, speed: 12.34, heading: 90.04 }),
+      payloadAt("b", 0, { tripId: "trip-1", lowAccuracy: true }),
+    ]);
+
+    assert.equal(batch.v, "truck-7");
+    assert.equal(batch.t0, START);
+    assert.deepEqual(batch.p[0], {
+      id: "a",
+      la: 10391049,
+      lo: -75479426,
+      dt: 5000,
+      ac: 4.6,
+      sp: 12.3,
+      hd: 90,
+      tr: undefined,
+      lq: undefined,
+      v: undefined,
+    });
+    assert.equal(batch.p[1].dt, 0);
+    assert.equal(batch.p[1].tr, "trip-1");
+    assert.equal(batch.p[1].lq, true);
+  });
+
+  it("solo repite el vehículo cuando difiere del lote", () => {
+    const batch = encodeLocationBatch([
+      payloadAt("a", 0),
+      payloadAt("b", 1, { vehicleId: "truck-8" }),
+    ]);
+    assert.equal(batch.p[0].v, undefined);
+    assert.equal(batch.p[1].v, "truck-8");
+  });
+});
+
+describe("emitLocationBatchWithAck", () => {
+  const options = { timeoutMs: 10, retries: 1 };
+
+  it("separa confirmadas y rechazadas según el ack", async () => {
+    const { socket } = fakeSocket([
+      {
+        status: "ok",
+        results: [{ clientId: "b", status: "error", message: "fuera de zona" }],
+      },
+    ]);
+    const result = await emitLocationBatchWithAck(
+      socket,
+      [payloadAt("a", 0), payloadAt("b", 1)],
+      options,
+    );
+    assert.deepEqual(result, {
+      acked: ["a"],
+      rejected: [{ clientId: "b", message: "fuera de zona" }],
+    });
+  });
+
+  it("reintenta el mismo lote tras un timeout", async () => {
+    const { socket, emitted } = fakeSocket([new Error("timeout"), {}]);
+    const result = await emitLocationBatchWithAck(
+      socket,
+      [payloadAt("a", 0)],
+      options,
+    );
+    assert.deepEqual(result.acked, ["a"]);
+    assert.equal(emitted.length, 2);
+    assert.deepEqual(emitted[0], emitted[1]);
+  });
+
+  it("no reintenta un lote rechazado", async () => {
+    const { socket, emitted } = fakeSocket([
+      { status: "error", message: "sin permiso" },
+    ]);
+    await assert.rejects(
+      emitLocationBatchWithAck(socket, [payloadAt("a", 0)], options),
+      LocationRejectedError,
+    );
+    assert.equal(emitted.length, 1);
+  });
+});
+
+describe("createLocationBatcher", () => {
+  const entry = (payload: LocationPayload): OutboxEntry => ({
+    payload,
+    type: "auto",
+  });
+
+  it("envía al llegar a maxPoints y separa por vehículo", async () => {
+    const sent: string[][] = [];
+    const batcher = createLocationBatcher(
+      async (entries) => {
+        sent.push(entries.map((e) => e.payload.clientId));
+      },
+      () => ({ ...DEFAULT_BATCHING_CONFIG, enabled: true, maxPoints: 2 }),
+    );
+
+    batcher.add(entry(payloadAt("a", 0)));
+    batcher.add(entry(payloadAt("b", 1)));
+    batcher.add(entry(payloadAt("c", 2)));
+    batcher.add(entry(payloadAt("d", 3, { vehicleId: "truck-8" })));
+    assert.equal(batcher.size(), 1);
+    await batcher.flush();
+
+    assert.deepEqual(sent, [["a", "b"], ["c"], ["d"]]);
+  });
+});
@@ -0,0 +1,109 @@
+// lib/__tests__/motionSampler.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { LocationData } from "../locationTypes";
+import {
+  createSamplerState,
+  SamplerState,
+  sampleFix,
+  SamplingRules,
+} from "../motionSampler";
+
+const START = Date.parse("2025-01-01T08:00:00.000Z");
+
+// Mismos valores que el preset "balanced"
+const RULES: SamplingRules = {
+  rates: {
+    stationary: {
+      minIntervalMs: 30000,
+      maxIntervalMs: 120000,
+      distanceMeters: 50,
+    },
+    moving: { minIntervalMs: 5000, maxIntervalMs: 30000, distanceMeters: 30 },
+    fast: { minIntervalMs: 3000, maxIntervalMs: 15000, distanceMeters: 100 },
+  },
+  headingChangeDegrees: 30,
+};
+
+const fixAt = (
+  seconds: number,
+  north: number,
+  extra: Partial<LocationData> = {},
+): LocationData => ({
+  latitude: 10.4 + north / 111320,
+  longitude: -75.5,
+  timestamp: new Date(START + seconds * 1000).toISOString(),
+  ...extra,
+});
+
+const run = (fixes: LocationData[], rules = RULES) => {
+  let state: SamplerState = createSamplerState();
+  const samples = fixes.map((fix) => {
+    const next = sampleFix(state, fix, rules);
+    state = next.state;
+    return next.sample;
+  });
+  return { state, samples };
+};
+
+describe("sampleFix", () => {
+  it("envía siempre el primer fix", () => {
+    assert.deepEqual(run([fixAt(0, 0)]).samples, [true]);
+  });
+
+  it("descarta duplicados de la suscripción y el latido", () => {
+    const { samples } = run([
+      fixAt(0, 0, { speed: 10 }),
+      fixAt(0.5, 100, { speed: 10 }),
+    ]);
+    assert.deepEqual(samples, [true, false]);
+  });
+
+  it("espera el intervalo mínimo aunque haya desplazamiento", () => {
+    const { samples } = run([
+      fixAt(0, 0, { speed: 8 }),
+      fixAt(2, 40, { speed: 8 }),
+      fixAt(6, 48, { speed: 8 }),
+    ]);
+    assert.deepEqual(samples, [true, false, true]);
+  });
+
+  it("pasado el mínimo envía por distancia o por giro", () => {
+    const { samples } = run([
+      fixAt(0, 0, { speed: 2, heading: 0 }),
+      // 10 m sin girar: no
+      fixAt(6, 10, { speed: 2, heading: 5 }),
+      // 12 m pero con giro de 90°
+      fixAt(12, 12, { speed: 2, heading: 90 }),
+    ]);
+    assert.deepEqual(samples, [true, false, true]);
+  });
+
+  it("envía el latido al cumplirse el intervalo máximo", () => {
+    const { samples } = run([
+      fixAt(0, 0, { speed: 2 }),
+      fixAt(29, 1, { speed: 2 }),
+      fixAt(30, 2, { speed: 2 }),
+    ]);
+    assert.deepEqual(samples, [true, false, true]);
+  });
+
+  it("clasifica el movimiento por velocidad", () => {
+    assert.equal(run([fixAt(0, 0, { speed: 20 })]).state.motion, "fast");
+    assert.equal(run([fixAt(0, 0, { speed: 5 })]).state.motion, "moving");
+  });
+
+  it("pasa a detenido tras un minuto lento", () => {
+    const { state } = run([
+      fixAt(0, 0, { speed: 0 }),
+      fixAt(30, 0, { speed: 0 }),
+      fixAt(60, 0, { speed: 0 }),
+    ]);
+    assert.equal(state.motion, "stationary");
+
+    // Al acelerar vuelve a moverse de inmediato
+    const moving = sampleFix(state, fixAt(65, 100, { speed: 10 }), RULES);
+    assert.equal(moving.state.motion, "moving");
+  });
+});
@@ -0,0 +1,72 @@
+// lib/__tests__/routing.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { Coordinate } from "../geo";
+import { getRouteProgress, PlannedRoute } from "../routing";
+
+const METERS_PER_DEGREE = 111320;
+
+// Ruta en L cerca del ecuador: 1000 m al norte y 1000 m al este
+const route: PlannedRoute = {
+  coordinates: [
+    { latitude: 0, longitude: 0 },
+    { latitude: 1000 / METERS_PER_DEGREE, longitude: 0 },
+    { latitude: 1000 / METERS_PER_DEGREE, longitude: 1000 / METERS_PER_DEGREE },
+  ],
+  distanceMeters: 2000,
+  durationSeconds: 200,
+  fetchedAt: "2025-01-01T08:00:00.000Z",
+};
+
+const at = (northMeters: number, eastMeters: number): Coordinate => ({
+  latitude: northMeters / METERS_PER_DEGREE,
+  longitude: eastMeters / METERS_PER_DEGREE,
+});
+
+const assertClose = (actual: number, expected: number, tolerance = 1) =>
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `${actual} no está cerca de ${expected}`,
+  );
+
+describe("getRouteProgress", () => {
+  it("al inicio falta toda la ruta", () => {
+    const progress = getRouteProgress(route, at(0, 0));
+    assertClose(progress.remainingMeters, 2000);
+    assertClose(progress.remainingSeconds, 200, 0.1);
+    assertClose(progress.offRouteMeters, 0);
+  });
+
+  it("proyecta sobre el tramo actual", () => {
+    const progress = getRouteProgress(route, at(500, 0));
+    assertClose(progress.remainingMeters, 1500);
+    assertClose(progress.remainingSeconds, 150, 0.1);
+  });
+
+  it("mide la distancia fuera de ruta", () => {
+    const progress = getRouteProgress(route, at(1040, 500));
+    assertClose(progress.remainingMeters, 500);
+    assertClose(progress.offRouteMeters, 40);
+  });
+
+  it("antes del inicio no suma distancia de más", () => {
+    const progress = getRouteProgress(route, at(-100, 0));
+    assertClose(progress.remainingMeters, 2000);
+    assertClose(progress.offRouteMeters, 100);
+  });
+
+  it("al final no falta nada", () => {
+    const progress = getRouteProgress(route, at(1000, 1000));
+    assertClose(progress.remainingMeters, 0);
+    assertClose(progress.remainingSeconds, 0, 0.1);
+  });
+
+  it("ruta de un solo punto: solo la distancia a ese punto", () => {
+    const single = { ...route, coordinates: [at(0, 0)] };
+    const progress = getRouteProgress(single, at(300, 0));
+    assert.equal(progress.remainingMeters, 0);
+    assert.equal(progress.remainingSeconds, 0);
+    assertClose(progress.offRouteMeters, 300);
+  });
+});
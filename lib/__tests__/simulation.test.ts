@@ -0,0 +1,103 @@
+// lib/__tests__/simulation.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { distanceBetween } from "../geo";
+import { BUILT_IN_REGIONS, getRegionRoutes } from "../regions";
+import {
+  createRng,
+  SIMULATION_SCENARIOS,
+  simulateRoute,
+  SimulationScenario,
+} from "../simulation";
+
+const START = Date.parse("2025-01-01T08:00:00.000Z");
+const ROUTE = getRegionRoutes(BUILT_IN_REGIONS[0])[0];
+
+const scenario = (id: string): SimulationScenario => {
+  const found = SIMULATION_SCENARIOS.find((item) => item.id === id);
+  assert.ok(found, `escenario ${id}`);
+  return found;
+};
+
+describe("createRng", () => {
+  it("repite la secuencia con la misma semilla", () => {
+    const a = createRng("bocagrande-1");
+    const b = createRng("bocagrande-1");
+    for (let i = 0; i < 100; i++) {
+      assert.equal(a.next(), b.next());
+    }
+  });
+
+  it("genera valores en [0, 1)", () => {
+    const rng = createRng(42);
+    for (let i = 0; i < 1000; i++) {
+      const value = rng.next();
+      assert.ok(value >= 0 && value < 1);
+    }
+  });
+});
+
+describe("simulateRoute", () => {
+  it("produce los mismos puntos con la misma semilla", () => {
+    for (const item of SIMULATION_SCENARIOS) {
+      const first = simulateRoute(ROUTE, item, { seed: 7, startTime: START });
+      const second = simulateRoute(ROUTE, item, { seed: 7, startTime: START });
+      assert.deepEqual(first, second);
+    }
+  });
+
+  it("produce puntos distintos con otra semilla", () => {
+    const first = simulateRoute(ROUTE, scenario("free-flow"), {
+      seed: 7,
+      startTime: START,
+    });
+    const second = simulateRoute(ROUTE, scenario("free-flow"), {
+      seed: 8,
+      startTime: START,
+    });
+    assert.notDeepEqual(first, second);
+  });
+
+  it("mantiene velocidad, rumbo y precisión dentro de rango", () => {
+    for (const item of SIMULATION_SCENARIOS) {
+      const points = simulateRoute(ROUTE, item, { seed: 3, startTime: START });
+      assert.ok(points.length > 1);
+      // Variación del conductor y ruido del GPS sobre la velocidad de crucero
+      const maxSpeed = item.cruiseSpeedMps * 1.5 + 1;
+
+      points.forEach((point, index) => {
+        assert.ok(point.speed !== undefined);
+        assert.ok(point.speed >= 0 && point.speed <= maxSpeed);
+        if (point.heading !== undefined) {
+          assert.ok(point.heading >= 0 && point.heading < 360);
+        }
+        assert.ok(point.accuracy !== undefined && point.accuracy > 0);
+        assert.equal(
+          Date.parse(point.timestamp),
+          START + index * item.sampleIntervalMs
+        );
+      });
+    }
+  });
+
+  it("sigue la ruta hasta el último punto de paso", () => {
+    const end = ROUTE.waypoints[ROUTE.waypoints.length - 1];
+    for (const item of SIMULATION_SCENARIOS) {
+      const points = simulateRoute(ROUTE, item, { seed: 11, startTime: START });
+      const last = points[points.length - 1];
+      // Solo queda el ruido del GPS: la deriva se disipa fuera de su tramo
+      assert.ok(distanceBetween(last, end) < (last.accuracy ?? 0) * 2 + 5);
+    }
+  });
+
+  it("no genera puntos para una ruta sin tramos", () => {
+    const start = ROUTE.waypoints[0];
+    const points = simulateRoute(
+      { id: "fija", name: "Fija", waypoints: [start, start] },
+      scenario("free-flow"),
+      { seed: 1, startTime: START }
+    );
+    assert.deepEqual(points, []);
+  });
+});
@@ -0,0 +1,94 @@
+// lib/__tests__/trackFormats.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { HistoryPoint } from "../locationHistory";
+import { toCsv, toGeoJson, toGpx } from "../trackFormats";
+import type { TripSummary } from "../trips";
+
+const SUMMARY: TripSummary = {
+  tripId: "trip-<1>&'2'",
+  vehicleId: 'truck "7"',
+  startedAt: "2025-01-01T08:00:00.000Z",
+  endedAt: "2025-01-01T08:10:00.000Z",
+  durationMs: 600000,
+  distanceMeters: 1234,
+  movingMs: 500000,
+  idleMs: 100000,
+  maxSpeed: 12,
+  avgSpeed: 8,
+  meanAccuracy: 5,
+  pointCount: 2,
+  synced: false,
+};
+
+const point = (
+  clientId: string,
+  extra: Partial<HistoryPoint> = {},
+): HistoryPoint => ({
+  clientId,
+  vehicleId: "truck-7",
+  tripId: SUMMARY.tripId,
+  type: "auto",
+  deliveryState: "acked",
+  latitude: 10.391049,
+  longitude: -75.479426,
+  timestamp: "2025-01-01T08:00:00.000Z",
+  ...extra,
+});
+
+describe("toGpx", () => {
+  it("escapa los nombres del viaje", () => {
+    const gpx = toGpx(SUMMARY, [point("a")]);
+    assert.ok(gpx.includes("<name>trip-&lt;1&gt;&amp;&apos;2&apos;</name>"));
+    assert.ok(gpx.includes("truck &quot;7&quot;"));
+    assert.ok(!gpx.includes("<1>"));
+  });
+
+  it("incluye los campos opcionales solo si existen", () => {
+    const gpx = toGpx(SUMMARY, [
+      point("a", { accuracy: 4.5, speed: 10, heading: 90 }),
+      point("b"),
+    ]);
+    const [withFields, withoutFields] = gpx.split("</trkpt>");
+    assert.ok(withFields.includes("<loc:accuracy>4.5</loc:accuracy>"));
+    assert.ok(withFields.includes("<loc:heading>90</loc:heading>"));
+    assert.ok(!withoutFields.includes("<loc:accuracy>"));
+    assert.ok(withoutFields.includes("<loc:type>auto</loc:type>"));
+  });
+});
+
+describe("toGeoJson", () => {
+  it("genera la línea del recorrido y un punto por ubicación", () => {
+    const geoJson = JSON.parse(
+      toGeoJson(SUMMARY, [point("a"), point("b", { speed: 3 })]),
+    );
+    const [line, ...points] = geoJson.features;
+    assert.equal(line.geometry.type, "LineString");
+    assert.deepEqual(line.geometry.coordinates[0], [-75.479426, 10.391049]);
+    assert.equal(line.properties.name.startsWith('truck "7"'), true);
+    assert.equal(points.length, 2);
+    assert.equal(points[0].properties.speed, null);
+    assert.equal(points[1].properties.speed, 3);
+  });
+});
+
+describe("toCsv", () => {
+  it("escribe cabecera, celdas vacías y termina en salto de línea", () => {
+    const csv = toCsv([point("a", { accuracy: 5 })]);
+    assert.equal(
+      csv,
+      "latitude,longitude,timestamp,accuracy,speed,heading,type\n" +
+        "10.391049,-75.479426,2025-01-01T08:00:00.000Z,5,,,auto\n",
+    );
+  });
+
+  it("entrecomilla valores con comas, comillas o saltos de línea", () => {
+    const csv = toCsv([
+      point("a", { type: 'manual,"x"\ny' as HistoryPoint["type"] }),
+    ]);
+    const [, row] = csv.split("\n", 2);
+    assert.ok(row.endsWith(',"manual,""x""'));
+    assert.ok(csv.includes('y"\n'));
+  });
+});
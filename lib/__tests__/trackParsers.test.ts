@@ -0,0 +1,138 @@
+// lib/__tests__/trackParsers.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { HistoryPoint } from "../locationHistory";
+import { toGeoJson, toGpx } from "../trackFormats";
+import {
+  parseGeoJson,
+  parseGpx,
+  parseTrackFile,
+  TrackImportError,
+} from "../trackParsers";
+import type { TripSummary } from "../trips";
+
+const SUMMARY: TripSummary = {
+  tripId: "viaje <norte> & sur",
+  vehicleId: "truck-7",
+  startedAt: "2025-01-01T08:00:00.000Z",
+  endedAt: "2025-01-01T08:00:20.000Z",
+  durationMs: 20000,
+  distanceMeters: 300,
+  movingMs: 20000,
+  idleMs: 0,
+  maxSpeed: 15,
+  avgSpeed: 15,
+  meanAccuracy: 5,
+  pointCount: 3,
+  synced: true,
+};
+
+const POINTS: HistoryPoint[] = [0, 10, 20].map((seconds, index) => ({
+  clientId: `p${index}`,
+  vehicleId: "truck-7",
+  tripId: SUMMARY.tripId,
+  type: "auto",
+  deliveryState: "acked",
+  latitude: 10.391049 + index * 0.001,
+  longitude: -75.479426,
+  timestamp: new Date(Date.UTC(2025, 0, 1, 8, 0, seconds)).toISOString(),
+  accuracy: 4.5,
+  speed: index === 1 ? undefined : 15,
+  heading: 0.5,
+}));
+
+// Lo que debería volver al importar lo exportado
+const expected = POINTS.map(
+  ({ latitude, longitude, timestamp, accuracy, speed, heading }) => ({
+    latitude,
+    longitude,
+    timestamp,
+    accuracy,
+    speed,
+    heading,
+  }),
+);
+
+describe("ida y vuelta exportar → importar", () => {
+  it("GPX conserva puntos, horas, campos opcionales y nombre", () => {
+    const track = parseTrackFile("viaje.gpx", toGpx(SUMMARY, POINTS));
+    assert.equal(track.name, SUMMARY.tripId);
+    assert.equal(track.synthesizedTimes, false);
+    assert.deepEqual(track.points, expected);
+  });
+
+  it("GeoJSON conserva puntos, horas y campos opcionales", () => {
+    const track = parseTrackFile("viaje.geojson", toGeoJson(SUMMARY, POINTS));
+    assert.equal(track.synthesizedTimes, false);
+    assert.deepEqual(track.points, expected);
+  });
+});
+
+describe("parseGpx", () => {
+  it("usa puntos de ruta si no hay de track y estima las horas", () => {
+    const track = parseGpx(`<?xml version="1.0"?>
+      <gpx><rte><name>Ruta</name>
+        <rtept lat="10.39" lon="-75.48"/>
+        <rtept lat="10.40" lon="-75.48"></rtept>
+      </rte></gpx>`);
+    assert.equal(track.name, "Ruta");
+    assert.equal(track.synthesizedTimes, true);
+    assert.equal(track.points.length, 2);
+    // ~1.1 km a 10 m/s
+    const gap =
+      Date.parse(track.points[1].timestamp) -
+      Date.parse(track.points[0].timestamp);
+    assert.ok(gap > 100000 && gap < 120000);
+  });
+
+  it("falla sin puntos", () => {
+    assert.throws(() => parseGpx("<gpx></gpx>"), TrackImportError);
+  });
+});
+
+describe("parseGeoJson", () => {
+  it("lee LineString con coordTimes", () => {
+    const track = parseGeoJson(
+      JSON.stringify({
+        type: "Feature",
+        properties: {
+          name: "Línea",
+          coordTimes: ["2025-01-01T08:00:00Z", "2025-01-01T08:00:05Z"],
+        },
+        geometry: {
+          type: "LineString",
+          coordinates: [
+            [-75.48, 10.39],
+            [-75.48, 10.391],
+          ],
+        },
+      }),
+    );
+    assert.equal(track.name, "Línea");
+    assert.deepEqual(
+      track.points.map((p) => p.timestamp),
+      ["2025-01-01T08:00:00.000Z", "2025-01-01T08:00:05.000Z"],
+    );
+  });
+
+  it("falla con JSON inválido", () => {
+    assert.throws(() => parseGeoJson("{"), TrackImportError);
+  });
+});
+
+describe("parseTrackFile", () => {
+  it("ordena los puntos por hora", () => {
+    const shuffled = [POINTS[2], POINTS[0], POINTS[1]];
+    const track = parseTrackFile("x.gpx", toGpx(SUMMARY, shuffled));
+    assert.deepEqual(
+      track.points.map((p) => p.timestamp),
+      POINTS.map((p) => p.timestamp),
+    );
+  });
+
+  it("detecta GPX por contenido sin extensión", () => {
+    const track = parseTrackFile("recorrido", toGpx(SUMMARY, POINTS));
+    assert.equal(track.points.length, 3);
+  });
+});
@@ -0,0 +1,137 @@
+// lib/__tests__/tripStats.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { distanceBetween } from "../geo";
+import type { LocationData } from "../locationTypes";
+import {
+  addFix,
+  createTripStats,
+  getMeanAccuracy,
+  TripStats,
+} from "../tripStats";
+
+const START = Date.parse("2025-01-01T08:00:00.000Z");
+
+// Fix a `seconds` del inicio, desplazado `north` metros hacia el norte
+const fixAt = (
+  seconds: number,
+  north: number,
+  extra: Partial<LocationData> = {}
+): LocationData => ({
+  latitude: -33.45 + north / 111320,
+  longitude: -70.66,
+  timestamp: new Date(START + seconds * 1000).toISOString(),
+  ...extra,
+});
+
+const run = (fixes: LocationData[]): TripStats =>
+  fixes.reduce((stats, fix) => addFix(stats, fix), createTripStats());
+
+describe("addFix", () => {
+  it("devuelve un resumen vacío sin fixes", () => {
+    const stats = createTripStats();
+    assert.equal(stats.pointCount, 0);
+    assert.equal(stats.distanceMeters, 0);
+    assert.equal(stats.movingMs + stats.idleMs, 0);
+    assert.equal(getMeanAccuracy(stats), 0);
+  });
+
+  it("con un solo fix no suma distancia ni tiempo", () => {
+    const stats = run([fixAt(0, 0, { accuracy: 8, speed: 3 })]);
+    assert.equal(stats.pointCount, 1);
+    assert.equal(stats.distanceMeters, 0);
+    assert.equal(stats.movingMs + stats.idleMs, 0);
+    assert.equal(stats.maxSpeed, 3);
+    assert.equal(getMeanAccuracy(stats), 8);
+  });
+
+  it("suma la distancia recorrida e ignora el ruido GPS", () => {
+    const fixes = [
+      fixAt(0, 0, { accuracy: 10 }),
+      // Oscilaciones dentro de la mitad de la precisión: ruido
+      fixAt(5, 3, { accuracy: 10 }),
+      fixAt(10, -2, { accuracy: 10 }),
+      fixAt(15, 4, { accuracy: 10 }),
+      fixAt(20, 100, { accuracy: 10 }),
+      fixAt(25, 200, { accuracy: 10 }),
+    ];
+    const stats = run(fixes);
+    const expected = distanceBetween(fixes[0], fixes[5]);
+    assert.ok(Math.abs(stats.distanceMeters - expected) < 0.01);
+  });
+
+  it("ignora el ruido aunque supere el mínimo si la precisión es mala", () => {
+    const stats = run([
+      fixAt(0, 0, { accuracy: 60 }),
+      fixAt(5, 20, { accuracy: 60 }),
+      fixAt(10, -15, { accuracy: 60 }),
+    ]);
+    assert.equal(stats.distanceMeters, 0);
+  });
+
+  it("calcula la precisión media de los fixes que la reportan", () => {
+    const stats = run([
+      fixAt(0, 0, { accuracy: 5 }),
+      fixAt(5, 50, { accuracy: 15 }),
+      fixAt(10, 100),
+      fixAt(15, 150, { accuracy: 10 }),
+    ]);
+    assert.equal(getMeanAccuracy(stats), 10);
+  });
+
+  it("separa tiempo en movimiento y detenido según la velocidad", () => {
+    const stats = run([
+      fixAt(0, 0, { speed: 0 }),
+      fixAt(10, 100, { speed: 10 }),
+      fixAt(20, 200, { speed: 10 }),
+      fixAt(50, 200, { speed: 0 }),
+    ]);
+    assert.equal(stats.movingMs, 20_000);
+    assert.equal(stats.idleMs, 30_000);
+    assert.equal(stats.maxSpeed, 10);
+  });
+
+  it("sin velocidad reportada la deriva del desplazamiento", () => {
+    const stats = run([fixAt(0, 0), fixAt(10, 100), fixAt(20, 101)]);
+    assert.equal(stats.movingMs, 10_000);
+    assert.equal(stats.idleMs, 10_000);
+  });
+
+  it("no suma tiempo en un hueco mayor que maxGapMs", () => {
+    const gapSeconds = 10 * 60;
+    const stats = run([
+      fixAt(0, 0, { speed: 10 }),
+      fixAt(10, 100, { speed: 10 }),
+      fixAt(10 + gapSeconds, 2000, { speed: 10 }),
+      fixAt(20 + gapSeconds, 2100, { speed: 10 }),
+    ]);
+    assert.equal(stats.movingMs, 20_000);
+    assert.equal(stats.idleMs, 0);
+    // La distancia del hueco sí cuenta: el vehículo se desplazó
+    assert.ok(stats.distanceMeters > 2000);
+  });
+
+  it("ignora fixes fuera de orden para los tiempos", () => {
+    const stats = run([fixAt(10, 0), fixAt(5, 100)]);
+    assert.equal(stats.pointCount, 2);
+    assert.equal(stats.movingMs + stats.idleMs, 0);
+  });
+
+  it("mide el siguiente fix desde el último en orden", () => {
+    const ordered = run([fixAt(0, 0), fixAt(10, 100), fixAt(20, 200)]);
+    const withStale = run([
+      fixAt(0, 0),
+      fixAt(10, 100),
+      // Repetido y fuera de orden: no cambian la referencia de tiempo
+      fixAt(10, 100),
+      fixAt(5, 50),
+      fixAt(20, 200),
+    ]);
+    assert.equal(withStale.lastFix?.timestamp, ordered.lastFix?.timestamp);
+    assert.equal(withStale.movingMs, ordered.movingMs);
+    assert.equal(withStale.idleMs, ordered.idleMs);
+    assert.equal(withStale.maxSpeed, ordered.maxSpeed);
+    assert.equal(withStale.distanceMeters, ordered.distanceMeters);
+  });
+});
@@ -0,0 +1,201 @@
+// lib/api.ts
+export const API_URL = `${process.env.EXPO_PUBLIC_BASE_URL}/v1`;
+export const WEBSOCKET_URL = `${process.env.EXPO_PUBLIC_BASE_URL}/locations`;
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// Formato de respuesta del backend: { data, message }
+export interface ApiEnvelope<T> {
+  data: T;
+  message?: string;
+}
+
+// El servidor respondió con un estado de error
+export class ApiError extends Error {
+  status: number;
+  body: unknown;
+
+  constructor(status: number, message: string, body?: unknown) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message = "No autorizado", body?: unknown) {
+    super(401, message, body);
+    this.name = "UnauthorizedError";
+  }
+}
+
+// No hubo respuesta del servidor (sin red, DNS, etc.)
+export class NetworkError extends Error {
+  constructor(message = "No se pudo conectar al servidor") {
+    super(message);
+    this.name = "NetworkError";
+  }
+}
+
+export class TimeoutError extends NetworkError {
+  constructor(timeoutMs: number) {
+    super(`La petición superó el tiempo límite de ${timeoutMs}ms`);
+    this.name = "TimeoutError";
+  }
+}
+
+// Errores del middleware de autenticación del socket
+export const isSocketAuthError = (error: Error) =>
+  /unauthori[sz]ed|jwt|token|expired/i.test(error.message);
+
+// Lo registra AuthProvider para inyectar el bearer y renovar ante un 401
+export interface TokenProvider {
+  getAccessToken: () => Promise<string | null>;
+  refreshSession: () => Promise<string | null>;
+}
+
+let tokenProvider: TokenProvider | null = null;
+
+export const setTokenProvider = (provider: TokenProvider | null) => {
+  tokenProvider = provider;
+};
+
+export interface RequestOptions {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  body?: unknown;
+  // Enviar el bearer del usuario (por defecto true)
+  auth?: boolean;
+  timeoutMs?: number;
+}
+
+// Cuerpo sin tipar: JSON si se puede, texto si no, null si viene vacío
+const parseBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const getErrorMessage = (body: unknown, status: number) =>
+  isRecord(body) && typeof body.message === "string" && body.message
+    ? body.message
+    : `Error ${status}`;
+
+// Único punto donde se confía en el tipo T que pide el llamador: el backend
+// responde siempre { data, message } y aquí solo se comprueba el sobre, no el
+// contenido de `data`. Una respuesta vacía (p. ej. 204) llega como data null;
+// un cuerpo sin `data` es un error del servidor, no un éxito.
+const toEnvelope = <T>(body: unknown, status: number): ApiEnvelope<T> => {
+  if (body === null) return { data: null as T };
+  if (!isRecord(body) || body.data === undefined) {
+    throw new ApiError(status, "Respuesta inesperada del servidor", body);
+  }
+  return {
+    data: body.data as T,
+    message: typeof body.message === "string" ? body.message : undefined,
+  };
+};
+
+export const fetchWithTimeout = async (
+  url: string,
+  init: RequestInit,
+  timeoutMs: number
+) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted) throw new TimeoutError(timeoutMs);
+    throw new NetworkError(
+      error instanceof Error ? error.message : undefined
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const send = async (
+  path: string,
+  options: RequestOptions,
+  token: string | null
+) => {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  return fetchWithTimeout(
+    `${API_URL}${path}`,
+    {
+      method: options.method ?? "GET",
+      headers,
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    },
+    options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  );
+};
+
+export async function apiRequest<T>(
+  path: string,
+  options: RequestOptions = {}
+): Promise<ApiEnvelope<T>> {
+  const useAuth = options.auth !== false && tokenProvider !== null;
+  const token = useAuth ? await tokenProvider!.getAccessToken() : null;
+
+  let response = await send(path, options, token);
+
+  // Token rechazado: renovar la sesión y reintentar una sola vez
+  if (response.status === 401 && useAuth) {
+    const refreshedToken = await tokenProvider!.refreshSession();
+    if (refreshedToken) {
+      response = await send(path, options, refreshedToken);
+    }
+  }
+
+  const body = await parseBody(response);
+
+  if (!response.ok) {
+    const message = getErrorMessage(body, response.status);
+    if (response.status === 401) {
+      throw new UnauthorizedError(message, body);
+    }
+    throw new ApiError(response.status, message, body);
+  }
+
+  return toEnvelope<T>(body, response.status);
+}
+
+export const api = {
+  get: <T>(path: string, options?: Omit<RequestOptions, "method" | "body">) =>
+    apiRequest<T>(path, { ...options, method: "GET" }),
+  post: <T>(
+    path: string,
+    body?: unknown,
+    options?: Omit<RequestOptions, "method" | "body">
+  ) => apiRequest<T>(path, { ...options, method: "POST", body }),
+  put: <T>(
+    path: string,
+    body?: unknown,
+    options?: Omit<RequestOptions, "method" | "body">
+  ) => apiRequest<T>(path, { ...options, method: "PUT", body }),
+  patch: <T>(
+    path: string,
+    body?: unknown,
+    options?: Omit<RequestOptions, "method" | "body">
+  ) => apiRequest<T>(path, { ...options, method: "PATCH", body }),
+  delete: <T>(
+    path: string,
+    options?: Omit<RequestOptions, "method" | "body">
+  ) => apiRequest<T>(path, { ...options, method: "DELETE" }),
+};
@@ -0,0 +1,151 @@
+// lib/backgroundLocation.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Location from "expo-location";
+import * as TaskManager from "expo-task-manager";
+import { createFixFilterState, filterFix } from "./fixFilter";
+import { createClientId } from "./locationDelivery";
+import { recordLocation } from "./locationHistory";
+import { enqueueLocation, OutboxEntry } from "./locationOutbox";
+import type { LocationData } from "./locationTypes";
+import { createSamplerState, sampleFix } from "./motionSampler";
+import { SAMPLING_PRESETS } from "./samplingPolicy";
+import { loadSettings } from "./settings";
+
+export const BACKGROUND_LOCATION_TASK = "background-location-task";
+
+// Vehículo activo, persistido para cuando el SO relanza la app sin UI
+const BACKGROUND_VEHICLE_KEY = "backgroundTrackingVehicleId";
+
+type BackgroundLocationHandler = (locations: LocationData[]) => void;
+
+let locationHandler: BackgroundLocationHandler | null = null;
+
+// Estado del filtro de fixes mientras no hay pantalla montada
+let headlessFilterState = createFixFilterState();
+let headlessSamplerState = createSamplerState();
+
+export const toLocationData = (
+  location: Location.LocationObject
+): LocationData => ({
+  latitude: location.coords.latitude,
+  longitude: location.coords.longitude,
+  accuracy: location.coords.accuracy || undefined,
+  timestamp: new Date(location.timestamp).toISOString(),
+  speed: location.coords.speed || undefined,
+  heading: location.coords.heading || undefined,
+});
+
+// La pantalla del conductor registra aquí su pipeline de envío.
+// Devuelve la función para dar de baja el handler.
+export const setBackgroundLocationHandler = (
+  handler: BackgroundLocationHandler
+) => {
+  locationHandler = handler;
+  return () => {
+    if (locationHandler === handler) {
+      locationHandler = null;
+    }
+  };
+};
+
+// Sin pantalla montada (app relanzada en segundo plano) las ubicaciones
+// van directo a la cola offline y se envían en la próxima conexión
+const enqueueWithoutHandler = async (locations: LocationData[]) => {
+  const vehicleId = await AsyncStorage.getItem(BACKGROUND_VEHICLE_KEY);
+  if (!vehicleId) {
+    console.log("⚠️ Ubicaciones en segundo plano sin vehículo, descartadas");
+    return;
+  }
+
+  const { fixFilter, samplingPreset } = await loadSettings();
+
+  for (const raw of locations) {
+    const { state, result } = filterFix(headlessFilterState, raw, fixFilter);
+    headlessFilterState = state;
+    if (!result.accepted) continue;
+
+    const location = result.fix;
+    const sampled = sampleFix(
+      headlessSamplerState,
+      location,
+      SAMPLING_PRESETS[samplingPreset]
+    );
+    headlessSamplerState = sampled.state;
+    if (!sampled.sample) continue;
+
+    const entry: OutboxEntry = {
+      payload: { clientId: createClientId(), vehicleId, ...location },
+      type: "auto",
+    };
+    await enqueueLocation(entry);
+    await recordLocation(entry, "pending").catch((error) => {
+      console.error("❌ Error guardando ubicación en el historial:", error);
+    });
+  }
+};
+
+// La tarea debe definirse en el ámbito global del bundle (ver app/_layout.tsx)
+TaskManager.defineTask<{ locations: Location.LocationObject[] }>(
+  BACKGROUND_LOCATION_TASK,
+  async ({ data, error }) => {
+    if (error) {
+      console.error("❌ Error en tarea de ubicación en segundo plano:", error);
+      return;
+    }
+
+    const locations = (data?.locations ?? []).map(toLocationData);
+    if (locations.length === 0) return;
+
+    console.log(`🛰️ ${locations.length} ubicaciones en segundo plano`);
+
+    if (locationHandler) {
+      locationHandler(locations);
+    } else {
+      await enqueueWithoutHandler(locations);
+    }
+  }
+);
+
+// Solicita permisos de primer y segundo plano, en ese orden
+export const requestBackgroundPermissions = async (): Promise<boolean> => {
+  const foreground = await Location.requestForegroundPermissionsAsync();
+  if (foreground.status !== "granted") return false;
+
+  const background = await Location.requestBackgroundPermissionsAsync();
+  return background.status === "granted";
+};
+
+export const isBackgroundTrackingActive = async (): Promise<boolean> => {
+  const isRegistered = await TaskManager.isTaskRegisteredAsync(
+    BACKGROUND_LOCATION_TASK
+  );
+  if (!isRegistered) return false;
+  return Location.hasStartedLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
+};
+
+// Las opciones de muestreo vienen de la política activa (lib/samplingPolicy)
+export const startBackgroundTracking = async (
+  vehicleId: string,
+  options: Location.LocationOptions
+) => {
+  await AsyncStorage.setItem(BACKGROUND_VEHICLE_KEY, vehicleId);
+
+  await Location.startLocationUpdatesAsync(BACKGROUND_LOCATION_TASK, {
+    ...options,
+    showsBackgroundLocationIndicator: true,
+    pausesUpdatesAutomatically: false,
+    activityType: Location.ActivityType.AutomotiveNavigation,
+    foregroundService: {
+      notificationTitle: "Tracking GPS activo",
+      notificationBody: "Enviando tu ubicación al sistema de monitoreo",
+      notificationColor: "#007AFF",
+    },
+  });
+};
+
+export const stopBackgroundTracking = async () => {
+  if (await isBackgroundTrackingActive()) {
+    await Location.stopLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
+  }
+  await AsyncStorage.removeItem(BACKGROUND_VEHICLE_KEY);
+};
@@ -0,0 +1,48 @@
+// lib/backgroundRelay.ts
+import type { LocationData } from "./locationTypes";
+
+// Ubicaciones retenidas como máximo mientras no se conoce el vehículo
+const MAX_PENDING_LOCATIONS = 500;
+
+export interface BackgroundRelay {
+  push: (locations: LocationData[]) => void;
+  // Vehículo activo; al conocerse se entregan las ubicaciones retenidas
+  setVehicle: (vehicleId: string | null) => void;
+  clear: () => void;
+  pendingCount: () => number;
+}
+
+// Conecta la tarea en segundo plano con el envío de la pantalla. Al retomar
+// el tracking tras un reinicio la tarea entrega fixes antes de que cargue el
+// vehículo reclamado: se retienen en lugar de descartarse.
+export const createBackgroundRelay = (
+  send: (location: LocationData) => void,
+  maxPending = MAX_PENDING_LOCATIONS
+): BackgroundRelay => {
+  let vehicleId: string | null = null;
+  let pending: LocationData[] = [];
+
+  const deliver = (locations: LocationData[]) => locations.forEach(send);
+
+  return {
+    push: (locations) => {
+      if (vehicleId) {
+        deliver(locations);
+      } else {
+        pending = [...pending, ...locations].slice(-maxPending);
+      }
+    },
+    setVehicle: (next) => {
+      vehicleId = next;
+      if (!next || pending.length === 0) return;
+      const held = pending;
+      pending = [];
+      console.log(`🛰️ ${held.length} ubicaciones retenidas, enviando`);
+      deliver(held);
+    },
+    clear: () => {
+      pending = [];
+    },
+    pendingCount: () => pending.length,
+  };
+};
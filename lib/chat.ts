@@ -0,0 +1,169 @@
+// lib/chat.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { Socket } from "socket.io-client";
+import type { Coordinate } from "./geo";
+import { createClientId } from "./locationDelivery";
+
+const CHAT_MESSAGES_KEY = "chatMessages";
+const CHAT_ACK_TIMEOUT_MS = 5000;
+
+// Se conservan los mensajes más recientes
+const MAX_CHAT_MESSAGES = 300;
+
+// Mismo evento en ambos sentidos: el conductor lo emite con ack y el
+// servidor lo reenvía con los mensajes de despacho
+export const CHAT_MESSAGE_EVENT = "chatMessage";
+
+// Respuestas rápidas para escribir lo menos posible mientras se conduce
+export const QUICK_REPLIES = [
+  "Llegué",
+  "Retraso por tráfico",
+  "En camino",
+  "Recibido 👍",
+];
+
+export interface ChatLocation extends Coordinate {
+  accuracy?: number | null;
+}
+
+export interface ChatMessage {
+  id: string;
+  direction: "outgoing" | "incoming";
+  text: string;
+  timestamp: string;
+  vehicleId: string;
+  // Ubicación del conductor al escribir; null si aún no había fix
+  location: ChatLocation | null;
+  // Solo salientes: pendiente hasta que el servidor confirme
+  status?: "pending" | "sent" | "failed";
+  // Solo entrantes
+  read?: boolean;
+  sender?: string;
+}
+
+// Serializa las operaciones de lectura/escritura para evitar pisar cambios
+let queue: Promise<unknown> = Promise.resolve();
+
+const runExclusive = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = queue.then(task, task);
+  queue = result.catch(() => undefined);
+  return result;
+};
+
+const readMessages = async (): Promise<ChatMessage[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(CHAT_MESSAGES_KEY);
+    return raw ? (JSON.parse(raw) as ChatMessage[]) : [];
+  } catch (error) {
+    console.error("❌ Error leyendo mensajes:", error);
+    return [];
+  }
+};
+
+const writeMessages = (messages: ChatMessage[]) =>
+  AsyncStorage.setItem(
+    CHAT_MESSAGES_KEY,
+    JSON.stringify(messages.slice(-MAX_CHAT_MESSAGES))
+  );
+
+// Más antiguos primero, en el orden en que se muestran
+export const loadChatMessages = () => runExclusive(readMessages);
+
+// Agrega o reemplaza por id (el servidor puede reenviar un mensaje)
+export const saveChatMessage = (message: ChatMessage) =>
+  runExclusive(async () => {
+    const messages = await readMessages();
+    await writeMessages([
+      ...messages.filter((m) => m.id !== message.id),
+      message,
+    ]);
+  });
+
+export const updateChatMessage = (id: string, changes: Partial<ChatMessage>) =>
+  runExclusive(async () => {
+    const messages = await readMessages();
+    await writeMessages(
+      messages.map((m) => (m.id === id ? { ...m, ...changes } : m))
+    );
+  });
+
+export const markChatMessagesRead = () =>
+  runExclusive(async () => {
+    const messages = await readMessages();
+    await writeMessages(
+      messages.map((m) =>
+        m.direction === "incoming" && !m.read ? { ...m, read: true } : m
+      )
+    );
+  });
+
+export const clearChatMessages = () =>
+  runExclusive(() => AsyncStorage.removeItem(CHAT_MESSAGES_KEY));
+
+export const createChatMessage = (
+  text: string,
+  vehicleId: string,
+  location: ChatLocation | null
+): ChatMessage => ({
+  id: `msg-${createClientId()}`,
+  direction: "outgoing",
+  text,
+  timestamp: new Date().toISOString(),
+  vehicleId,
+  location,
+  status: "pending",
+});
+
+// Valida un mensaje de despacho recibido por el socket; null si no sirve
+export const parseIncomingMessage = (
+  raw: unknown,
+  vehicleId: string
+): ChatMessage | null => {
+  const message = raw as Partial<ChatMessage> | null;
+  if (!message || typeof message.id !== "string") return null;
+  if (typeof message.text !== "string" || !message.text.trim()) return null;
+
+  return {
+    id: message.id,
+    direction: "incoming",
+    text: message.text,
+    timestamp: message.timestamp ?? new Date().toISOString(),
+    vehicleId,
+    location: null,
+    read: false,
+    sender: typeof message.sender === "string" ? message.sender : undefined,
+  };
+};
+
+// Emite "chatMessage" y espera el ack; devuelve el estado resultante.
+// Sin respuesta sigue pendiente y se reenvía al reconectar; el `clientId`
+// permite al servidor descartar reenvíos de un mensaje que sí llegó.
+export const deliverChatMessage = async (
+  socket: Socket,
+  message: ChatMessage
+): Promise<ChatMessage["status"]> => {
+  if (!socket.connected) return "pending";
+
+  try {
+    const ack: { status?: "ok" | "error"; message?: string } | undefined =
+      await socket.timeout(CHAT_ACK_TIMEOUT_MS).emitWithAck(
+        CHAT_MESSAGE_EVENT,
+        {
+          clientId: message.id,
+          vehicleId: message.vehicleId,
+          text: message.text,
+          timestamp: message.timestamp,
+          location: message.location,
+        }
+      );
+    if (ack?.status === "error") {
+      // Rechazado por el servidor: reintentar no sirve
+      console.log(`⚠️ Mensaje rechazado: ${ack.message ?? message.id}`);
+      return "failed";
+    }
+    return "sent";
+  } catch (error) {
+    console.error("❌ Sin confirmación del mensaje:", error);
+    return "pending";
+  }
+};
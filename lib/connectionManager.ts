@@ -0,0 +1,302 @@
+// lib/connectionManager.ts
+// Conexión WebSocket del conductor como máquina de estados. Los reintentos
+// los maneja este módulo (no socket.io) para poder pausarlos sin red y
+// reanudarlos de inmediato cuando vuelve.
+import { io, Socket } from "socket.io-client";
+import { isSocketAuthError } from "./api";
+
+export type ConnectionState =
+  | "idle"
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "offline"
+  | "authFailed";
+
+export const CONNECTION_STATE_LABELS: Record<ConnectionState, string> = {
+  idle: "Desconectado",
+  connecting: "Conectando...",
+  connected: "Conectado",
+  reconnecting: "Reconectando",
+  offline: "Sin red",
+  authFailed: "Sesión rechazada",
+};
+
+export interface ConnectionSnapshot {
+  state: ConnectionState;
+  // Reintentos desde la última conexión exitosa
+  attempt: number;
+  // Hora (ms) del próximo reintento; null si no hay uno programado
+  nextRetryAt: number | null;
+  lastError: string | null;
+  // Ya hubo una conexión en esta sesión: las siguientes son reconexiones
+  hasConnected: boolean;
+}
+
+export interface BackoffConfig {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  factor: number;
+  // Fracción aleatoria (0-1) para que no reconecten todos a la vez
+  jitter: number;
+}
+
+export const DEFAULT_BACKOFF_CONFIG: BackoffConfig = {
+  initialDelayMs: 1000,
+  maxDelayMs: 60000,
+  factor: 2,
+  jitter: 0.3,
+};
+
+// Espera antes del intento `attempt` (desde 1), sin límite de intentos
+export const getBackoffDelay = (
+  attempt: number,
+  config: BackoffConfig = DEFAULT_BACKOFF_CONFIG,
+  random: () => number = Math.random
+) => {
+  const base = Math.min(
+    config.maxDelayMs,
+    config.initialDelayMs * config.factor ** Math.max(0, attempt - 1)
+  );
+  const spread = base * config.jitter;
+  return Math.round(base - spread + random() * spread * 2);
+};
+
+export interface ConnectionManagerOptions {
+  url: string;
+  getToken: () => Promise<string | null>;
+  // Renueva la sesión cuando el servidor rechaza el token
+  refreshToken: () => Promise<string | null>;
+  // Un socket por sesión: se registran aquí los listeners de la app
+  onSocketCreated?: (socket: Socket) => void;
+  onConnected?: (socket: Socket, isReconnect: boolean) => void;
+  onDisconnected?: (reason: string) => void;
+  backoff?: BackoffConfig;
+  timeoutMs?: number;
+}
+
+export interface ConnectionManager {
+  connect: () => void;
+  disconnect: () => void;
+  getSocket: () => Socket | null;
+  getSnapshot: () => ConnectionSnapshot;
+  subscribe: (listener: (snapshot: ConnectionSnapshot) => void) => () => void;
+  // Aviso de la red del dispositivo (NetInfo)
+  setNetworkAvailable: (available: boolean) => void;
+}
+
+export const INITIAL_CONNECTION_SNAPSHOT: ConnectionSnapshot = {
+  state: "idle",
+  attempt: 0,
+  nextRetryAt: null,
+  lastError: null,
+  hasConnected: false,
+};
+
+export const createConnectionManager = (
+  options: ConnectionManagerOptions
+): ConnectionManager => {
+  const backoff = options.backoff ?? DEFAULT_BACKOFF_CONFIG;
+  const listeners = new Set<(snapshot: ConnectionSnapshot) => void>();
+
+  let snapshot = INITIAL_CONNECTION_SNAPSHOT;
+  let socket: Socket | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let networkAvailable = true;
+  // Un solo intento de renovar el token por cada rechazo
+  let authRetried = false;
+
+  const update = (changes: Partial<ConnectionSnapshot>) => {
+    snapshot = { ...snapshot, ...changes };
+    listeners.forEach((listener) => listener(snapshot));
+  };
+
+  const clearRetry = () => {
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+
+  const isStopped = () =>
+    snapshot.state === "idle" || snapshot.state === "authFailed";
+
+  const open = async () => {
+    if (!socket || isStopped() || socket.connected) return;
+
+    const token = await options.getToken();
+    // Se pudo desconectar mientras se leía el token
+    if (!socket || isStopped()) return;
+    if (!token) {
+      update({ state: "authFailed", lastError: "Sin token de autenticación" });
+      return;
+    }
+
+    socket.auth = { token };
+    socket.connect();
+  };
+
+  const scheduleRetry = () => {
+    clearRetry();
+    if (isStopped()) return;
+
+    if (!networkAvailable) {
+      update({ state: "offline", nextRetryAt: null });
+      return;
+    }
+
+    const attempt = snapshot.attempt + 1;
+    const delay = getBackoffDelay(attempt, backoff);
+    update({
+      state: snapshot.hasConnected ? "reconnecting" : "connecting",
+      attempt,
+      nextRetryAt: Date.now() + delay,
+    });
+    console.log(`🔄 Reintento ${attempt} en ${Math.round(delay / 1000)}s`);
+
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      update({ nextRetryAt: null });
+      open();
+    }, delay);
+  };
+
+  const createSocket = () => {
+    const next = io(options.url, {
+      autoConnect: false,
+      reconnection: false,
+      transports: ["websocket", "polling"],
+      timeout: options.timeoutMs ?? 10000,
+    });
+
+    next.on("connect", () => {
+      const isReconnect = snapshot.hasConnected;
+      authRetried = false;
+      clearRetry();
+      update({
+        state: "connected",
+        attempt: 0,
+        nextRetryAt: null,
+        lastError: null,
+        hasConnected: true,
+      });
+      options.onConnected?.(next, isReconnect);
+    });
+
+    next.on("disconnect", (reason) => {
+      options.onDisconnected?.(reason);
+      // "io client disconnect" es una desconexión pedida por la app
+      if (reason === "io client disconnect" || isStopped()) return;
+      update({ lastError: reason });
+      scheduleRetry();
+    });
+
+    next.on("connect_error", async (error) => {
+      update({ lastError: error.message });
+
+      // Token vencido o rechazado: renovar la sesión y reintentar una vez
+      if (isSocketAuthError(error)) {
+        if (authRetried) {
+          clearRetry();
+          update({ state: "authFailed", nextRetryAt: null });
+          return;
+        }
+        authRetried = true;
+        const refreshed = await options.refreshToken();
+        if (!refreshed) {
+          update({ state: "authFailed", nextRetryAt: null });
+          return;
+        }
+        // `open` lee el token renovado
+        open();
+        return;
+      }
+      scheduleRetry();
+    });
+
+    options.onSocketCreated?.(next);
+    return next;
+  };
+
+  return {
+    connect: () => {
+      if (snapshot.state !== "idle" && snapshot.state !== "authFailed") return;
+
+      clearRetry();
+      socket?.removeAllListeners();
+      socket?.disconnect();
+      socket = createSocket();
+      authRetried = false;
+      update({
+        ...INITIAL_CONNECTION_SNAPSHOT,
+        state: networkAvailable ? "connecting" : "offline",
+      });
+      if (networkAvailable) open();
+    },
+
+    disconnect: () => {
+      clearRetry();
+      update({ ...INITIAL_CONNECTION_SNAPSHOT });
+      socket?.disconnect();
+      socket?.removeAllListeners();
+      socket = null;
+    },
+
+    getSocket: () => socket,
+
+    getSnapshot: () => snapshot,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    setNetworkAvailable: (available) => {
+      if (available === networkAvailable) return;
+      networkAvailable = available;
+      console.log(available ? "📶 Red disponible" : "📵 Sin red");
+      if (isStopped()) return;
+
+      if (!available) {
+        // Reintentar sin red solo gasta batería; el socket conectado
+        // detecta la caída por su cuenta
+        if (snapshot.state !== "connected") {
+          clearRetry();
+          update({ state: "offline", nextRetryAt: null });
+        }
+        return;
+      }
+
+      // Volvió la red: reintentar ya, sin esperar el backoff
+      if (snapshot.state !== "connected") {
+        clearRetry();
+        update({
+          state: snapshot.hasConnected ? "reconnecting" : "connecting",
+          attempt: 0,
+          nextRetryAt: null,
+        });
+        open();
+      }
+    },
+  };
+};
+
+// Texto para la fila de estado de la pantalla
+export const describeConnection = (snapshot: ConnectionSnapshot) => {
+  const label = CONNECTION_STATE_LABELS[snapshot.state];
+  switch (snapshot.state) {
+    case "connecting":
+    case "reconnecting":
+      return snapshot.attempt > 0
+        ? `${label} (intento ${snapshot.attempt})`
+        : label;
+    case "offline":
+      return `${label}: se guarda todo y se envía al volver`;
+    case "authFailed":
+      return `${label}: vuelve a iniciar sesión`;
+    default:
+      return label;
+  }
+};
@@ -0,0 +1,40 @@
+// lib/database.ts
+// Base SQLite local compartida por el historial y la cola offline
+import * as SQLite from "expo-sqlite";
+import { MIGRATIONS } from "./databaseSchema";
+
+const DATABASE_NAME = "locationHistory.db";
+
+const migrate = async (db: SQLite.SQLiteDatabase) => {
+  const row = await db.getFirstAsync<{ user_version: number }>(
+    "PRAGMA user_version"
+  );
+  const version = row?.user_version ?? 0;
+  if (version >= MIGRATIONS.length) return;
+
+  await db.execAsync("PRAGMA journal_mode = WAL");
+  for (let next = version; next < MIGRATIONS.length; next++) {
+    await db.withTransactionAsync(async () => {
+      await db.execAsync(MIGRATIONS[next]);
+      await db.execAsync(`PRAGMA user_version = ${next + 1}`);
+    });
+  }
+};
+
+let database: Promise<SQLite.SQLiteDatabase> | null = null;
+
+// Abre la base una sola vez; si falla se reintenta en la próxima llamada
+export const getDatabase = () => {
+  if (!database) {
+    database = SQLite.openDatabaseAsync(DATABASE_NAME)
+      .then(async (db) => {
+        await migrate(db);
+        return db;
+      })
+      .catch((error) => {
+        database = null;
+        throw error;
+      });
+  }
+  return database;
+};
@@ -0,0 +1,52 @@
+// lib/databaseSchema.ts
+// Esquema de la base local, sin dependencias de React Native para poder
+// aplicarlo también en las pruebas
+
+// Cada migración lleva el esquema de la versión anterior a la siguiente;
+// `PRAGMA user_version` guarda la última aplicada
+export const MIGRATIONS: string[] = [
+  // 1: historial de ubicaciones y viajes
+  `
+    CREATE TABLE IF NOT EXISTS locations (
+      client_id TEXT PRIMARY KEY NOT NULL,
+      vehicle_id TEXT NOT NULL,
+      trip_id TEXT,
+      type TEXT NOT NULL,
+      latitude REAL NOT NULL,
+      longitude REAL NOT NULL,
+      accuracy REAL,
+      speed REAL,
+      heading REAL,
+      low_accuracy INTEGER NOT NULL DEFAULT 0,
+      timestamp TEXT NOT NULL,
+      delivery_state TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS locations_trip ON locations (trip_id, timestamp);
+    CREATE INDEX IF NOT EXISTS locations_timestamp ON locations (timestamp);
+    CREATE TABLE IF NOT EXISTS trips (
+      id TEXT PRIMARY KEY NOT NULL,
+      vehicle_id TEXT NOT NULL,
+      started_at TEXT NOT NULL,
+      ended_at TEXT NOT NULL,
+      duration_ms INTEGER NOT NULL,
+      distance_m REAL NOT NULL,
+      moving_ms INTEGER NOT NULL,
+      idle_ms INTEGER NOT NULL,
+      max_speed REAL NOT NULL,
+      avg_speed REAL NOT NULL,
+      mean_accuracy REAL NOT NULL,
+      point_count INTEGER NOT NULL,
+      synced INTEGER NOT NULL DEFAULT 0
+    );
+  `,
+  // 2: cola offline, una fila por ubicación pendiente
+  `
+    CREATE TABLE IF NOT EXISTS outbox (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      timestamp TEXT NOT NULL,
+      type TEXT NOT NULL,
+      payload TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS outbox_timestamp ON outbox (timestamp, id);
+  `,
+];
@@ -0,0 +1,186 @@
+// lib/fixFilter.ts
+import { distanceBetween } from "./geo";
+import type { LocationData } from "./locationTypes";
+
+export interface FixFilterConfig {
+  // Precisión máxima aceptada (m)
+  maxAccuracyMeters: number;
+  // "drop" descarta los fixes imprecisos; "flag" los envía marcados
+  lowAccuracyMode: "drop" | "flag";
+  // Velocidad máxima creíble entre dos fixes consecutivos (m/s)
+  maxSpeedMps: number;
+  // Suavizado de posiciones con filtro de Kalman
+  smoothing: boolean;
+  // Ruido de proceso del Kalman (m/s): cuánto se espera que se mueva el vehículo
+  kalmanProcessNoise: number;
+}
+
+export const DEFAULT_FIX_FILTER_CONFIG: FixFilterConfig = {
+  maxAccuracyMeters: 100,
+  lowAccuracyMode: "drop",
+  maxSpeedMps: 50, // 180 km/h
+  smoothing: false,
+  kalmanProcessNoise: 3,
+};
+
+export type FixRejectionReason = "accuracy" | "speed";
+
+export interface FixFilterCounters {
+  accepted: number;
+  flagged: number;
+  rejectedAccuracy: number;
+  rejectedSpeed: number;
+}
+
+interface KalmanState {
+  latitude: number;
+  longitude: number;
+  // Varianza de la posición estimada (m²)
+  variance: number;
+  timestamp: number;
+}
+
+export interface FixFilterState {
+  lastAccepted: LocationData | null;
+  kalman: KalmanState | null;
+  consecutiveSpeedRejections: number;
+  counters: FixFilterCounters;
+}
+
+export type FixFilterResult =
+  | { accepted: true; fix: LocationData }
+  | { accepted: false; reason: FixRejectionReason };
+
+// Precisión asumida cuando el dispositivo no la reporta
+const DEFAULT_ACCURACY_METERS = 30;
+
+// Tras tantos saltos seguidos se asume que el fix anterior era el erróneo
+const MAX_CONSECUTIVE_SPEED_REJECTIONS = 3;
+
+export const createFixFilterState = (): FixFilterState => ({
+  lastAccepted: null,
+  kalman: null,
+  consecutiveSpeedRejections: 0,
+  counters: { accepted: 0, flagged: 0, rejectedAccuracy: 0, rejectedSpeed: 0 },
+});
+
+// Kalman 1D por eje con varianza en metros: la precisión del fix es el ruido
+// de medición y la incertidumbre crece con el tiempo según el ruido de proceso
+const smoothFix = (
+  kalman: KalmanState | null,
+  fix: LocationData,
+  processNoise: number
+): { kalman: KalmanState; fix: LocationData } => {
+  const accuracy = Math.max(fix.accuracy ?? DEFAULT_ACCURACY_METERS, 1);
+  const timestamp = Date.parse(fix.timestamp);
+  const measurementVariance = accuracy * accuracy;
+
+  if (!kalman) {
+    return {
+      kalman: {
+        latitude: fix.latitude,
+        longitude: fix.longitude,
+        variance: measurementVariance,
+        timestamp,
+      },
+      fix,
+    };
+  }
+
+  const elapsedSeconds = Math.max(0, (timestamp - kalman.timestamp) / 1000);
+  const predictedVariance =
+    kalman.variance + elapsedSeconds * processNoise * processNoise;
+  const gain = predictedVariance / (predictedVariance + measurementVariance);
+
+  const next: KalmanState = {
+    latitude: kalman.latitude + gain * (fix.latitude - kalman.latitude),
+    longitude: kalman.longitude + gain * (fix.longitude - kalman.longitude),
+    variance: (1 - gain) * predictedVariance,
+    timestamp,
+  };
+
+  return {
+    kalman: next,
+    fix: {
+      ...fix,
+      latitude: next.latitude,
+      longitude: next.longitude,
+      accuracy: Math.sqrt(next.variance),
+    },
+  };
+};
+
+// Evalúa un fix contra el último aceptado. Devuelve el nuevo estado del
+// filtro y el fix (posiblemente suavizado) o el motivo del rechazo.
+export const filterFix = (
+  state: FixFilterState,
+  fix: LocationData,
+  config: FixFilterConfig = DEFAULT_FIX_FILTER_CONFIG
+): { state: FixFilterState; result: FixFilterResult } => {
+  const counters = { ...state.counters };
+  let candidate = fix;
+
+  if ((fix.accuracy ?? 0) > config.maxAccuracyMeters) {
+    if (config.lowAccuracyMode === "drop") {
+      counters.rejectedAccuracy++;
+      return {
+        state: { ...state, counters },
+        result: { accepted: false, reason: "accuracy" },
+      };
+    }
+    counters.flagged++;
+    candidate = { ...fix, lowAccuracy: true };
+  }
+
+  const { lastAccepted } = state;
+  if (lastAccepted) {
+    const elapsedSeconds =
+      (Date.parse(fix.timestamp) - Date.parse(lastAccepted.timestamp)) / 1000;
+    // Margen por la precisión de ambos fixes para no castigar el ruido
+    const tolerance = (fix.accuracy ?? 0) + (lastAccepted.accuracy ?? 0);
+    const distance = Math.max(0, distanceBetween(lastAccepted, fix) - tolerance);
+
+    const isJump =
+      elapsedSeconds > 0 && distance / elapsedSeconds > config.maxSpeedMps;
+
+    if (
+      isJump &&
+      state.consecutiveSpeedRejections < MAX_CONSECUTIVE_SPEED_REJECTIONS
+    ) {
+      counters.rejectedSpeed++;
+      return {
+        state: {
+          ...state,
+          consecutiveSpeedRejections: state.consecutiveSpeedRejections + 1,
+          counters,
+        },
+        result: { accepted: false, reason: "speed" },
+      };
+    }
+  }
+
+  // Si se aceptó un salto tras varios rechazos, el suavizado arranca de cero
+  let kalman =
+    state.consecutiveSpeedRejections >= MAX_CONSECUTIVE_SPEED_REJECTIONS
+      ? null
+      : state.kalman;
+  if (config.smoothing) {
+    const smoothed = smoothFix(kalman, candidate, config.kalmanProcessNoise);
+    kalman = smoothed.kalman;
+    candidate = smoothed.fix;
+  } else {
+    kalman = null;
+  }
+
+  counters.accepted++;
+  return {
+    // Se compara contra el fix crudo para no arrastrar el retraso del suavizado
+    state: {
+      lastAccepted: fix,
+      kalman,
+      consecutiveSpeedRejections: 0,
+      counters,
+    },
+    result: { accepted: true, fix: candidate },
+  };
+};
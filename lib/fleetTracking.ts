@@ -0,0 +1,61 @@
+// lib/fleetTracking.ts
+import type { LocationPayload } from "./locationTypes";
+
+// Eventos del namespace /locations para el despachador
+export const FLEET_SUBSCRIBE_EVENT = "subscribeToFleet";
+export const FLEET_UNSUBSCRIBE_EVENT = "unsubscribeFromFleet";
+export const FLEET_LOCATION_EVENT = "locationUpdate";
+
+// Sin reportes en este tiempo, el vehículo se considera desactualizado
+export const STALE_AFTER_MS = 2 * 60 * 1000;
+
+// Ubicación retransmitida por el servidor para un vehículo de la flota
+export type FleetLocationBroadcast = Omit<LocationPayload, "clientId"> & {
+  clientId?: string;
+};
+
+export interface VehiclePosition extends FleetLocationBroadcast {
+  // Momento en que el despachador recibió la última posición
+  receivedAt: number;
+}
+
+export type FleetState = Record<string, VehiclePosition>;
+
+// Reemplaza la posición del vehículo si la nueva es más reciente
+export const upsertVehiclePosition = (
+  fleet: FleetState,
+  update: FleetLocationBroadcast,
+  receivedAt: number = Date.now()
+): FleetState => {
+  const previous = fleet[update.vehicleId];
+  if (
+    previous &&
+    Date.parse(previous.timestamp) > Date.parse(update.timestamp)
+  ) {
+    return fleet;
+  }
+
+  return { ...fleet, [update.vehicleId]: { ...update, receivedAt } };
+};
+
+// Hora del fix reportada por el vehículo; las ubicaciones que llegan tarde
+// desde la cola offline no deben verse como recientes
+export const getLastSeen = (position: VehiclePosition) =>
+  Date.parse(position.timestamp) || position.receivedAt;
+
+export const isVehicleStale = (
+  position: VehiclePosition,
+  now: number = Date.now()
+) => now - getLastSeen(position) > STALE_AFTER_MS;
+
+// "hace 5s", "hace 3m", "hace 2h"
+export const formatLastSeen = (
+  position: VehiclePosition,
+  now: number = Date.now()
+) => {
+  const seconds = Math.max(0, Math.floor((now - getLastSeen(position)) / 1000));
+  if (seconds < 60) return `hace ${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `hace ${minutes}m`;
+  return `hace ${Math.floor(minutes / 60)}h`;
+};
@@ -0,0 +1,72 @@
+// lib/geo.ts
+
+export interface Coordinate {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Distancia haversine en metros
+export const calculateDistance = (
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) *
+      Math.cos(toRadians(lat2)) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_KM * c * 1000;
+};
+
+export const distanceBetween = (from: Coordinate, to: Coordinate) =>
+  calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Rumbo inicial de `from` hacia `to` en grados (0 = norte, sentido horario)
+export const calculateBearing = (from: Coordinate, to: Coordinate) => {
+  const lat1 = toRadians(from.latitude);
+  const lat2 = toRadians(to.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x =
+    Math.cos(lat1) * Math.sin(lat2) -
+    Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+};
+
+// Punto a una fracción (0-1) del segmento; lineal, válido para tramos cortos
+export const interpolateCoordinate = (
+  from: Coordinate,
+  to: Coordinate,
+  fraction: number
+): Coordinate => ({
+  latitude: from.latitude + (to.latitude - from.latitude) * fraction,
+  longitude: from.longitude + (to.longitude - from.longitude) * fraction,
+});
+
+// Desplaza una coordenada unos metros hacia el norte y el este
+export const offsetCoordinate = (
+  coordinate: Coordinate,
+  northMeters: number,
+  eastMeters: number
+): Coordinate => {
+  const metersPerDegree = (EARTH_RADIUS_KM * 1000 * Math.PI) / 180;
+  return {
+    latitude: coordinate.latitude + northMeters / metersPerDegree,
+    longitude:
+      coordinate.longitude +
+      eastMeters /
+        (metersPerDegree * Math.cos(toRadians(coordinate.latitude))),
+  };
+};
@@ -0,0 +1,135 @@
+// lib/geofenceLog.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { Socket } from "socket.io-client";
+import {
+  GEOFENCE_ENTER_EVENT,
+  GEOFENCE_EXIT_EVENT,
+  GeofenceEvent,
+  GeofenceState,
+} from "./geofences";
+
+const GEOFENCE_LOG_KEY = "geofenceLog";
+// Geocercas en las que estaba el vehículo en la última evaluación
+const GEOFENCE_STATE_KEY = "geofenceState";
+const GEOFENCE_ACK_TIMEOUT_MS = 5000;
+
+// Se conservan los eventos más recientes
+const MAX_LOG_ENTRIES = 200;
+
+export interface GeofenceLogEntry extends GeofenceEvent {
+  id: string;
+  // Confirmado por el servidor; los pendientes se reenvían al reconectar
+  delivered: boolean;
+}
+
+// Serializa las operaciones de lectura/escritura para evitar pisar cambios
+let queue: Promise<unknown> = Promise.resolve();
+
+const runExclusive = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = queue.then(task, task);
+  queue = result.catch(() => undefined);
+  return result;
+};
+
+const readEntries = async (): Promise<GeofenceLogEntry[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(GEOFENCE_LOG_KEY);
+    return raw ? (JSON.parse(raw) as GeofenceLogEntry[]) : [];
+  } catch (error) {
+    console.error("❌ Error leyendo el registro de geocercas:", error);
+    return [];
+  }
+};
+
+const writeEntries = (entries: GeofenceLogEntry[]) =>
+  AsyncStorage.setItem(
+    GEOFENCE_LOG_KEY,
+    JSON.stringify(entries.slice(-MAX_LOG_ENTRIES))
+  );
+
+export const appendGeofenceEvents = (
+  events: GeofenceEvent[]
+): Promise<GeofenceLogEntry[]> =>
+  runExclusive(async () => {
+    const entries = await readEntries();
+    const added = events.map((event, index) => ({
+      ...event,
+      id: `${event.geofenceId}-${event.type}-${Date.parse(event.timestamp)}-${index}`,
+      delivered: false,
+    }));
+    await writeEntries([...entries, ...added]);
+    return added;
+  });
+
+export const markGeofenceEventsDelivered = (ids: string[]) =>
+  runExclusive(async () => {
+    const delivered = new Set(ids);
+    const entries = await readEntries();
+    await writeEntries(
+      entries.map((entry) =>
+        delivered.has(entry.id) ? { ...entry, delivered: true } : entry
+      )
+    );
+  });
+
+// Más recientes primero
+export const loadGeofenceLog = async (): Promise<GeofenceLogEntry[]> =>
+  (await runExclusive(readEntries)).reverse();
+
+export const getUndeliveredGeofenceEvents = async () =>
+  (await runExclusive(readEntries)).filter((entry) => !entry.delivered);
+
+export const clearGeofenceLog = () =>
+  runExclusive(() => AsyncStorage.removeItem(GEOFENCE_LOG_KEY));
+
+// Se guarda junto al registro para que, tras reiniciar la app, la primera
+// evaluación compare contra donde estaba el vehículo y no contra "fuera de
+// todas": sin entradas repetidas y con las salidas ocurridas con la app cerrada
+export const loadGeofenceState = (): Promise<GeofenceState> =>
+  runExclusive(async () => {
+    try {
+      const raw = await AsyncStorage.getItem(GEOFENCE_STATE_KEY);
+      return raw ? (JSON.parse(raw) as GeofenceState) : {};
+    } catch (error) {
+      console.error("❌ Error leyendo el estado de geocercas:", error);
+      return {};
+    }
+  });
+
+export const saveGeofenceState = (state: GeofenceState) =>
+  runExclusive(() =>
+    AsyncStorage.setItem(GEOFENCE_STATE_KEY, JSON.stringify(state))
+  );
+
+// Emite "geofenceEnter"/"geofenceExit" en orden y espera el ack de cada uno.
+// El `clientId` permite al servidor descartar reenvíos. Devuelve cuántos se
+// confirmaron; al primer fallo se detiene para conservar el orden.
+export const deliverGeofenceEvents = async (
+  socket: Socket,
+  entries: GeofenceLogEntry[]
+) => {
+  const delivered: string[] = [];
+
+  try {
+    for (const { id, type, delivered: _, ...event } of entries) {
+      if (!socket.connected) break;
+      const ack: { status?: "ok" | "error"; message?: string } | undefined =
+        await socket
+          .timeout(GEOFENCE_ACK_TIMEOUT_MS)
+          .emitWithAck(
+            type === "enter" ? GEOFENCE_ENTER_EVENT : GEOFENCE_EXIT_EVENT,
+            { clientId: id, ...event }
+          );
+      if (ack?.status === "error") {
+        // Rechazado por el servidor: reintentar no sirve
+        console.log(`⚠️ Evento de geocerca rechazado: ${ack.message ?? id}`);
+      }
+      delivered.push(id);
+    }
+  } catch (error) {
+    console.error("❌ Sin confirmación de evento de geocerca:", error);
+  }
+
+  await markGeofenceEventsDelivered(delivered);
+  return delivered.length;
+};
@@ -0,0 +1,245 @@
+// lib/geofences.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { api } from "./api";
+import { Coordinate, distanceBetween } from "./geo";
+import type { LocationData } from "./locationTypes";
+
+const LOCAL_GEOFENCES_KEY = "localGeofences";
+
+export const GEOFENCE_ENTER_EVENT = "geofenceEnter";
+export const GEOFENCE_EXIT_EVENT = "geofenceExit";
+
+interface GeofenceBase {
+  id: string;
+  name: string;
+  // Las del servidor no se pueden borrar desde la app
+  source: "api" | "local";
+}
+
+export interface CircleGeofence extends GeofenceBase {
+  type: "circle";
+  center: Coordinate;
+  radiusMeters: number;
+}
+
+export interface PolygonGeofence extends GeofenceBase {
+  type: "polygon";
+  coordinates: Coordinate[];
+}
+
+export type Geofence = CircleGeofence | PolygonGeofence;
+
+// Margen para salir: evita entradas y salidas repetidas por el ruido del
+// GPS cuando el vehículo está justo en el borde
+const EXIT_MARGIN_METERS = 15;
+
+// Servidor y almacenamiento local
+
+export const fetchGeofences = async (): Promise<Geofence[]> => {
+  const { data } = await api.get<Omit<Geofence, "source">[]>("/geofences");
+  return (data ?? []).map(
+    (geofence) => ({ ...geofence, source: "api" }) as Geofence
+  );
+};
+
+export const loadLocalGeofences = async (): Promise<Geofence[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(LOCAL_GEOFENCES_KEY);
+    return raw ? (JSON.parse(raw) as Geofence[]) : [];
+  } catch (error) {
+    console.error("❌ Error leyendo geocercas locales:", error);
+    return [];
+  }
+};
+
+// Avisa a las pantallas abiertas cuando cambian las geocercas locales
+const localListeners = new Set<(geofences: Geofence[]) => void>();
+
+export const saveLocalGeofences = async (geofences: Geofence[]) => {
+  await AsyncStorage.setItem(LOCAL_GEOFENCES_KEY, JSON.stringify(geofences));
+  localListeners.forEach((listener) => listener(geofences));
+};
+
+export const subscribeLocalGeofences = (
+  listener: (geofences: Geofence[]) => void
+) => {
+  localListeners.add(listener);
+  return () => {
+    localListeners.delete(listener);
+  };
+};
+
+export const createCircleGeofence = (
+  name: string,
+  center: Coordinate,
+  radiusMeters: number
+): CircleGeofence => ({
+  id: `local-${Date.now().toString(36)}`,
+  name,
+  source: "local",
+  type: "circle",
+  center,
+  radiusMeters,
+});
+
+// Geometría
+
+// Punto de referencia para llegar a la geocerca: el centro del círculo o el
+// promedio de los vértices del polígono
+export const getGeofenceCenter = (geofence: Geofence): Coordinate => {
+  if (geofence.type === "circle") return geofence.center;
+  const count = Math.max(1, geofence.coordinates.length);
+  return {
+    latitude:
+      geofence.coordinates.reduce((sum, c) => sum + c.latitude, 0) / count,
+    longitude:
+      geofence.coordinates.reduce((sum, c) => sum + c.longitude, 0) / count,
+  };
+};
+
+// Proyección local en metros alrededor de `origin`; suficiente para
+// geocercas de unos pocos kilómetros
+const toLocalMeters = (origin: Coordinate, point: Coordinate) => {
+  const metersPerDegree = 111320;
+  return {
+    x:
+      (point.longitude - origin.longitude) *
+      metersPerDegree *
+      Math.cos((origin.latitude * Math.PI) / 180),
+    y: (point.latitude - origin.latitude) * metersPerDegree,
+  };
+};
+
+// Ray casting sobre latitud/longitud
+const isInsidePolygon = (point: Coordinate, polygon: Coordinate[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.latitude > point.latitude !== b.latitude > point.latitude &&
+      point.longitude <
+        ((b.longitude - a.longitude) * (point.latitude - a.latitude)) /
+          (b.latitude - a.latitude) +
+          a.longitude
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const distanceToPolygonEdge = (point: Coordinate, polygon: Coordinate[]) => {
+  let min = Infinity;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = toLocalMeters(point, polygon[j]);
+    const b = toLocalMeters(point, polygon[i]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t =
+      lengthSquared === 0
+        ? 0
+        : Math.min(1, Math.max(0, -(a.x * dx + a.y * dy) / lengthSquared));
+    min = Math.min(min, Math.hypot(a.x + t * dx, a.y + t * dy));
+  }
+  return min;
+};
+
+// `margin` agranda la geocerca; se usa para decidir si ya salió
+export const isInsideGeofence = (
+  geofence: Geofence,
+  point: Coordinate,
+  margin = 0
+) => {
+  if (geofence.type === "circle") {
+    return (
+      distanceBetween(geofence.center, point) <= geofence.radiusMeters + margin
+    );
+  }
+  if (geofence.coordinates.length < 3) return false;
+  return (
+    isInsidePolygon(point, geofence.coordinates) ||
+    (margin > 0 &&
+      distanceToPolygonEdge(point, geofence.coordinates) <= margin)
+  );
+};
+
+// Evaluación de entradas y salidas
+
+export interface GeofenceEvent {
+  type: "enter" | "exit";
+  geofenceId: string;
+  geofenceName: string;
+  vehicleId: string;
+  tripId?: string;
+  latitude: number;
+  longitude: number;
+  timestamp: string;
+  // Solo en salidas: tiempo dentro de la geocerca
+  dwellMs?: number;
+}
+
+// Geocercas en las que está el vehículo, con la hora de entrada
+export type GeofenceState = Record<string, string>;
+
+export const evaluateGeofences = (
+  state: GeofenceState,
+  geofences: Geofence[],
+  fix: LocationData,
+  context: { vehicleId: string; tripId?: string }
+): { state: GeofenceState; events: GeofenceEvent[] } => {
+  const next: GeofenceState = {};
+  const events: GeofenceEvent[] = [];
+
+  const toEvent = (
+    type: GeofenceEvent["type"],
+    geofence: Geofence,
+    dwellMs?: number
+  ): GeofenceEvent => ({
+    type,
+    geofenceId: geofence.id,
+    geofenceName: geofence.name,
+    ...context,
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    timestamp: fix.timestamp,
+    dwellMs,
+  });
+
+  geofences.forEach((geofence) => {
+    const enteredAt = state[geofence.id];
+
+    if (enteredAt) {
+      if (isInsideGeofence(geofence, fix, EXIT_MARGIN_METERS)) {
+        next[geofence.id] = enteredAt;
+      } else {
+        events.push(
+          toEvent(
+            "exit",
+            geofence,
+            Math.max(0, Date.parse(fix.timestamp) - Date.parse(enteredAt))
+          )
+        );
+      }
+    } else if (isInsideGeofence(geofence, fix)) {
+      next[geofence.id] = fix.timestamp;
+      events.push(toEvent("enter", geofence));
+    }
+  });
+
+  return { state: next, events };
+};
+
+// Agrega al estado evaluado las entradas de geocercas que no están en la
+// lista, p. ej. las del servidor restauradas tras un reinicio mientras la
+// descarga falla. Se reconcilian cuando la lista las incluya.
+export const keepUnknownGeofenceState = (
+  previous: GeofenceState,
+  next: GeofenceState,
+  geofences: Geofence[]
+): GeofenceState => {
+  const known = new Set(geofences.map((geofence) => geofence.id));
+  const unknown = Object.entries(previous).filter(([id]) => !known.has(id));
+  return { ...Object.fromEntries(unknown), ...next };
+};
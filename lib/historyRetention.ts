@@ -0,0 +1,50 @@
+// lib/historyRetention.ts
+// Retención del historial local. Recibe la base en lugar de abrirla para
+// poder probarla fuera de la app.
+
+type BindValue = string | number | null;
+
+// Lo que usa de la base de expo-sqlite
+export interface RetentionDatabase {
+  runAsync: (
+    source: string,
+    ...params: BindValue[]
+  ) => Promise<{ changes: number }>;
+  withTransactionAsync: (task: () => Promise<void>) => Promise<void>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Borra lo que ya no espera nada del servidor con más de `retentionDays`
+// días: ubicaciones confirmadas (ack) o rechazadas (failed) fuera de viajes
+// sin sincronizar, y viajes sincronizados. Las ubicaciones pendientes se
+// conservan aunque sean antiguas. 0 conserva todo. Devuelve las filas
+// borradas.
+export const pruneHistoryRows = async (
+  db: RetentionDatabase,
+  retentionDays: number,
+  now = Date.now(),
+): Promise<number> => {
+  if (retentionDays <= 0) return 0;
+
+  const cutoff = new Date(now - retentionDays * DAY_MS).toISOString();
+
+  let deleted = 0;
+  await db.withTransactionAsync(async () => {
+    const locations = await db.runAsync(
+      `DELETE FROM locations
+        WHERE timestamp < ?
+          AND delivery_state IN ('acked', 'failed')
+          AND (trip_id IS NULL
+            OR trip_id NOT IN (SELECT id FROM trips WHERE synced = 0))`,
+      cutoff,
+    );
+    const trips = await db.runAsync(
+      "DELETE FROM trips WHERE synced = 1 AND ended_at < ?",
+      cutoff,
+    );
+    deleted = locations.changes + trips.changes;
+  });
+
+  return deleted;
+};
@@ -0,0 +1,174 @@
+// lib/jobs.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { Socket } from "socket.io-client";
+import type { Coordinate } from "./geo";
+import type { LocationData } from "./locationTypes";
+import type { RouteTarget } from "./routing";
+
+const ACTIVE_JOB_KEY = "activeJob";
+const JOB_ACK_TIMEOUT_MS = 5000;
+
+// Servidor → conductor, en el mismo namespace /locations
+export const JOB_ASSIGNED_EVENT = "jobAssigned";
+export const JOB_CANCELLED_EVENT = "jobCancelled";
+// Conductor → servidor: respuesta a la asignación y cada cambio de estado
+export const JOB_STATUS_EVENT = "jobStatus";
+
+export type JobStatus =
+  | "assigned"
+  | "accepted"
+  | "rejected"
+  | "enRoute"
+  | "arrived"
+  | "inProgress"
+  | "completed"
+  | "cancelled";
+
+export interface JobStop extends Coordinate {
+  name: string;
+  address?: string;
+}
+
+export interface DispatchJob {
+  id: string;
+  title?: string;
+  notes?: string;
+  pickup: JobStop;
+  dropoff: JobStop;
+  status: JobStatus;
+  assignedAt: string;
+  updatedAt: string;
+}
+
+export interface JobStatusUpdate {
+  jobId: string;
+  vehicleId: string;
+  status: JobStatus;
+  timestamp: string;
+  // Ubicación del conductor al cambiar de estado; null si aún no hay fix
+  location: LocationData | null;
+  reason?: string;
+}
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  assigned: "Nuevo servicio",
+  accepted: "Aceptado",
+  rejected: "Rechazado",
+  enRoute: "En camino a recogida",
+  arrived: "En el punto de recogida",
+  inProgress: "En curso hacia la entrega",
+  completed: "Completado",
+  cancelled: "Cancelado por despacho",
+};
+
+// Orden del flujo una vez aceptado; cada estado indica el siguiente y el
+// texto del botón que lleva a él
+interface JobStep {
+  next: JobStatus;
+  action: string;
+}
+
+const JOB_FLOW: Partial<Record<JobStatus, JobStep>> = {
+  accepted: { next: "enRoute", action: "Ir a recogida" },
+  enRoute: { next: "arrived", action: "Llegué a recogida" },
+  arrived: { next: "inProgress", action: "Iniciar entrega" },
+  inProgress: { next: "completed", action: "Completar servicio" },
+};
+
+export const getNextJobStep = (status: JobStatus): JobStep | null =>
+  JOB_FLOW[status] ?? null;
+
+// Parada a la que se dirige el conductor según el estado
+export const getJobTarget = (job: DispatchJob): JobStop =>
+  job.status === "inProgress" ? job.dropoff : job.pickup;
+
+// Destino de la ruta planificada para el estado actual del servicio
+export const getJobRouteTarget = (job: DispatchJob): RouteTarget => {
+  const target = getJobTarget(job);
+  const isDropoff = target === job.dropoff;
+  return {
+    id: `job-${job.id}-${isDropoff ? "dropoff" : "pickup"}`,
+    name: `${isDropoff ? "Entrega" : "Recogida"}: ${target.name}`,
+    kind: "job",
+    latitude: target.latitude,
+    longitude: target.longitude,
+  };
+};
+
+const isStop = (value: unknown): value is JobStop => {
+  const stop = value as JobStop | null;
+  return (
+    !!stop &&
+    typeof stop.name === "string" &&
+    Number.isFinite(stop.latitude) &&
+    Number.isFinite(stop.longitude)
+  );
+};
+
+// Valida la asignación recibida por el socket; null si no sirve
+export const parseJobAssignment = (raw: unknown): DispatchJob | null => {
+  const job = raw as Partial<DispatchJob> | null;
+  if (!job || typeof job.id !== "string") return null;
+  if (!isStop(job.pickup) || !isStop(job.dropoff)) return null;
+
+  const now = new Date().toISOString();
+  return {
+    id: job.id,
+    title: job.title,
+    notes: job.notes,
+    pickup: job.pickup,
+    dropoff: job.dropoff,
+    status: "assigned",
+    assignedAt: job.assignedAt ?? now,
+    updatedAt: now,
+  };
+};
+
+// El servidor no confirmó el cambio de estado
+export class JobStatusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JobStatusError";
+  }
+}
+
+// Emite "jobStatus" y espera el ack; el estado local solo avanza si el
+// servidor lo confirma
+export const emitJobStatus = async (
+  socket: Socket | null,
+  update: JobStatusUpdate
+) => {
+  if (!socket?.connected) {
+    throw new JobStatusError("Sin conexión con el servidor");
+  }
+
+  let ack: { status?: "ok" | "error"; message?: string } | undefined;
+  try {
+    ack = await socket
+      .timeout(JOB_ACK_TIMEOUT_MS)
+      .emitWithAck(JOB_STATUS_EVENT, update);
+  } catch {
+    throw new JobStatusError("El servidor no confirmó el cambio de estado");
+  }
+
+  if (ack?.status === "error") {
+    throw new JobStatusError(ack.message || "Cambio de estado rechazado");
+  }
+};
+
+// Servicio en curso guardado en el dispositivo para sobrevivir reinicios
+
+export const loadActiveJob = async (): Promise<DispatchJob | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(ACTIVE_JOB_KEY);
+    return raw ? (JSON.parse(raw) as DispatchJob) : null;
+  } catch (error) {
+    console.error("❌ Error leyendo servicio activo:", error);
+    return null;
+  }
+};
+
+export const saveActiveJob = (job: DispatchJob | null) =>
+  job
+    ? AsyncStorage.setItem(ACTIVE_JOB_KEY, JSON.stringify(job))
+    : AsyncStorage.removeItem(ACTIVE_JOB_KEY);
@@ -0,0 +1,226 @@
+// lib/loadSimulator.ts
+// Simulador de carga: abre una conexión de socket por vehículo simulado y
+// emite "sendLocation" a ritmo fijo para medir el servidor de tracking.
+// Sin dependencias de React Native: lo usa scripts/load-simulator.ts.
+import { io, Socket } from "socket.io-client";
+import { createClientId, LocationAck } from "./locationDelivery";
+import type { LocationPayload } from "./locationTypes";
+import { BUILT_IN_REGIONS, getRegionRoutes, RegionProfile } from "./regions";
+import {
+  createRng,
+  SIMULATION_SCENARIOS,
+  simulateRoute,
+} from "./simulation";
+
+export interface LoadSimulationConfig {
+  // URL del namespace /locations
+  url: string;
+  token?: string;
+  vehicleCount: number;
+  vehicleIdPrefix: string;
+  // Intervalo entre ubicaciones de cada vehículo
+  intervalMs: number;
+  // 0 = hasta llamar a stop()
+  durationMs: number;
+  seed: number | string;
+  ackTimeoutMs: number;
+  // Región de la que salen las rutas
+  region: RegionProfile;
+}
+
+export const DEFAULT_LOAD_SIMULATION_CONFIG: Omit<
+  LoadSimulationConfig,
+  "url"
+> = {
+  region: BUILT_IN_REGIONS[0],
+  vehicleCount: 10,
+  vehicleIdPrefix: "sim",
+  intervalMs: 1000,
+  durationMs: 60000,
+  seed: 1,
+  ackTimeoutMs: 5000,
+};
+
+export interface LatencyStats {
+  avg: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+export interface LoadSimulationStats {
+  elapsedMs: number;
+  connected: number;
+  connectErrors: number;
+  disconnects: number;
+  sent: number;
+  acked: number;
+  rejected: number;
+  timeouts: number;
+  // Ticks en los que el vehículo estaba desconectado
+  skipped: number;
+  // Ubicaciones confirmadas por segundo
+  throughput: number;
+  latency: LatencyStats | null;
+}
+
+export interface LoadSimulation {
+  getStats: () => LoadSimulationStats;
+  // Detiene los envíos, espera los acks pendientes y cierra las conexiones
+  stop: () => Promise<LoadSimulationStats>;
+  // Se resuelve al terminar (por duración o por stop)
+  done: Promise<LoadSimulationStats>;
+}
+
+const percentile = (sorted: number[], fraction: number) =>
+  sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+
+const summarizeLatency = (latencies: number[]): LatencyStats | null => {
+  if (latencies.length === 0) return null;
+  const sorted = [...latencies].sort((a, b) => a - b);
+  return {
+    avg: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    p50: percentile(sorted, 0.5),
+    p95: percentile(sorted, 0.95),
+    p99: percentile(sorted, 0.99),
+    max: sorted[sorted.length - 1],
+  };
+};
+
+export const createLoadSimulation = (
+  config: LoadSimulationConfig,
+  onProgress?: (stats: LoadSimulationStats) => void
+): LoadSimulation => {
+  const startedAt = Date.now();
+  const counters = {
+    connectErrors: 0,
+    disconnects: 0,
+    sent: 0,
+    acked: 0,
+    rejected: 0,
+    timeouts: 0,
+    skipped: 0,
+  };
+  const latencies: number[] = [];
+  const sockets: Socket[] = [];
+  const timers: ReturnType<typeof setTimeout>[] = [];
+  const inFlight = new Set<Promise<void>>();
+  let stopping: Promise<LoadSimulationStats> | null = null;
+  let resolveDone: (stats: LoadSimulationStats) => void = () => {};
+  const done = new Promise<LoadSimulationStats>((resolve) => {
+    resolveDone = resolve;
+  });
+
+  const getStats = (): LoadSimulationStats => {
+    const elapsedMs = Date.now() - startedAt;
+    return {
+      elapsedMs,
+      connected: sockets.filter((socket) => socket.connected).length,
+      ...counters,
+      throughput: elapsedMs > 0 ? counters.acked / (elapsedMs / 1000) : 0,
+      latency: summarizeLatency(latencies),
+    };
+  };
+
+  const emit = async (socket: Socket, payload: LocationPayload) => {
+    counters.sent++;
+    const sentAt = Date.now();
+    try {
+      const ack: LocationAck | undefined = await socket
+        .timeout(config.ackTimeoutMs)
+        .emitWithAck("sendLocation", payload);
+
+      if (ack?.status === "error") {
+        counters.rejected++;
+        return;
+      }
+      counters.acked++;
+      latencies.push(Date.now() - sentAt);
+    } catch {
+      counters.timeouts++;
+    }
+  };
+
+  const startVehicle = (index: number) => {
+    const vehicleSeed = `${config.seed}-${index}`;
+    const rng = createRng(vehicleSeed);
+    const routes = getRegionRoutes(config.region);
+    const scenario = rng.pick(SIMULATION_SCENARIOS);
+    const points = simulateRoute(
+      rng.pick(routes),
+      { ...scenario, sampleIntervalMs: config.intervalMs },
+      { seed: vehicleSeed }
+    );
+    const vehicleId = `${config.vehicleIdPrefix}-${index + 1}`;
+
+    // forceNew: sin esto socket.io reutiliza una sola conexión para todos
+    const socket = io(config.url, {
+      auth: { token: config.token },
+      transports: ["websocket"],
+      forceNew: true,
+      timeout: 10000,
+    });
+    socket.on("connect_error", () => counters.connectErrors++);
+    socket.on("disconnect", () => counters.disconnects++);
+    sockets.push(socket);
+
+    let pointIndex = 0;
+    const tick = () => {
+      if (!socket.connected) {
+        counters.skipped++;
+        return;
+      }
+      // Al terminar la ruta se vuelve a empezar
+      const point = points[pointIndex % points.length];
+      pointIndex++;
+
+      const request = emit(socket, {
+        ...point,
+        clientId: createClientId(),
+        vehicleId,
+        timestamp: new Date().toISOString(),
+      });
+      inFlight.add(request);
+      request.finally(() => inFlight.delete(request));
+    };
+
+    // Arranques escalonados para no emitir todos en el mismo instante
+    const offset = (index * config.intervalMs) / config.vehicleCount;
+    timers.push(
+      setTimeout(() => {
+        tick();
+        timers.push(setInterval(tick, config.intervalMs));
+      }, offset)
+    );
+  };
+
+  const stop = () => {
+    if (!stopping) {
+      stopping = (async () => {
+        // Sirve para setTimeout y setInterval
+        timers.forEach((timer) => clearInterval(timer));
+        await Promise.allSettled([...inFlight]);
+        const stats = getStats();
+        sockets.forEach((socket) => socket.disconnect());
+        resolveDone(stats);
+        return stats;
+      })();
+    }
+    return stopping;
+  };
+
+  for (let index = 0; index < config.vehicleCount; index++) {
+    startVehicle(index);
+  }
+
+  if (onProgress) {
+    const progressTimer = setInterval(() => onProgress(getStats()), 1000);
+    done.finally(() => clearInterval(progressTimer));
+  }
+  if (config.durationMs > 0) {
+    timers.push(setTimeout(stop, config.durationMs));
+  }
+
+  return { getStats, stop, done };
+};
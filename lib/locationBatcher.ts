@@ -0,0 +1,65 @@
+// lib/locationBatcher.ts
+import type { OutboxEntry } from "./locationOutbox";
+
+export interface BatchingConfig {
+  enabled: boolean;
+  // Se envía el lote al llegar a tantos puntos...
+  maxPoints: number;
+  // ...o cuando el primer punto lleva este tiempo esperando
+  maxWaitMs: number;
+}
+
+export const DEFAULT_BATCHING_CONFIG: BatchingConfig = {
+  enabled: false,
+  maxPoints: 10,
+  maxWaitMs: 10000,
+};
+
+export interface LocationBatcher {
+  add: (entry: OutboxEntry) => void;
+  flush: () => Promise<void>;
+  size: () => number;
+}
+
+// Acumula ubicaciones y las entrega a `send` en lotes. La configuración se
+// lee en cada punto para respetar cambios hechos con el tracking activo.
+export const createLocationBatcher = (
+  send: (entries: OutboxEntry[]) => Promise<void>,
+  getConfig: () => BatchingConfig
+): LocationBatcher => {
+  let buffer: OutboxEntry[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = async () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (buffer.length === 0) return;
+
+    const entries = buffer;
+    buffer = [];
+    await send(entries);
+  };
+
+  const add = (entry: OutboxEntry) => {
+    // Un lote lleva un solo vehículo: si cambia, se cierra el anterior
+    if (
+      buffer.length > 0 &&
+      buffer[0].payload.vehicleId !== entry.payload.vehicleId
+    ) {
+      flush();
+    }
+
+    buffer.push(entry);
+    const { maxPoints, maxWaitMs } = getConfig();
+
+    if (buffer.length >= maxPoints) {
+      flush();
+    } else if (!timer) {
+      timer = setTimeout(flush, maxWaitMs);
+    }
+  };
+
+  return { add, flush, size: () => buffer.length };
+};
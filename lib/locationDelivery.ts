@@ -0,0 +1,204 @@
+// lib/locationDelivery.ts
+import type { Socket } from "socket.io-client";
+import type { LocationPayload } from "./locationTypes";
+
+export interface AckOptions {
+  timeoutMs: number;
+  retries: number;
+}
+
+export const DEFAULT_ACK_OPTIONS: AckOptions = {
+  timeoutMs: 5000,
+  retries: 2,
+};
+
+// Respuesta esperada del servidor al confirmar "sendLocation"
+export interface LocationAck {
+  clientId?: string;
+  status?: "ok" | "error";
+  message?: string;
+}
+
+// El servidor respondió pero rechazó la ubicación: reintentar no sirve
+export class LocationRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LocationRejectedError";
+  }
+}
+
+// Id generado en el dispositivo; también lo usan chat y SOS con su prefijo
+export const createClientId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Emite "sendLocation" y espera el ack, reintentando ante timeouts
+export const emitLocationWithAck = async (
+  socket: Socket,
+  payload: LocationPayload,
+  options: AckOptions = DEFAULT_ACK_OPTIONS
+): Promise<LocationAck> => {
+  let lastError: unknown = new Error("Socket desconectado");
+
+  for (let attempt = 0; attempt <= options.retries; attempt++) {
+    if (!socket.connected) break;
+
+    try {
+      const ack: LocationAck | undefined = await socket
+        .timeout(options.timeoutMs)
+        .emitWithAck("sendLocation", payload);
+
+      if (ack?.status === "error") {
+        throw new LocationRejectedError(
+          ack.message || "Ubicación rechazada por el servidor"
+        );
+      }
+
+      return ack ?? {};
+    } catch (error) {
+      if (error instanceof LocationRejectedError) throw error;
+      lastError = error;
+      console.log(
+        `⏱️ Sin ack para ${payload.clientId} (intento ${attempt + 1}/${options.retries + 1})`
+      );
+    }
+  }
+
+  throw lastError;
+};
+
+// Lotes: "sendLocations" agrupa varias ubicaciones en un solo evento
+
+export const CAPABILITIES_EVENT = "getCapabilities";
+
+// Lo que el servidor anuncia soportar; sin respuesta se asume nada
+export interface ServerCapabilities {
+  batch?: boolean;
+  maxBatchSize?: number;
+}
+
+// Formato compacto de cada punto del lote: claves cortas, coordenadas como
+// enteros en micro-grados y tiempo relativo al inicio del lote
+export interface CompactLocation {
+  id: string;
+  la: number;
+  lo: number;
+  dt: number;
+  ac?: number;
+  sp?: number;
+  hd?: number;
+  tr?: string;
+  lq?: true;
+  // Solo si difiere del vehículo del lote
+  v?: string;
+}
+
+export interface LocationBatch {
+  v: string;
+  t0: number;
+  p: CompactLocation[];
+}
+
+export interface LocationBatchAck {
+  status?: "ok" | "error";
+  message?: string;
+  // Resultado por punto; si falta, el lote completo se da por confirmado
+  results?: LocationAck[];
+}
+
+export interface LocationBatchResult {
+  acked: string[];
+  rejected: { clientId: string; message: string }[];
+}
+
+const COORDINATE_SCALE = 1e6;
+
+const roundTenth = (value: number | undefined) =>
+  value === undefined ? undefined : Math.round(value * 10) / 10;
+
+export const encodeLocationBatch = (
+  payloads: LocationPayload[]
+): LocationBatch => {
+  const vehicleId = payloads[0].vehicleId;
+  const t0 = Math.min(...payloads.map((p) => Date.parse(p.timestamp)));
+
+  return {
+    v: vehicleId,
+    t0,
+    p: payloads.map((payload) => ({
+      id: payload.clientId,
+      la: Math.round(payload.latitude * COORDINATE_SCALE),
+      lo: Math.round(payload.longitude * COORDINATE_SCALE),
+      dt: Date.parse(payload.timestamp) - t0,
+      ac: roundTenth(payload.accuracy),
+      sp: roundTenth(payload.speed),
+      hd: roundTenth(payload.heading),
+      tr: payload.tripId,
+      lq: payload.lowAccuracy ? true : undefined,
+      v: payload.vehicleId !== vehicleId ? payload.vehicleId : undefined,
+    })),
+  };
+};
+
+// Pregunta al servidor qué soporta. Servidores antiguos no responden.
+export const fetchServerCapabilities = async (
+  socket: Socket,
+  timeoutMs = 3000
+): Promise<ServerCapabilities> => {
+  try {
+    const capabilities: ServerCapabilities | undefined = await socket
+      .timeout(timeoutMs)
+      .emitWithAck(CAPABILITIES_EVENT);
+    return capabilities ?? {};
+  } catch {
+    return {};
+  }
+};
+
+// Emite "sendLocations" y espera el ack del lote, reintentando ante timeouts
+export const emitLocationBatchWithAck = async (
+  socket: Socket,
+  payloads: LocationPayload[],
+  options: AckOptions = DEFAULT_ACK_OPTIONS
+): Promise<LocationBatchResult> => {
+  const batch = encodeLocationBatch(payloads);
+  let lastError: unknown = new Error("Socket desconectado");
+
+  for (let attempt = 0; attempt <= options.retries; attempt++) {
+    if (!socket.connected) break;
+
+    try {
+      const ack: LocationBatchAck | undefined = await socket
+        .timeout(options.timeoutMs)
+        .emitWithAck("sendLocations", batch);
+
+      if (ack?.status === "error") {
+        throw new LocationRejectedError(
+          ack.message || "Lote rechazado por el servidor"
+        );
+      }
+
+      const rejected = (ack?.results ?? [])
+        .filter((result) => result.status === "error" && result.clientId)
+        .map((result) => ({
+          clientId: result.clientId!,
+          message: result.message || "Ubicación rechazada por el servidor",
+        }));
+      const rejectedIds = new Set(rejected.map((r) => r.clientId));
+
+      return {
+        acked: payloads
+          .map((p) => p.clientId)
+          .filter((id) => !rejectedIds.has(id)),
+        rejected,
+      };
+    } catch (error) {
+      if (error instanceof LocationRejectedError) throw error;
+      lastError = error;
+      console.log(
+        `⏱️ Sin ack para lote de ${payloads.length} (intento ${attempt + 1}/${options.retries + 1})`
+      );
+    }
+  }
+
+  throw lastError;
+};
@@ -0,0 +1,230 @@
+// lib/locationHistory.ts
+import { getDatabase } from "./database";
+import { pruneHistoryRows } from "./historyRetention";
+import type { OutboxEntry } from "./locationOutbox";
+import type {
+  DeliveryState,
+  LocationData,
+  LocationType,
+} from "./locationTypes";
+import type { TripSummary } from "./trips";
+
+// Cada fix registrado, con su estado de entrega al servidor
+export interface HistoryPoint extends LocationData {
+  clientId: string;
+  vehicleId: string;
+  tripId: string | null;
+  type: LocationType;
+  deliveryState: DeliveryState;
+}
+
+interface LocationRow {
+  client_id: string;
+  vehicle_id: string;
+  trip_id: string | null;
+  type: LocationType;
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  speed: number | null;
+  heading: number | null;
+  low_accuracy: number;
+  timestamp: string;
+  delivery_state: DeliveryState;
+}
+
+interface TripRow {
+  id: string;
+  vehicle_id: string;
+  started_at: string;
+  ended_at: string;
+  duration_ms: number;
+  distance_m: number;
+  moving_ms: number;
+  idle_ms: number;
+  max_speed: number;
+  avg_speed: number;
+  mean_accuracy: number;
+  point_count: number;
+  synced: number;
+}
+
+const toHistoryPoint = (row: LocationRow): HistoryPoint => ({
+  clientId: row.client_id,
+  vehicleId: row.vehicle_id,
+  tripId: row.trip_id,
+  type: row.type,
+  latitude: row.latitude,
+  longitude: row.longitude,
+  accuracy: row.accuracy ?? undefined,
+  speed: row.speed ?? undefined,
+  heading: row.heading ?? undefined,
+  lowAccuracy: row.low_accuracy === 1 || undefined,
+  timestamp: row.timestamp,
+  deliveryState: row.delivery_state,
+});
+
+const toTripSummary = (row: TripRow): TripSummary => ({
+  tripId: row.id,
+  vehicleId: row.vehicle_id,
+  startedAt: row.started_at,
+  endedAt: row.ended_at,
+  durationMs: row.duration_ms,
+  distanceMeters: row.distance_m,
+  movingMs: row.moving_ms,
+  idleMs: row.idle_ms,
+  maxSpeed: row.max_speed,
+  avgSpeed: row.avg_speed,
+  meanAccuracy: row.mean_accuracy,
+  pointCount: row.point_count,
+  synced: row.synced === 1,
+});
+
+// Ubicaciones
+
+export const recordLocation = async (
+  { payload, type }: OutboxEntry,
+  deliveryState: DeliveryState
+) => {
+  const db = await getDatabase();
+  await db.runAsync(
+    `INSERT OR REPLACE INTO locations (
+      client_id, vehicle_id, trip_id, type, latitude, longitude, accuracy,
+      speed, heading, low_accuracy, timestamp, delivery_state
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    payload.clientId,
+    payload.vehicleId,
+    payload.tripId ?? null,
+    type,
+    payload.latitude,
+    payload.longitude,
+    payload.accuracy ?? null,
+    payload.speed ?? null,
+    payload.heading ?? null,
+    payload.lowAccuracy ? 1 : 0,
+    payload.timestamp,
+    deliveryState
+  );
+};
+
+export const setLocationDeliveryState = async (
+  clientId: string,
+  deliveryState: DeliveryState
+) => {
+  const db = await getDatabase();
+  await db.runAsync(
+    "UPDATE locations SET delivery_state = ? WHERE client_id = ?",
+    deliveryState,
+    clientId
+  );
+};
+
+// Más recientes primero
+export const getRecentLocations = async (
+  limit: number
+): Promise<HistoryPoint[]> => {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<LocationRow>(
+    "SELECT * FROM locations ORDER BY timestamp DESC LIMIT ?",
+    limit
+  );
+  return rows.map(toHistoryPoint);
+};
+
+// En orden cronológico, para dibujar el recorrido
+export const getTripPoints = async (
+  tripId: string
+): Promise<HistoryPoint[]> => {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<LocationRow>(
+    "SELECT * FROM locations WHERE trip_id = ? ORDER BY timestamp ASC",
+    tripId
+  );
+  return rows.map(toHistoryPoint);
+};
+
+// Ubicaciones registradas sin viaje en curso, más recientes primero, de a
+// `limit`. `after` es el último punto de la página anterior.
+export const getLocationsOutsideTrips = async (
+  limit: number,
+  after?: HistoryPoint
+): Promise<HistoryPoint[]> => {
+  const db = await getDatabase();
+  const rows = after
+    ? await db.getAllAsync<LocationRow>(
+        `SELECT * FROM locations
+          WHERE trip_id IS NULL
+            AND (timestamp < ? OR (timestamp = ? AND client_id < ?))
+          ORDER BY timestamp DESC, client_id DESC LIMIT ?`,
+        after.timestamp,
+        after.timestamp,
+        after.clientId,
+        limit
+      )
+    : await db.getAllAsync<LocationRow>(
+        `SELECT * FROM locations WHERE trip_id IS NULL
+          ORDER BY timestamp DESC, client_id DESC LIMIT ?`,
+        limit
+      );
+  return rows.map(toHistoryPoint);
+};
+
+// Resúmenes de viaje
+
+export const saveTripSummaryRecord = async (summary: TripSummary) => {
+  const db = await getDatabase();
+  await db.runAsync(
+    `INSERT OR REPLACE INTO trips (
+      id, vehicle_id, started_at, ended_at, duration_ms, distance_m,
+      moving_ms, idle_ms, max_speed, avg_speed, mean_accuracy, point_count,
+      synced
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    summary.tripId,
+    summary.vehicleId,
+    summary.startedAt,
+    summary.endedAt,
+    summary.durationMs,
+    summary.distanceMeters,
+    summary.movingMs,
+    summary.idleMs,
+    summary.maxSpeed,
+    summary.avgSpeed,
+    summary.meanAccuracy,
+    summary.pointCount,
+    summary.synced ? 1 : 0
+  );
+};
+
+// Más recientes primero
+export const listTripSummaryRecords = async (): Promise<TripSummary[]> => {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<TripRow>(
+    "SELECT * FROM trips ORDER BY started_at DESC"
+  );
+  return rows.map(toTripSummary);
+};
+
+export const getTripSummaryRecord = async (
+  tripId: string
+): Promise<TripSummary | null> => {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<TripRow>(
+    "SELECT * FROM trips WHERE id = ?",
+    tripId
+  );
+  return row ? toTripSummary(row) : null;
+};
+
+export const markTripSummaryRecordsSynced = async (tripIds: string[]) => {
+  if (tripIds.length === 0) return;
+
+  const db = await getDatabase();
+  await db.runAsync(
+    `UPDATE trips SET synced = 1 WHERE id IN (${tripIds.map(() => "?").join(", ")})`,
+    ...tripIds
+  );
+};
+
+// Retención: ver lib/historyRetention.ts
+export const pruneHistory = async (retentionDays: number): Promise<number> =>
+  pruneHistoryRows(await getDatabase(), retentionDays);
@@ -0,0 +1,137 @@
+// lib/locationOutbox.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { getDatabase } from "./database";
+import type { LocationPayload, LocationType } from "./locationTypes";
+
+// Versiones anteriores guardaban toda la cola en un único valor JSON
+const LEGACY_OUTBOX_STORAGE_KEY = "locationOutbox";
+
+// Límite para no crecer sin control si el dispositivo pasa horas sin red
+const MAX_OUTBOX_SIZE = 5000;
+
+export interface OutboxEntry {
+  payload: LocationPayload;
+  type: LocationType;
+}
+
+// Una fila por ubicación: encolar y confirmar no reescriben la cola entera
+interface OutboxRow {
+  id: number;
+  type: LocationType;
+  payload: string;
+}
+
+// Serializa las operaciones para que dos vaciados no envíen lo mismo
+let queue: Promise<unknown> = Promise.resolve();
+
+const runExclusive = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = queue.then(task, task);
+  queue = result.catch(() => undefined);
+  return result;
+};
+
+const insertEntry = async (entry: OutboxEntry) => {
+  const db = await getDatabase();
+  await db.runAsync(
+    "INSERT INTO outbox (timestamp, type, payload) VALUES (?, ?, ?)",
+    entry.payload.timestamp,
+    entry.type,
+    JSON.stringify(entry.payload)
+  );
+};
+
+let legacyImport: Promise<void> | null = null;
+
+// Pasa a SQLite la cola guardada por versiones anteriores, una sola vez
+const importLegacyOutbox = () => {
+  if (!legacyImport) {
+    legacyImport = (async () => {
+      const raw = await AsyncStorage.getItem(LEGACY_OUTBOX_STORAGE_KEY);
+      if (!raw) return;
+
+      const entries = JSON.parse(raw) as OutboxEntry[];
+      const db = await getDatabase();
+      await db.withTransactionAsync(async () => {
+        for (const entry of entries) {
+          await insertEntry(entry);
+        }
+      });
+      await AsyncStorage.removeItem(LEGACY_OUTBOX_STORAGE_KEY);
+      console.log(`📥 Cola offline migrada a SQLite: ${entries.length}`);
+    })().catch((error) => {
+      legacyImport = null;
+      console.error("❌ Error migrando la cola de ubicaciones:", error);
+    });
+  }
+  return legacyImport;
+};
+
+const countEntries = async () => {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<{ count: number }>(
+    "SELECT COUNT(*) AS count FROM outbox"
+  );
+  return row?.count ?? 0;
+};
+
+const toEntry = (row: OutboxRow): OutboxEntry => ({
+  type: row.type,
+  payload: JSON.parse(row.payload) as LocationPayload,
+});
+
+// Agrega una ubicación a la cola persistente y devuelve el total pendiente
+export const enqueueLocation = (entry: OutboxEntry): Promise<number> =>
+  runExclusive(async () => {
+    await importLegacyOutbox();
+    await insertEntry(entry);
+
+    // Al pasar el límite se descartan las más antiguas en llegar
+    const count = await countEntries();
+    if (count > MAX_OUTBOX_SIZE) {
+      const db = await getDatabase();
+      await db.runAsync(
+        "DELETE FROM outbox WHERE id IN (SELECT id FROM outbox ORDER BY id ASC LIMIT ?)",
+        count - MAX_OUTBOX_SIZE
+      );
+      return MAX_OUTBOX_SIZE;
+    }
+    return count;
+  });
+
+export const getOutboxSize = (): Promise<number> =>
+  runExclusive(async () => {
+    await importLegacyOutbox();
+    return countEntries();
+  });
+
+// Envía las ubicaciones pendientes en orden cronológico, de a `batchSize`.
+// Cada grupo se borra por id solo después de enviarse; si `send` falla, ese
+// grupo y los siguientes se conservan para otro intento.
+export const drainOutboxInBatches = (
+  send: (entries: OutboxEntry[]) => void | Promise<void>,
+  batchSize: number
+): Promise<number> =>
+  runExclusive(async () => {
+    await importLegacyOutbox();
+    const db = await getDatabase();
+
+    for (;;) {
+      const rows = await db.getAllAsync<OutboxRow>(
+        "SELECT id, type, payload FROM outbox ORDER BY timestamp ASC, id ASC LIMIT ?",
+        batchSize
+      );
+      if (rows.length === 0) break;
+
+      await send(rows.map(toEntry));
+      await db.runAsync(
+        `DELETE FROM outbox WHERE id IN (${rows.map(() => "?").join(", ")})`,
+        ...rows.map((row) => row.id)
+      );
+    }
+
+    return countEntries();
+  });
+
+export const drainOutbox = (
+  send: (entry: OutboxEntry) => void | Promise<void>
+): Promise<number> => drainOutboxInBatches(([entry]) => send(entry), 1);
@@ -0,0 +1,35 @@
+// lib/locationTypes.ts
+
+// Punto de ubicación tal como lo maneja la app
+export interface LocationData {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  timestamp: string;
+  speed?: number;
+  heading?: number;
+  // Marcado por el filtro de fixes cuando la precisión supera el umbral
+  lowAccuracy?: boolean;
+}
+
+export type LocationType = "manual" | "auto" | "test" | "random";
+
+// Estado de entrega de una ubicación según el ack del servidor
+export type DeliveryState = "pending" | "acked" | "failed";
+
+// Payload que se emite en el evento "sendLocation" del socket
+export interface LocationPayload {
+  // Id generado en el cliente; se mantiene en los reintentos para que el
+  // servidor pueda descartar duplicados
+  clientId: string;
+  vehicleId: string;
+  latitude: number;
+  longitude: number;
+  timestamp: string;
+  accuracy?: number;
+  speed?: number;
+  heading?: number;
+  lowAccuracy?: boolean;
+  // Viaje en curso al momento del fix, si lo hay
+  tripId?: string;
+}
@@ -0,0 +1,120 @@
+// lib/motionSampler.ts
+// Decide qué fixes del tracking automático se envían según el movimiento del
+// vehículo. Sin dependencias de React Native; las políticas con la precisión
+// del GPS están en lib/samplingPolicy.ts.
+import { distanceBetween } from "./geo";
+import type { LocationData } from "./locationTypes";
+
+export type MotionState = "stationary" | "moving" | "fast";
+
+export interface SamplingRate {
+  // Nunca se envía más seguido que esto
+  minIntervalMs: number;
+  // Latido: se envía al menos con esta frecuencia aunque no haya cambios
+  maxIntervalMs: number;
+  // Desplazamiento que justifica un envío pasado el intervalo mínimo
+  distanceMeters: number;
+}
+
+// Parte de la política que decide qué fixes se envían
+export interface SamplingRules {
+  rates: Record<MotionState, SamplingRate>;
+  // Giro (grados) que justifica un envío aunque no se cumpla la distancia
+  headingChangeDegrees: number;
+}
+
+// Umbrales de velocidad (m/s) para clasificar el movimiento
+const STATIONARY_SPEED_MPS = 0.8;
+const FAST_SPEED_MPS = 15; // 54 km/h
+
+// Tiempo por debajo del umbral antes de considerar el vehículo detenido
+const STATIONARY_AFTER_MS = 60000;
+
+// Dos fixes más cercanos que esto son el mismo punto visto por dos fuentes
+const DUPLICATE_WINDOW_MS = 1000;
+
+export interface SamplerState {
+  lastSent: LocationData | null;
+  motion: MotionState;
+  // Desde cuándo el vehículo va por debajo del umbral de detenido
+  slowSince: number | null;
+}
+
+export const createSamplerState = (): SamplerState => ({
+  lastSent: null,
+  motion: "moving",
+  slowSince: null,
+});
+
+// Diferencia angular mínima entre dos rumbos (0-180°)
+const headingDelta = (a: number, b: number) => {
+  const delta = Math.abs(a - b) % 360;
+  return delta > 180 ? 360 - delta : delta;
+};
+
+const classifyMotion = (
+  state: SamplerState,
+  speed: number,
+  timestamp: number
+): Pick<SamplerState, "motion" | "slowSince"> => {
+  if (speed >= FAST_SPEED_MPS) return { motion: "fast", slowSince: null };
+  if (speed > STATIONARY_SPEED_MPS)
+    return { motion: "moving", slowSince: null };
+
+  const slowSince = state.slowSince ?? timestamp;
+  const motion =
+    state.motion === "stationary" ||
+    timestamp - slowSince >= STATIONARY_AFTER_MS
+      ? "stationary"
+      : "moving";
+  return { motion, slowSince };
+};
+
+// Decide si un fix del tracking automático debe enviarse según la política.
+// Los fixes de la suscripción y del latido pasan por aquí, lo que descarta
+// los duplicados entre ambas fuentes.
+export const sampleFix = (
+  state: SamplerState,
+  fix: LocationData,
+  policy: SamplingRules
+): { state: SamplerState; sample: boolean } => {
+  const timestamp = Date.parse(fix.timestamp);
+  const { lastSent } = state;
+
+  if (!lastSent) {
+    return {
+      state: {
+        ...state,
+        ...classifyMotion(state, fix.speed ?? 0, timestamp),
+        lastSent: fix,
+      },
+      sample: true,
+    };
+  }
+
+  const elapsedMs = timestamp - Date.parse(lastSent.timestamp);
+  if (elapsedMs < DUPLICATE_WINDOW_MS) {
+    return { state, sample: false };
+  }
+
+  const distance = distanceBetween(lastSent, fix);
+  const speed = fix.speed ?? distance / (elapsedMs / 1000);
+  const next = { ...state, ...classifyMotion(state, speed, timestamp) };
+  const rate = policy.rates[next.motion];
+
+  const turned =
+    next.motion !== "stationary" &&
+    fix.heading !== undefined &&
+    lastSent.heading !== undefined &&
+    headingDelta(fix.heading, lastSent.heading) >= policy.headingChangeDegrees;
+
+  const sample =
+    elapsedMs >= rate.maxIntervalMs ||
+    (elapsedMs >= rate.minIntervalMs &&
+      (distance >= rate.distanceMeters || turned));
+
+  return {
+    state: sample ? { ...next, lastSent: fix } : next,
+    sample,
+  };
+};
@@ -0,0 +1,306 @@
+// lib/regions.ts
+// Perfiles de región para los datos de prueba: centro del mapa, límites,
+// puntos de interés y rutas de simulación. Sin dependencias de React Native.
+import type { Coordinate } from "./geo";
+import type { SimulationRoute } from "./simulation";
+
+export interface RegionBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface PointOfInterest extends Coordinate {
+  name: string;
+}
+
+export interface RegionProfile {
+  id: string;
+  name: string;
+  center: Coordinate;
+  bounds: RegionBounds;
+  pointsOfInterest: PointOfInterest[];
+  // Base de la flota; sin ella se usa el primer punto de interés
+  depot?: PointOfInterest;
+  // Sin rutas se simula un recorrido entre los puntos de interés
+  routes?: SimulationRoute[];
+}
+
+// El JSON de región no tiene el formato esperado
+export class RegionProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RegionProfileError";
+  }
+}
+
+export const DEFAULT_REGION_ID = "cartagena";
+
+// Coordenadas aproximadas sobre vías principales
+export const BUILT_IN_REGIONS: RegionProfile[] = [
+  {
+    id: "cartagena",
+    name: "Cartagena",
+    center: { latitude: 10.391, longitude: -75.4794 },
+    bounds: { north: 10.5, south: 10.28, east: -75.35, west: -75.6 },
+    depot: { name: "Base Mamonal", latitude: 10.3315, longitude: -75.4986 },
+    pointsOfInterest: [
+      { name: "Centro Histórico", latitude: 10.4236, longitude: -75.5378 },
+      { name: "Bocagrande", latitude: 10.3997, longitude: -75.5513 },
+      { name: "Castillo San Felipe", latitude: 10.4219, longitude: -75.5433 },
+      { name: "Getsemaní", latitude: 10.42, longitude: -75.55 },
+      { name: "La Matuna", latitude: 10.418, longitude: -75.542 },
+      { name: "Manga", latitude: 10.405, longitude: -75.525 },
+      { name: "Pie de la Popa", latitude: 10.41, longitude: -75.53 },
+      { name: "Crespo", latitude: 10.43, longitude: -75.52 },
+    ],
+    routes: [
+      {
+        id: "bocagrande-centro",
+        name: "Bocagrande → Centro Histórico",
+        waypoints: [
+          { latitude: 10.3948, longitude: -75.5578 },
+          { latitude: 10.3989, longitude: -75.5547 },
+          { latitude: 10.4031, longitude: -75.5516 },
+          { latitude: 10.4072, longitude: -75.5493 },
+          { latitude: 10.4127, longitude: -75.5507 },
+          { latitude: 10.4178, longitude: -75.5527 },
+          { latitude: 10.4222, longitude: -75.5526 },
+          { latitude: 10.4243, longitude: -75.5497 },
+        ],
+      },
+      {
+        id: "pedro-de-heredia",
+        name: "Av. Pedro de Heredia (Centro → Terminal)",
+        waypoints: [
+          { latitude: 10.4196, longitude: -75.5389 },
+          { latitude: 10.4151, longitude: -75.5302 },
+          { latitude: 10.4118, longitude: -75.5241 },
+          { latitude: 10.4089, longitude: -75.5198 },
+          { latitude: 10.4031, longitude: -75.5102 },
+          { latitude: 10.3992, longitude: -75.5003 },
+          { latitude: 10.3961, longitude: -75.4902 },
+        ],
+      },
+      {
+        id: "crespo-centro",
+        name: "Crespo → Centro (Av. Santander)",
+        waypoints: [
+          { latitude: 10.4421, longitude: -75.5159 },
+          { latitude: 10.4384, longitude: -75.5204 },
+          { latitude: 10.4349, longitude: -75.5251 },
+          { latitude: 10.4291, longitude: -75.5329 },
+          { latitude: 10.4262, longitude: -75.5418 },
+          { latitude: 10.4238, longitude: -75.5479 },
+        ],
+      },
+    ],
+  },
+  {
+    id: "bogota",
+    name: "Bogotá",
+    center: { latitude: 4.6486, longitude: -74.0785 },
+    bounds: { north: 4.78, south: 4.55, east: -74.02, west: -74.2 },
+    depot: { name: "Base Montevideo", latitude: 4.6452, longitude: -74.1151 },
+    pointsOfInterest: [
+      { name: "La Candelaria", latitude: 4.5967, longitude: -74.0727 },
+      { name: "Chapinero", latitude: 4.6486, longitude: -74.0628 },
+      { name: "Zona T", latitude: 4.6668, longitude: -74.0531 },
+      { name: "Usaquén", latitude: 4.6951, longitude: -74.0307 },
+      { name: "Salitre", latitude: 4.6527, longitude: -74.1003 },
+      { name: "Aeropuerto El Dorado", latitude: 4.7016, longitude: -74.1469 },
+    ],
+    routes: [
+      {
+        id: "avenida-caracas",
+        name: "Av. Caracas (Centro → Calle 80)",
+        waypoints: [
+          { latitude: 4.6032, longitude: -74.0822 },
+          { latitude: 4.6171, longitude: -74.0746 },
+          { latitude: 4.6337, longitude: -74.0683 },
+          { latitude: 4.6489, longitude: -74.0641 },
+          { latitude: 4.6632, longitude: -74.0606 },
+          { latitude: 4.6783, longitude: -74.0573 },
+        ],
+      },
+      {
+        id: "calle-26",
+        name: "Calle 26 (Centro → El Dorado)",
+        waypoints: [
+          { latitude: 4.6133, longitude: -74.0703 },
+          { latitude: 4.6262, longitude: -74.0854 },
+          { latitude: 4.6431, longitude: -74.1029 },
+          { latitude: 4.6594, longitude: -74.1188 },
+          { latitude: 4.6787, longitude: -74.1332 },
+          { latitude: 4.6975, longitude: -74.1423 },
+        ],
+      },
+    ],
+  },
+  {
+    id: "medellin",
+    name: "Medellín",
+    center: { latitude: 6.2442, longitude: -75.5812 },
+    bounds: { north: 6.34, south: 6.15, east: -75.52, west: -75.65 },
+    depot: { name: "Base Guayabal", latitude: 6.2128, longitude: -75.5859 },
+    pointsOfInterest: [
+      { name: "El Poblado", latitude: 6.2094, longitude: -75.5676 },
+      { name: "Parque Berrío", latitude: 6.2502, longitude: -75.5686 },
+      { name: "Laureles", latitude: 6.2451, longitude: -75.5969 },
+      { name: "Envigado", latitude: 6.1713, longitude: -75.5911 },
+      { name: "Estadio", latitude: 6.2566, longitude: -75.5903 },
+      { name: "Bello", latitude: 6.3373, longitude: -75.5579 },
+    ],
+    routes: [
+      {
+        id: "avenida-regional",
+        name: "Av. Regional (Poblado → Centro)",
+        waypoints: [
+          { latitude: 6.2012, longitude: -75.5782 },
+          { latitude: 6.2148, longitude: -75.5769 },
+          { latitude: 6.2287, longitude: -75.5745 },
+          { latitude: 6.2419, longitude: -75.5719 },
+          { latitude: 6.2553, longitude: -75.5701 },
+        ],
+      },
+    ],
+  },
+];
+
+// Rutas de la región o, si no define ninguna, un recorrido entre sus
+// puntos de interés en línea recta
+export const getRegionRoutes = (region: RegionProfile): SimulationRoute[] =>
+  region.routes && region.routes.length > 0
+    ? region.routes
+    : [
+        {
+          id: `${region.id}-poi`,
+          name: `Puntos de interés de ${region.name}`,
+          waypoints: region.pointsOfInterest,
+        },
+      ];
+
+export const getRegionDepot = (region: RegionProfile): PointOfInterest =>
+  region.depot ?? region.pointsOfInterest[0];
+
+export const findRegion = (
+  regionId: string,
+  customRegions: RegionProfile[] = []
+) =>
+  [...customRegions, ...BUILT_IN_REGIONS].find((r) => r.id === regionId) ??
+  BUILT_IN_REGIONS[0];
+
+// Validación de perfiles cargados desde JSON
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isCoordinate = (value: unknown): value is Coordinate => {
+  const coordinate = value as Coordinate | null;
+  return (
+    !!coordinate &&
+    isNumber(coordinate.latitude) &&
+    isNumber(coordinate.longitude) &&
+    Math.abs(coordinate.latitude) <= 90 &&
+    Math.abs(coordinate.longitude) <= 180
+  );
+};
+
+const validateRegion = (value: unknown, index: number): RegionProfile => {
+  const region = value as Partial<RegionProfile> | null;
+  const label = `Región ${index + 1}`;
+
+  if (!region || typeof region.id !== "string" || !region.id.trim()) {
+    throw new RegionProfileError(`${label}: falta "id"`);
+  }
+  if (typeof region.name !== "string" || !region.name.trim()) {
+    throw new RegionProfileError(`${label}: falta "name"`);
+  }
+  if (!isCoordinate(region.center)) {
+    throw new RegionProfileError(`${label}: "center" no es una coordenada`);
+  }
+
+  const bounds = region.bounds;
+  if (
+    !bounds ||
+    ![bounds.north, bounds.south, bounds.east, bounds.west].every(isNumber) ||
+    bounds.north <= bounds.south ||
+    bounds.east <= bounds.west
+  ) {
+    throw new RegionProfileError(
+      `${label}: "bounds" necesita north > south y east > west`
+    );
+  }
+
+  const pointsOfInterest = region.pointsOfInterest ?? [];
+  if (
+    !Array.isArray(pointsOfInterest) ||
+    pointsOfInterest.length === 0 ||
+    !pointsOfInterest.every(
+      (poi) => isCoordinate(poi) && typeof poi.name === "string"
+    )
+  ) {
+    throw new RegionProfileError(
+      `${label}: "pointsOfInterest" necesita al menos un punto con name, latitude y longitude`
+    );
+  }
+
+  const depot = region.depot;
+  if (
+    depot !== undefined &&
+    !(isCoordinate(depot) && typeof depot.name === "string")
+  ) {
+    throw new RegionProfileError(
+      `${label}: "depot" necesita name, latitude y longitude`
+    );
+  }
+
+  const routes = region.routes ?? [];
+  if (
+    !Array.isArray(routes) ||
+    !routes.every(
+      (route) =>
+        typeof route?.id === "string" &&
+        typeof route.name === "string" &&
+        Array.isArray(route.waypoints) &&
+        route.waypoints.length >= 2 &&
+        route.waypoints.every(isCoordinate)
+    )
+  ) {
+    throw new RegionProfileError(
+      `${label}: cada ruta necesita id, name y al menos dos waypoints`
+    );
+  }
+  if (routes.length === 0 && pointsOfInterest.length < 2) {
+    throw new RegionProfileError(
+      `${label}: sin rutas se necesitan al menos dos puntos de interés`
+    );
+  }
+
+  return {
+    id: region.id.trim(),
+    name: region.name.trim(),
+    center: region.center,
+    bounds,
+    pointsOfInterest,
+    depot,
+    routes: routes.length > 0 ? routes : undefined,
+  };
+};
+
+// Acepta un perfil o un arreglo de perfiles
+export const parseRegionProfiles = (text: string): RegionProfile[] => {
+  let root: unknown;
+  try {
+    root = JSON.parse(text);
+  } catch {
+    throw new RegionProfileError("El archivo no es un JSON válido");
+  }
+
+  const items = Array.isArray(root) ? root : [root];
+  if (items.length === 0) {
+    throw new RegionProfileError("El archivo no contiene regiones");
+  }
+  return items.map(validateRegion);
+};
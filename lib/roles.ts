@@ -0,0 +1,38 @@
+// lib/roles.ts
+import type { Href } from "expo-router";
+
+export type UserRole = "driver" | "dispatcher" | "admin";
+
+// Grupos de rutas de expo-router (carpetas entre paréntesis en app/)
+export type RouteGroup = "(tabs)" | "(dispatcher)";
+
+// Pantalla a la que llega cada rol después de iniciar sesión
+const ROLE_HOME: Record<UserRole, Href> = {
+  driver: "/(tabs)/driver",
+  dispatcher: "/(dispatcher)/fleet",
+  admin: "/(dispatcher)/fleet",
+};
+
+// Grupos de pantallas a los que cada rol tiene acceso
+const ROLE_GROUPS: Record<UserRole, RouteGroup[]> = {
+  driver: ["(tabs)"],
+  dispatcher: ["(dispatcher)"],
+  admin: ["(tabs)", "(dispatcher)"],
+};
+
+// Roles desconocidos se tratan como conductor, el comportamiento histórico
+export const normalizeRole = (role: string | undefined): UserRole => {
+  const normalized = role?.toLowerCase();
+  if (normalized === "dispatcher" || normalized === "admin") {
+    return normalized;
+  }
+  if (normalized !== "driver") {
+    console.warn(`Unknown role "${role}", falling back to driver`);
+  }
+  return "driver";
+};
+
+export const getHomeRoute = (role: UserRole): Href => ROLE_HOME[role];
+
+export const canAccessGroup = (role: UserRole, group: string) =>
+  (ROLE_GROUPS[role] as string[]).includes(group);
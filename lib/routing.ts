@@ -0,0 +1,201 @@
+// lib/routing.ts
+// Ruta planificada hacia el próximo destino. Usa un servicio compatible con
+// la API de OSRM: GET {url}/route/v1/driving/{lon},{lat};{lon},{lat}
+import { fetchWithTimeout, NetworkError } from "./api";
+import type { Coordinate } from "./geo";
+
+const ROUTING_TIMEOUT_MS = 10000;
+
+export interface RoutingConfig {
+  // Sin barra final, p. ej. https://rutas.tuservidor.com; vacío = rutas
+  // desactivadas
+  url: string;
+  // Distancia a la ruta a partir de la cual se vuelve a calcular
+  rerouteThresholdMeters: number;
+}
+
+// Sin servidor por defecto: las coordenadas de los conductores solo se
+// envían a un servicio de rutas configurado a propósito
+export const DEFAULT_ROUTING_CONFIG: RoutingConfig = {
+  url: process.env.EXPO_PUBLIC_ROUTING_URL?.trim() ?? "",
+  rerouteThresholdMeters: 75,
+};
+
+export const isRoutingConfigured = (config: RoutingConfig) =>
+  config.url.trim().length > 0;
+
+export type RouteTargetKind = "job" | "depot" | "geofence";
+
+export interface RouteTarget extends Coordinate {
+  id: string;
+  name: string;
+  kind: RouteTargetKind;
+}
+
+export interface PlannedRoute {
+  coordinates: Coordinate[];
+  distanceMeters: number;
+  durationSeconds: number;
+  fetchedAt: string;
+}
+
+// El servicio de rutas no respondió o no encontró ruta
+export class RoutingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RoutingError";
+  }
+}
+
+const formatPoint = (point: Coordinate) =>
+  `${point.longitude.toFixed(6)},${point.latitude.toFixed(6)}`;
+
+// Respuesta estándar de OSRM: { code: "Ok", routes: [...] } o un código de
+// error con mensaje. Solo se declaran los campos que usa la app.
+interface OsrmRouteResponse {
+  code: string;
+  message?: string;
+  routes: {
+    distance: number;
+    duration: number;
+    geometry: { coordinates: [number, number][] };
+  }[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const isOsrmRoute = (body: unknown): body is OsrmRouteResponse => {
+  if (!isRecord(body) || body.code !== "Ok" || !Array.isArray(body.routes)) {
+    return false;
+  }
+  const route: unknown = body.routes[0];
+  return (
+    isRecord(route) &&
+    typeof route.distance === "number" &&
+    typeof route.duration === "number" &&
+    isRecord(route.geometry) &&
+    Array.isArray(route.geometry.coordinates)
+  );
+};
+
+// Mensaje de un error de OSRM ({ code: "NoRoute", message: "..." })
+const describeFailure = (body: unknown) => {
+  if (!isRecord(body)) return "Sin ruta disponible (respuesta vacía)";
+  if (typeof body.message === "string" && body.message) return body.message;
+  return `Sin ruta disponible (${
+    typeof body.code === "string" ? body.code : "respuesta inválida"
+  })`;
+};
+
+export const fetchRoute = async (
+  baseUrl: string,
+  from: Coordinate,
+  to: Coordinate
+): Promise<PlannedRoute> => {
+  const url =
+    `${baseUrl.replace(/\/+$/, "")}/route/v1/driving/` +
+    `${formatPoint(from)};${formatPoint(to)}` +
+    "?overview=full&geometries=geojson";
+
+  let body: unknown;
+  try {
+    const response = await fetchWithTimeout(url, {}, ROUTING_TIMEOUT_MS);
+    body = await response.json().catch(() => null);
+    if (!response.ok && !(isRecord(body) && typeof body.code === "string")) {
+      throw new RoutingError(`El servicio de rutas respondió ${response.status}`);
+    }
+  } catch (error) {
+    if (error instanceof NetworkError) {
+      throw new RoutingError("No se pudo contactar el servicio de rutas");
+    }
+    throw error;
+  }
+
+  if (!isOsrmRoute(body)) {
+    throw new RoutingError(describeFailure(body));
+  }
+
+  const [route] = body.routes;
+  return {
+    coordinates: route.geometry.coordinates.map(([longitude, latitude]) => ({
+      latitude,
+      longitude,
+    })),
+    distanceMeters: route.distance,
+    durationSeconds: route.duration,
+    fetchedAt: new Date().toISOString(),
+  };
+};
+
+export interface RouteProgress {
+  remainingMeters: number;
+  remainingSeconds: number;
+  // Distancia de la posición al punto más cercano de la ruta
+  offRouteMeters: number;
+}
+
+// Proyección local en metros alrededor de `origin`; suficiente para los
+// tramos cortos de una ruta
+const toLocalMeters = (origin: Coordinate, point: Coordinate) => {
+  const metersPerDegree = 111320;
+  return {
+    x:
+      (point.longitude - origin.longitude) *
+      metersPerDegree *
+      Math.cos((origin.latitude * Math.PI) / 180),
+    y: (point.latitude - origin.latitude) * metersPerDegree,
+  };
+};
+
+// Proyecta la posición sobre el tramo más cercano y mide lo que falta desde
+// ahí. El tiempo restante es proporcional a la distancia restante.
+export const getRouteProgress = (
+  route: PlannedRoute,
+  position: Coordinate
+): RouteProgress => {
+  const points = route.coordinates.map((c) => toLocalMeters(position, c));
+  if (points.length < 2) {
+    const offRouteMeters = points[0] ? Math.hypot(points[0].x, points[0].y) : 0;
+    return { remainingMeters: 0, remainingSeconds: 0, offRouteMeters };
+  }
+
+  const lengths = points
+    .slice(1)
+    .map((b, i) => Math.hypot(b.x - points[i].x, b.y - points[i].y));
+
+  let nearest = { index: 0, t: 0, distance: Infinity };
+  lengths.forEach((length, i) => {
+    const a = points[i];
+    const b = points[i + 1];
+    const t =
+      length === 0
+        ? 0
+        : Math.min(
+            1,
+            Math.max(
+              0,
+              -(a.x * (b.x - a.x) + a.y * (b.y - a.y)) / (length * length)
+            )
+          );
+    const distance = Math.hypot(
+      a.x + t * (b.x - a.x),
+      a.y + t * (b.y - a.y)
+    );
+    if (distance < nearest.distance) nearest = { index: i, t, distance };
+  });
+
+  const totalMeters = lengths.reduce((sum, length) => sum + length, 0);
+  const remainingMeters =
+    lengths[nearest.index] * (1 - nearest.t) +
+    lengths.slice(nearest.index + 1).reduce((sum, length) => sum + length, 0);
+
+  return {
+    remainingMeters,
+    remainingSeconds:
+      totalMeters > 0
+        ? route.durationSeconds * (remainingMeters / totalMeters)
+        : 0,
+    offRouteMeters: nearest.distance,
+  };
+};
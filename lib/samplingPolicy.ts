@@ -0,0 +1,104 @@
+// lib/samplingPolicy.ts
+import * as Location from "expo-location";
+import type {
+  MotionState,
+  SamplingRate,
+  SamplingRules,
+} from "./motionSampler";
+
+export type SamplingPreset = "economy" | "balanced" | "highPrecision";
+
+export interface SamplingPolicy extends SamplingRules {
+  accuracy: Location.Accuracy;
+}
+
+export const SAMPLING_PRESETS: Record<SamplingPreset, SamplingPolicy> = {
+  economy: {
+    accuracy: Location.Accuracy.Balanced,
+    rates: {
+      stationary: {
+        minIntervalMs: 60000,
+        maxIntervalMs: 300000,
+        distanceMeters: 100,
+      },
+      moving: {
+        minIntervalMs: 15000,
+        maxIntervalMs: 60000,
+        distanceMeters: 100,
+      },
+      fast: { minIntervalMs: 10000, maxIntervalMs: 30000, distanceMeters: 300 },
+    },
+    headingChangeDegrees: 45,
+  },
+  balanced: {
+    accuracy: Location.Accuracy.High,
+    rates: {
+      stationary: {
+        minIntervalMs: 30000,
+        maxIntervalMs: 120000,
+        distanceMeters: 50,
+      },
+      moving: { minIntervalMs: 5000, maxIntervalMs: 30000, distanceMeters: 30 },
+      fast: { minIntervalMs: 3000, maxIntervalMs: 15000, distanceMeters: 100 },
+    },
+    headingChangeDegrees: 30,
+  },
+  highPrecision: {
+    accuracy: Location.Accuracy.BestForNavigation,
+    rates: {
+      stationary: {
+        minIntervalMs: 10000,
+        maxIntervalMs: 60000,
+        distanceMeters: 20,
+      },
+      moving: { minIntervalMs: 1000, maxIntervalMs: 10000, distanceMeters: 10 },
+      fast: { minIntervalMs: 1000, maxIntervalMs: 5000, distanceMeters: 30 },
+    },
+    headingChangeDegrees: 15,
+  },
+};
+
+// Alerta SOS activa: cada fix se envía, con el GPS a máxima precisión y un
+// latido corto aunque el vehículo esté detenido
+const EMERGENCY_RATE: SamplingRate = {
+  minIntervalMs: 1000,
+  maxIntervalMs: 5000,
+  distanceMeters: 0,
+};
+
+export const EMERGENCY_SAMPLING_POLICY: SamplingPolicy = {
+  accuracy: Location.Accuracy.BestForNavigation,
+  rates: {
+    stationary: EMERGENCY_RATE,
+    moving: EMERGENCY_RATE,
+    fast: EMERGENCY_RATE,
+  },
+  headingChangeDegrees: 0,
+};
+
+export const SAMPLING_PRESET_LABELS: Record<SamplingPreset, string> = {
+  economy: "Ahorro",
+  balanced: "Equilibrado",
+  highPrecision: "Alta precisión",
+};
+
+export const MOTION_STATE_LABELS: Record<MotionState, string> = {
+  stationary: "detenido",
+  moving: "en movimiento",
+  fast: "en carretera",
+};
+
+// Opciones para el GPS según el estado de movimiento. En movimiento el SO
+// entrega por tiempo y el muestreador decide; detenido solo despierta al
+// desplazarse para ahorrar batería (el latido cubre el resto).
+export const getWatchOptions = (
+  policy: SamplingPolicy,
+  motion: MotionState
+): Location.LocationOptions => {
+  const rate = policy.rates[motion];
+  return {
+    accuracy: policy.accuracy,
+    timeInterval: rate.minIntervalMs,
+    distanceInterval: motion === "stationary" ? rate.distanceMeters : 0,
+  };
+};
@@ -0,0 +1,87 @@
+// lib/settings.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { DEFAULT_FIX_FILTER_CONFIG, FixFilterConfig } from "./fixFilter";
+import { BatchingConfig, DEFAULT_BATCHING_CONFIG } from "./locationBatcher";
+import { DEFAULT_REGION_ID, RegionProfile } from "./regions";
+import { DEFAULT_ROUTING_CONFIG, RoutingConfig } from "./routing";
+import type { SamplingPreset } from "./samplingPolicy";
+
+const SETTINGS_KEY = "appSettings";
+
+export interface AppSettings {
+  fixFilter: FixFilterConfig;
+  samplingPreset: SamplingPreset;
+  batching: BatchingConfig;
+  // Días que se conserva el historial local; 0 = siempre
+  historyRetentionDays: number;
+  // Región para el mapa inicial y los datos de prueba
+  regionId: string;
+  // Regiones cargadas desde archivos JSON
+  customRegions: RegionProfile[];
+  // Servicio de rutas para la vista previa hacia el próximo destino
+  routing: RoutingConfig;
+  // Minutos de envío a máxima frecuencia tras una alerta SOS
+  sosBurstMinutes: number;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  fixFilter: DEFAULT_FIX_FILTER_CONFIG,
+  samplingPreset: "balanced",
+  batching: DEFAULT_BATCHING_CONFIG,
+  historyRetentionDays: 30,
+  regionId: DEFAULT_REGION_ID,
+  customRegions: [],
+  routing: DEFAULT_ROUTING_CONFIG,
+  sosBurstMinutes: 15,
+};
+
+type SettingsListener = (settings: AppSettings) => void;
+
+// Copia en memoria para que los callbacks de ubicación la lean sin await
+let current: AppSettings = DEFAULT_SETTINGS;
+let loaded: Promise<AppSettings> | null = null;
+const listeners = new Set<SettingsListener>();
+
+// Completa con los valores por defecto las claves que falten en lo guardado
+const mergeSettings = (stored: Partial<AppSettings>): AppSettings => ({
+  ...DEFAULT_SETTINGS,
+  ...stored,
+  fixFilter: { ...DEFAULT_SETTINGS.fixFilter, ...stored.fixFilter },
+  batching: { ...DEFAULT_SETTINGS.batching, ...stored.batching },
+  routing: { ...DEFAULT_SETTINGS.routing, ...stored.routing },
+});
+
+export const loadSettings = (): Promise<AppSettings> => {
+  if (!loaded) {
+    loaded = AsyncStorage.getItem(SETTINGS_KEY)
+      .then((raw) => {
+        current = raw ? mergeSettings(JSON.parse(raw)) : DEFAULT_SETTINGS;
+        listeners.forEach((listener) => listener(current));
+        return current;
+      })
+      .catch((error) => {
+        console.error("❌ Error leyendo configuración:", error);
+        return current;
+      });
+  }
+  return loaded;
+};
+
+export const getSettings = () => current;
+
+export const updateSettings = async (
+  changes: Partial<AppSettings>
+): Promise<AppSettings> => {
+  await loadSettings();
+  current = mergeSettings({ ...current, ...changes });
+  listeners.forEach((listener) => listener(current));
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(current));
+  return current;
+};
+
+export const subscribeSettings = (listener: SettingsListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,322 @@
+// lib/simulation.ts
+// Motor de simulación determinista: con la misma ruta, escenario y semilla
+// produce exactamente los mismos puntos. No depende de React Native, así que
+// puede ejecutarse en Node.
+import {
+  calculateBearing,
+  Coordinate,
+  distanceBetween,
+  interpolateCoordinate,
+  offsetCoordinate,
+} from "./geo";
+import type { LocationData } from "./locationTypes";
+
+// Generador pseudoaleatorio
+
+export interface Rng {
+  // Número en [0, 1)
+  next: () => number;
+  range: (min: number, max: number) => number;
+  // Distribución normal (Box-Muller)
+  normal: (mean: number, stdDev: number) => number;
+  pick: <T>(items: readonly T[]) => T;
+}
+
+// Las semillas de texto se convierten a número para poder compartirlas
+// como "bocagrande-1" en lugar de un entero
+const hashSeed = (seed: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: pequeño, rápido y suficiente para simular
+export const createRng = (seed: number | string): Rng => {
+  let state = typeof seed === "string" ? hashSeed(seed) : seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    range: (min, max) => min + next() * (max - min),
+    normal: (mean, stdDev) => {
+      const u = 1 - next();
+      const v = next();
+      return (
+        mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+      );
+    },
+    pick: (items) => items[Math.floor(next() * items.length)],
+  };
+};
+
+// Única fuente no determinista: elegir una semilla nueva
+export const createSeed = () => Math.floor(Math.random() * 1000000);
+
+// Rutas
+
+export interface SimulationRoute {
+  id: string;
+  name: string;
+  // Puntos de paso sobre vías principales; entre ellos se interpola en línea recta
+  waypoints: Coordinate[];
+}
+
+// Escenarios
+
+// Los tramos se expresan en metros recorridos desde el inicio de la ruta
+export type SimulationEvent =
+  | { type: "stop"; atMeters: number; durationMs: number }
+  | {
+      type: "traffic";
+      fromMeters: number;
+      toMeters: number;
+      speedMps: number;
+    }
+  | {
+      type: "drift";
+      fromMeters: number;
+      toMeters: number;
+      // Desplazamiento máximo de la posición reportada
+      maxOffsetMeters: number;
+      accuracyMeters: number;
+    };
+
+export interface SimulationScenario {
+  id: string;
+  name: string;
+  cruiseSpeedMps: number;
+  sampleIntervalMs: number;
+  // Precisión típica del GPS a cielo abierto
+  baseAccuracyMeters: number;
+  events: SimulationEvent[];
+}
+
+export const SIMULATION_SCENARIOS: SimulationScenario[] = [
+  {
+    id: "free-flow",
+    name: "Tráfico fluido",
+    cruiseSpeedMps: 13,
+    sampleIntervalMs: 2000,
+    baseAccuracyMeters: 5,
+    events: [],
+  },
+  {
+    id: "deliveries",
+    name: "Paradas de entrega",
+    cruiseSpeedMps: 10,
+    sampleIntervalMs: 2000,
+    baseAccuracyMeters: 5,
+    events: [
+      { type: "stop", atMeters: 800, durationMs: 60000 },
+      { type: "stop", atMeters: 2000, durationMs: 90000 },
+    ],
+  },
+  {
+    id: "traffic-jam",
+    name: "Trancón",
+    cruiseSpeedMps: 12,
+    sampleIntervalMs: 2000,
+    baseAccuracyMeters: 6,
+    events: [
+      { type: "traffic", fromMeters: 600, toMeters: 1600, speedMps: 1.5 },
+    ],
+  },
+  {
+    id: "urban-canyon",
+    name: "Deriva del GPS",
+    cruiseSpeedMps: 11,
+    sampleIntervalMs: 2000,
+    baseAccuracyMeters: 5,
+    events: [
+      {
+        type: "drift",
+        fromMeters: 500,
+        toMeters: 1500,
+        maxOffsetMeters: 60,
+        accuracyMeters: 45,
+      },
+    ],
+  },
+];
+
+// Motor
+
+// Aceleración y frenado de un vehículo urbano (m/s²)
+const MAX_ACCELERATION = 2;
+const MAX_DECELERATION = 3;
+// Por debajo de esta velocidad el GPS no informa rumbo
+const STATIONARY_SPEED_MPS = 0.3;
+// Evita bucles infinitos con escenarios mal definidos (velocidad 0, etc.)
+const MAX_SIMULATION_STEPS = 20000;
+
+interface RouteSegment {
+  from: Coordinate;
+  to: Coordinate;
+  startMeters: number;
+  lengthMeters: number;
+  bearing: number;
+}
+
+const buildSegments = (waypoints: Coordinate[]) => {
+  const segments: RouteSegment[] = [];
+  let total = 0;
+  for (let i = 1; i < waypoints.length; i++) {
+    const lengthMeters = distanceBetween(waypoints[i - 1], waypoints[i]);
+    if (lengthMeters === 0) continue;
+    segments.push({
+      from: waypoints[i - 1],
+      to: waypoints[i],
+      startMeters: total,
+      lengthMeters,
+      bearing: calculateBearing(waypoints[i - 1], waypoints[i]),
+    });
+    total += lengthMeters;
+  }
+  return { segments, totalMeters: total };
+};
+
+const positionAt = (segments: RouteSegment[], meters: number) => {
+  const segment =
+    segments.find((s) => meters < s.startMeters + s.lengthMeters) ??
+    segments[segments.length - 1];
+  const fraction = Math.min(
+    1,
+    Math.max(0, (meters - segment.startMeters) / segment.lengthMeters)
+  );
+  return {
+    coordinate: interpolateCoordinate(segment.from, segment.to, fraction),
+    bearing: segment.bearing,
+  };
+};
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export interface SimulationOptions {
+  seed: number | string;
+  // Hora del primer punto (ms); por defecto, ahora
+  startTime?: number;
+}
+
+// Recorre la ruta en tiempo simulado y devuelve un punto por muestra
+export const simulateRoute = (
+  route: SimulationRoute,
+  scenario: SimulationScenario,
+  { seed, startTime = Date.now() }: SimulationOptions
+): LocationData[] => {
+  const rng = createRng(seed);
+  const { segments, totalMeters } = buildSegments(route.waypoints);
+  if (segments.length === 0) return [];
+
+  const stepSeconds = scenario.sampleIntervalMs / 1000;
+  const completedStops = new Set<SimulationEvent>();
+  const points: LocationData[] = [];
+
+  let meters = 0;
+  let speed = 0;
+  let elapsedMs = 0;
+  let stoppedUntil = 0;
+  let drift = { north: 0, east: 0 };
+
+  for (let step = 0; step < MAX_SIMULATION_STEPS; step++) {
+    const inRange = (event: { fromMeters: number; toMeters: number }) =>
+      meters >= event.fromMeters && meters < event.toMeters;
+
+    // Paradas: una sola vez al alcanzar el punto indicado
+    for (const event of scenario.events) {
+      if (
+        event.type === "stop" &&
+        meters >= event.atMeters &&
+        !completedStops.has(event)
+      ) {
+        completedStops.add(event);
+        stoppedUntil = elapsedMs + event.durationMs;
+      }
+    }
+
+    let targetSpeed = scenario.cruiseSpeedMps;
+    for (const event of scenario.events) {
+      if (event.type === "traffic" && inRange(event)) {
+        targetSpeed = Math.min(targetSpeed, event.speedMps);
+      }
+    }
+    if (elapsedMs < stoppedUntil) {
+      targetSpeed = 0;
+    } else {
+      // Variación natural del conductor
+      targetSpeed = Math.max(0, targetSpeed * (1 + rng.normal(0, 0.08)));
+    }
+
+    speed += Math.min(
+      Math.max(targetSpeed - speed, -MAX_DECELERATION * stepSeconds),
+      MAX_ACCELERATION * stepSeconds
+    );
+    speed = Math.max(0, speed);
+
+    // Deriva: paseo aleatorio acotado dentro del tramo; fuera se disipa
+    const driftEvent = scenario.events.find(
+      (event): event is Extract<SimulationEvent, { type: "drift" }> =>
+        event.type === "drift" && inRange(event)
+    );
+    if (driftEvent) {
+      const limit = driftEvent.maxOffsetMeters;
+      const stepSize = limit / 4;
+      drift = {
+        north: Math.min(
+          limit,
+          Math.max(-limit, drift.north + rng.normal(0, stepSize))
+        ),
+        east: Math.min(
+          limit,
+          Math.max(-limit, drift.east + rng.normal(0, stepSize))
+        ),
+      };
+    } else {
+      drift = { north: drift.north * 0.5, east: drift.east * 0.5 };
+    }
+
+    const baseAccuracy =
+      driftEvent?.accuracyMeters ?? scenario.baseAccuracyMeters;
+    const accuracy = baseAccuracy + Math.abs(rng.normal(0, baseAccuracy * 0.3));
+    // Ruido de posición coherente con la precisión reportada
+    const noise = accuracy / 3;
+    const { coordinate, bearing } = positionAt(segments, meters);
+    const reported = offsetCoordinate(
+      coordinate,
+      drift.north + rng.normal(0, noise),
+      drift.east + rng.normal(0, noise)
+    );
+    const reportedSpeed = Math.max(0, speed + rng.normal(0, 0.3));
+    const moving = speed >= STATIONARY_SPEED_MPS;
+
+    points.push({
+      latitude: round(reported.latitude, 6),
+      longitude: round(reported.longitude, 6),
+      accuracy: round(accuracy, 1),
+      speed: moving ? round(reportedSpeed, 2) : 0,
+      // El último % evita que 359.96 se redondee a 360
+      heading: moving
+        ? round((bearing + rng.normal(0, 3) + 360) % 360, 1) % 360
+        : undefined,
+      timestamp: new Date(startTime + elapsedMs).toISOString(),
+    });
+
+    if (meters >= totalMeters) break;
+
+    meters = Math.min(totalMeters, meters + speed * stepSeconds);
+    elapsedMs += scenario.sampleIntervalMs;
+  }
+
+  return points;
+};
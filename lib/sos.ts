@@ -0,0 +1,108 @@
+// lib/sos.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { Socket } from "socket.io-client";
+import { createClientId } from "./locationDelivery";
+import type { LocationData } from "./locationTypes";
+
+const ACTIVE_SOS_KEY = "activeSosAlert";
+const SOS_ACK_TIMEOUT_MS = 5000;
+
+// Conductor → servidor: alerta de pánico con la posición actual
+export const SOS_ALERT_EVENT = "sosAlert";
+// Servidor → conductor: despacho vio la alerta
+export const SOS_ACKNOWLEDGED_EVENT = "sosAcknowledged";
+
+// Tiempo que hay que mantener presionado el botón para disparar la alerta
+export const SOS_HOLD_MS = 3000;
+
+export type SosAlertStatus = "queued" | "sent" | "acknowledged";
+
+export interface SosAlert {
+  id: string;
+  vehicleId: string | null;
+  tripId?: string;
+  jobId?: string;
+  // Fix al disparar la alerta; null si el GPS no respondió
+  location: LocationData | null;
+  triggeredAt: string;
+  // Fin del envío de ubicaciones a máxima frecuencia
+  burstUntil: string;
+  // queued: sin confirmación del servidor; sent: el servidor la recibió;
+  // acknowledged: despacho la atendió
+  status: SosAlertStatus;
+  sentAt?: string;
+  acknowledgedAt?: string;
+  acknowledgedBy?: string;
+}
+
+export const createSosAlert = (
+  context: Pick<SosAlert, "vehicleId" | "tripId" | "jobId" | "location">,
+  burstMs: number
+): SosAlert => {
+  const now = Date.now();
+  return {
+    id: `sos-${createClientId()}`,
+    ...context,
+    triggeredAt: new Date(now).toISOString(),
+    burstUntil: new Date(now + burstMs).toISOString(),
+    status: "queued",
+  };
+};
+
+// Emite "sosAlert" y espera el ack; false si no hubo confirmación y hay que
+// reintentar al reconectar. El `clientId` permite descartar reenvíos.
+export const deliverSosAlert = async (socket: Socket, alert: SosAlert) => {
+  if (!socket.connected) return false;
+
+  try {
+    const ack: { status?: "ok" | "error"; message?: string } | undefined =
+      await socket.timeout(SOS_ACK_TIMEOUT_MS).emitWithAck(SOS_ALERT_EVENT, {
+        clientId: alert.id,
+        priority: "high",
+        vehicleId: alert.vehicleId,
+        tripId: alert.tripId,
+        jobId: alert.jobId,
+        location: alert.location,
+        timestamp: alert.triggeredAt,
+      });
+    if (ack?.status === "error") {
+      console.error(`❌ Alerta SOS rechazada: ${ack.message ?? alert.id}`);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error("❌ Sin confirmación de la alerta SOS:", error);
+    return false;
+  }
+};
+
+// Valida el aviso de despacho; null si no sirve
+export const parseSosAcknowledgement = (
+  raw: unknown
+): { alertId: string; acknowledgedBy?: string } | null => {
+  const ack = raw as { alertId?: unknown; acknowledgedBy?: unknown } | null;
+  if (!ack || typeof ack.alertId !== "string") return null;
+  return {
+    alertId: ack.alertId,
+    acknowledgedBy:
+      typeof ack.acknowledgedBy === "string" ? ack.acknowledgedBy : undefined,
+  };
+};
+
+// Alerta activa guardada en el dispositivo: sobrevive reinicios y se
+// reenvía al reconectar si no se confirmó
+
+export const loadActiveSosAlert = async (): Promise<SosAlert | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(ACTIVE_SOS_KEY);
+    return raw ? (JSON.parse(raw) as SosAlert) : null;
+  } catch (error) {
+    console.error("❌ Error leyendo alerta SOS:", error);
+    return null;
+  }
+};
+
+export const saveActiveSosAlert = (alert: SosAlert | null) =>
+  alert
+    ? AsyncStorage.setItem(ACTIVE_SOS_KEY, JSON.stringify(alert))
+    : AsyncStorage.removeItem(ACTIVE_SOS_KEY);
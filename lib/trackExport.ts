@@ -0,0 +1,68 @@
+// lib/trackExport.ts
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import { getTripPoints } from "./locationHistory";
+import { serializeTrack } from "./trackFormats";
+import { getTripSummary } from "./trips";
+
+export type ExportFormat = "gpx" | "geojson" | "csv";
+
+interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+  // Identificador de tipo para la hoja de compartir de iOS
+  uti: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  gpx: {
+    label: "GPX",
+    extension: "gpx",
+    mimeType: "application/gpx+xml",
+    uti: "com.topografix.gpx",
+  },
+  geojson: {
+    label: "GeoJSON",
+    extension: "geojson",
+    mimeType: "application/geo+json",
+    uti: "public.json",
+  },
+  csv: {
+    label: "CSV",
+    extension: "csv",
+    mimeType: "text/csv",
+    uti: "public.comma-separated-values-text",
+  },
+};
+
+// Escribe el viaje en un archivo temporal y abre la hoja de compartir
+export const exportTrip = async (tripId: string, format: ExportFormat) => {
+  const [summary, points] = await Promise.all([
+    getTripSummary(tripId),
+    getTripPoints(tripId),
+  ]);
+  if (!summary) {
+    throw new Error(`No se encontró el viaje ${tripId}`);
+  }
+  if (points.length === 0) {
+    throw new Error("El viaje no tiene puntos guardados");
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Compartir archivos no está disponible en este dispositivo");
+  }
+
+  const info = EXPORT_FORMATS[format];
+  const uri = `${FileSystem.cacheDirectory}${tripId}.${info.extension}`;
+  await FileSystem.writeAsStringAsync(
+    uri,
+    serializeTrack(format, summary, points)
+  );
+
+  await Sharing.shareAsync(uri, {
+    mimeType: info.mimeType,
+    UTI: info.uti,
+    dialogTitle: `Exportar viaje (${info.label})`,
+  });
+};
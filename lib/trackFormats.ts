@@ -0,0 +1,143 @@
+// lib/trackFormats.ts
+// Serialización de un viaje a GPX, GeoJSON y CSV. Sin dependencias de React
+// Native; lib/trackExport.ts escribe el archivo y lo comparte.
+import type { HistoryPoint } from "./locationHistory";
+import type { ExportFormat } from "./trackExport";
+import type { TripSummary } from "./trips";
+
+const APP_NAME = "MapaInteractivoExpo";
+
+// Espacio de nombres propio para los campos que GPX 1.1 no define
+const GPX_EXTENSION_NAMESPACE = "urn:mapainteractivo:location";
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const getTrackName = (summary: TripSummary) =>
+  `${summary.vehicleId} ${new Date(summary.startedAt).toLocaleString()}`;
+
+export const toGpx = (summary: TripSummary, points: HistoryPoint[]) => {
+  const trackPoints = points.map((point) => {
+    const extensions = [
+      point.accuracy !== undefined &&
+        `<loc:accuracy>${point.accuracy}</loc:accuracy>`,
+      point.speed !== undefined && `<loc:speed>${point.speed}</loc:speed>`,
+      point.heading !== undefined &&
+        `<loc:heading>${point.heading}</loc:heading>`,
+      `<loc:type>${point.type}</loc:type>`,
+    ].filter(Boolean);
+
+    return [
+      `      <trkpt lat="${point.latitude}" lon="${point.longitude}">`,
+      `        <time>${point.timestamp}</time>`,
+      `        <extensions>${extensions.join("")}</extensions>`,
+      "      </trkpt>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${APP_NAME}" xmlns="http://www.topografix.com/GPX/1/1" xmlns:loc="${GPX_EXTENSION_NAMESPACE}">`,
+    "  <metadata>",
+    `    <name>${escapeXml(getTrackName(summary))}</name>`,
+    `    <time>${summary.startedAt}</time>`,
+    "  </metadata>",
+    "  <trk>",
+    `    <name>${escapeXml(summary.tripId)}</name>`,
+    "    <trkseg>",
+    ...trackPoints,
+    "    </trkseg>",
+    "  </trk>",
+    "</gpx>",
+    "",
+  ].join("\n");
+};
+
+const pointProperties = (point: HistoryPoint) => ({
+  timestamp: point.timestamp,
+  accuracy: point.accuracy ?? null,
+  speed: point.speed ?? null,
+  heading: point.heading ?? null,
+  type: point.type,
+});
+
+// Una LineString con el recorrido y un Point por cada ubicación
+export const toGeoJson = (summary: TripSummary, points: HistoryPoint[]) =>
+  JSON.stringify(
+    {
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          geometry: {
+            type: "LineString",
+            coordinates: points.map((p) => [p.longitude, p.latitude]),
+          },
+          properties: {
+            name: getTrackName(summary),
+            tripId: summary.tripId,
+            vehicleId: summary.vehicleId,
+            startedAt: summary.startedAt,
+            endedAt: summary.endedAt,
+            distanceMeters: summary.distanceMeters,
+            durationMs: summary.durationMs,
+          },
+        },
+        ...points.map((point) => ({
+          type: "Feature",
+          geometry: {
+            type: "Point",
+            coordinates: [point.longitude, point.latitude],
+          },
+          properties: pointProperties(point),
+        })),
+      ],
+    },
+    null,
+    2
+  );
+
+const CSV_COLUMNS = [
+  "latitude",
+  "longitude",
+  "timestamp",
+  "accuracy",
+  "speed",
+  "heading",
+  "type",
+] as const;
+
+const escapeCsv = (value: string | number | undefined) => {
+  if (value === undefined) return "";
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (points: HistoryPoint[]) =>
+  [
+    CSV_COLUMNS.join(","),
+    ...points.map((point) =>
+      CSV_COLUMNS.map((column) => escapeCsv(point[column])).join(",")
+    ),
+    "",
+  ].join("\n");
+
+export const serializeTrack = (
+  format: ExportFormat,
+  summary: TripSummary,
+  points: HistoryPoint[]
+) => {
+  switch (format) {
+    case "gpx":
+      return toGpx(summary, points);
+    case "geojson":
+      return toGeoJson(summary, points);
+    case "csv":
+      return toCsv(points);
+  }
+};
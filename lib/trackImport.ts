@@ -0,0 +1,18 @@
+// lib/trackImport.ts
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+import { ImportedTrack, parseTrackFile } from "./trackParsers";
+
+// Abre el selector de archivos; null si el usuario cancela
+export const pickTrackFile = async (): Promise<ImportedTrack | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    // Los gestores de archivos no reconocen bien .gpx/.geojson: se valida al leer
+    type: "*/*",
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) return null;
+
+  const asset = result.assets[0];
+  const content = await FileSystem.readAsStringAsync(asset.uri);
+  return parseTrackFile(asset.name, content);
+};
@@ -0,0 +1,247 @@
+// lib/trackParsers.ts
+// Lectura de recorridos GPX y GeoJSON. Sin dependencias de React Native;
+// lib/trackImport.ts abre el selector de archivos.
+import { calculateDistance } from "./geo";
+import type { LocationData } from "./locationTypes";
+
+export interface ImportedTrack {
+  name: string;
+  points: LocationData[];
+  // true si al archivo le faltaban horas y se estimaron
+  synthesizedTimes: boolean;
+  // Los recorridos simulados se envían como "random"; los archivos, como "test"
+  source?: "file" | "simulation";
+}
+
+// El archivo no se pudo interpretar como recorrido
+export class TrackImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TrackImportError";
+  }
+}
+
+// Velocidad asumida para espaciar puntos sin hora (m/s, ~36 km/h)
+const SYNTHETIC_SPEED_MPS = 10;
+
+const toNumber = (value: unknown) => {
+  const number = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// Hora ISO o undefined si falta o no es una fecha válida
+const toIsoTime = (value: unknown) => {
+  if (typeof value !== "string") return undefined;
+  const time = Date.parse(value.trim());
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+};
+
+// Completa las horas faltantes a partir de la distancia al punto anterior,
+// conservando las que sí vienen en el archivo
+const fillTimestamps = (
+  points: (Omit<LocationData, "timestamp"> & { timestamp?: string })[]
+): { points: LocationData[]; synthesized: boolean } => {
+  const synthesized = points.some((p) => !p.timestamp);
+  const firstKnown = points.find((p) => p.timestamp)?.timestamp;
+  let time = firstKnown ? Date.parse(firstKnown) : Date.now();
+
+  return {
+    synthesized,
+    points: points.map((point, index) => {
+      if (point.timestamp) {
+        time = Date.parse(point.timestamp);
+        return point as LocationData;
+      }
+      if (index > 0) {
+        const previous = points[index - 1];
+        const meters = calculateDistance(
+          previous.latitude,
+          previous.longitude,
+          point.latitude,
+          point.longitude
+        );
+        time += Math.max(1000, (meters / SYNTHETIC_SPEED_MPS) * 1000);
+      }
+      return { ...point, timestamp: new Date(time).toISOString() };
+    }),
+  };
+};
+
+// GPX
+
+const unescapeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+const readAttribute = (tag: string, name: string) =>
+  tag.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`))?.[1];
+
+// Primer elemento cuyo nombre local coincide, con o sin prefijo (p. ej. loc:speed)
+const readElement = (body: string, name: string) =>
+  body.match(
+    new RegExp(`<(?:[\\w-]+:)?${name}\\b[^>]*>([^<]*)</(?:[\\w-]+:)?${name}>`)
+  )?.[1];
+
+export const parseGpx = (xml: string): ImportedTrack => {
+  // Puntos de track o, si no hay, de ruta
+  const pattern = /<(trkpt|rtept)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g;
+  const matches = [...xml.matchAll(pattern)];
+  const trackMatches = matches.filter((m) => m[1] === "trkpt");
+  const selected = trackMatches.length > 0 ? trackMatches : matches;
+
+  const raw = selected.flatMap(([, , attributes, body = ""]) => {
+    const latitude = toNumber(readAttribute(attributes, "lat"));
+    const longitude = toNumber(readAttribute(attributes, "lon"));
+    if (latitude === undefined || longitude === undefined) return [];
+
+    return [
+      {
+        latitude,
+        longitude,
+        timestamp: toIsoTime(readElement(body, "time")),
+        accuracy: toNumber(readElement(body, "accuracy")),
+        speed: toNumber(readElement(body, "speed")),
+        heading: toNumber(
+          readElement(body, "heading") ?? readElement(body, "course")
+        ),
+      },
+    ];
+  });
+
+  if (raw.length === 0) {
+    throw new TrackImportError("El GPX no contiene puntos de track ni de ruta");
+  }
+
+  const name =
+    readElement(xml.match(/<trk\b[\s\S]*?<\/trk>/)?.[0] ?? "", "name") ??
+    readElement(xml, "name") ??
+    "Recorrido GPX";
+  const { points, synthesized } = fillTimestamps(raw);
+  return {
+    name: unescapeXml(name.trim()),
+    points,
+    synthesizedTimes: synthesized,
+  };
+};
+
+// GeoJSON
+
+interface GeoJsonGeometry {
+  type: string;
+  coordinates?: unknown;
+}
+
+interface GeoJsonFeature {
+  type: "Feature";
+  geometry: GeoJsonGeometry | null;
+  properties?: Record<string, unknown> | null;
+}
+
+const fromPosition = (position: unknown) => {
+  if (!Array.isArray(position)) return null;
+  const longitude = toNumber(position[0]);
+  const latitude = toNumber(position[1]);
+  return latitude === undefined || longitude === undefined
+    ? null
+    : { latitude, longitude };
+};
+
+export const parseGeoJson = (text: string): ImportedTrack => {
+  let root: { type?: string; features?: GeoJsonFeature[] } & GeoJsonGeometry;
+  try {
+    root = JSON.parse(text);
+  } catch {
+    throw new TrackImportError("El archivo no es un JSON válido");
+  }
+
+  const features: GeoJsonFeature[] =
+    root.type === "FeatureCollection"
+      ? (root.features ?? [])
+      : root.type === "Feature"
+        ? [root as unknown as GeoJsonFeature]
+        : [{ type: "Feature", geometry: root, properties: {} }];
+
+  // Puntos con propiedades (como los que exporta la app) tienen prioridad:
+  // traen hora, precisión, velocidad y rumbo
+  const pointFeatures = features.filter((f) => f.geometry?.type === "Point");
+  const raw =
+    pointFeatures.length > 0
+      ? pointFeatures.flatMap((feature) => {
+          const position = fromPosition(feature.geometry?.coordinates);
+          if (!position) return [];
+          const props = feature.properties ?? {};
+          return [
+            {
+              ...position,
+              timestamp: toIsoTime(props.timestamp),
+              accuracy: toNumber(props.accuracy),
+              speed: toNumber(props.speed),
+              heading: toNumber(props.heading),
+            },
+          ];
+        })
+      : features.flatMap((feature) => {
+          const geometry = feature.geometry;
+          const lines =
+            geometry?.type === "LineString"
+              ? [geometry.coordinates as unknown[]]
+              : geometry?.type === "MultiLineString"
+                ? (geometry.coordinates as unknown[][])
+                : [];
+          // "coordTimes" es la convención de togeojson para las horas; en
+          // MultiLineString es un arreglo por línea
+          const times = feature.properties?.coordTimes;
+          const timesFor = (lineIndex: number): unknown[] | undefined => {
+            if (!Array.isArray(times)) return undefined;
+            return geometry?.type === "MultiLineString" ? times[lineIndex] : times;
+          };
+
+          return lines.flatMap((line, lineIndex) =>
+            line.flatMap((position, index) => {
+              const point = fromPosition(position);
+              if (!point) return [];
+              return [
+                { ...point, timestamp: toIsoTime(timesFor(lineIndex)?.[index]) },
+              ];
+            })
+          );
+        });
+
+  if (raw.length === 0) {
+    throw new TrackImportError(
+      "El GeoJSON no contiene puntos ni líneas (LineString)"
+    );
+  }
+
+  const name = features
+    .map((f) => f.properties?.name)
+    .find((n): n is string => typeof n === "string");
+  const { points, synthesized } = fillTimestamps(raw);
+  return {
+    name: name ?? "Recorrido GeoJSON",
+    points,
+    synthesizedTimes: synthesized,
+  };
+};
+
+// Decide el formato por extensión o, si no es clara, por contenido
+export const parseTrackFile = (
+  fileName: string,
+  content: string
+): ImportedTrack => {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  const isGpx =
+    extension === "gpx" ||
+    (extension !== "geojson" &&
+      extension !== "json" &&
+      content.trimStart().startsWith("<"));
+
+  const track = isGpx ? parseGpx(content) : parseGeoJson(content);
+  // Se reproduce en orden cronológico aunque el archivo venga desordenado
+  track.points.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  return track;
+};
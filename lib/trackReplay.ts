@@ -0,0 +1,122 @@
+// lib/trackReplay.ts
+import type { LocationData } from "./locationTypes";
+
+export type ReplayStatus = "idle" | "playing" | "paused" | "finished";
+
+export interface ReplayState {
+  status: ReplayStatus;
+  // Índice del próximo punto a emitir
+  index: number;
+  total: number;
+  speed: number;
+}
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10];
+
+// Huecos largos del archivo (p. ej. GPS apagado) no se esperan completos
+const MAX_REPLAY_GAP_MS = 30000;
+
+export interface TrackReplay {
+  play: () => void;
+  pause: () => void;
+  seek: (index: number) => void;
+  setSpeed: (speed: number) => void;
+  stop: () => void;
+  getState: () => ReplayState;
+}
+
+// Reproduce los puntos respetando los tiempos originales divididos por la
+// velocidad. Cada punto sale con la hora actual, como si fuera en vivo.
+export const createTrackReplay = (
+  points: LocationData[],
+  onPoint: (point: LocationData, index: number) => void,
+  onStateChange: (state: ReplayState) => void
+): TrackReplay => {
+  let state: ReplayState = {
+    status: "idle",
+    index: 0,
+    total: points.length,
+    speed: 1,
+  };
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const setState = (changes: Partial<ReplayState>) => {
+    state = { ...state, ...changes };
+    onStateChange(state);
+  };
+
+  const clearTimer = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const delayBefore = (index: number) => {
+    if (index === 0) return 0;
+    const gap =
+      Date.parse(points[index].timestamp) -
+      Date.parse(points[index - 1].timestamp);
+    return Math.min(Math.max(gap, 0), MAX_REPLAY_GAP_MS) / state.speed;
+  };
+
+  const emitNext = () => {
+    timer = null;
+    const index = state.index;
+    if (index >= points.length) {
+      setState({ status: "finished" });
+      return;
+    }
+
+    onPoint({ ...points[index], timestamp: new Date().toISOString() }, index);
+    setState({ index: index + 1 });
+    schedule();
+  };
+
+  const schedule = () => {
+    clearTimer();
+    if (state.status !== "playing") return;
+
+    if (state.index >= points.length) {
+      setState({ status: "finished" });
+      return;
+    }
+    timer = setTimeout(emitNext, delayBefore(state.index));
+  };
+
+  return {
+    play: () => {
+      if (state.status === "playing") return;
+      setState({
+        status: "playing",
+        index: state.status === "finished" ? 0 : state.index,
+      });
+      schedule();
+    },
+    pause: () => {
+      if (state.status !== "playing") return;
+      clearTimer();
+      setState({ status: "paused" });
+    },
+    seek: (index) => {
+      const clamped = Math.min(Math.max(Math.round(index), 0), points.length);
+      setState({
+        index: clamped,
+        status:
+          state.status === "finished" && clamped < points.length
+            ? "paused"
+            : state.status,
+      });
+      schedule();
+    },
+    setSpeed: (speed) => {
+      setState({ speed });
+      schedule();
+    },
+    stop: () => {
+      clearTimer();
+      setState({ status: "idle", index: 0 });
+    },
+    getState: () => state,
+  };
+};
@@ -0,0 +1,129 @@
+// lib/tripStats.ts
+import { distanceBetween } from "./geo";
+import type { LocationData } from "./locationTypes";
+
+export interface TripStatsOptions {
+  // Desplazamiento mínimo (m) para sumar distancia; por debajo es ruido GPS
+  minMovementMeters: number;
+  // Fracción de la precisión reportada que se considera ruido
+  accuracyJitterFactor: number;
+  // Velocidad (m/s) a partir de la cual el vehículo está en movimiento
+  movingSpeedThreshold: number;
+  // Huecos mayores entre fixes no se suman a tiempo en movimiento/detenido
+  maxGapMs: number;
+}
+
+export const DEFAULT_TRIP_STATS_OPTIONS: TripStatsOptions = {
+  minMovementMeters: 5,
+  accuracyJitterFactor: 0.5,
+  movingSpeedThreshold: 1,
+  maxGapMs: 5 * 60 * 1000,
+};
+
+export interface TripStats {
+  pointCount: number;
+  distanceMeters: number;
+  movingMs: number;
+  idleMs: number;
+  maxSpeed: number;
+  // Acumuladores para la media real de precisión
+  accuracySum: number;
+  accuracyCount: number;
+  // Último fix recibido (para tiempos) y último punto que sumó distancia
+  lastFix: LocationData | null;
+  anchor: LocationData | null;
+}
+
+export const createTripStats = (): TripStats => ({
+  pointCount: 0,
+  distanceMeters: 0,
+  movingMs: 0,
+  idleMs: 0,
+  maxSpeed: 0,
+  accuracySum: 0,
+  accuracyCount: 0,
+  lastFix: null,
+  anchor: null,
+});
+
+// Corta la continuidad (p. ej. al reanudar un viaje) sin perder acumulados
+export const breakTripStats = (stats: TripStats): TripStats => ({
+  ...stats,
+  lastFix: null,
+  anchor: null,
+});
+
+const jitterThreshold = (
+  from: LocationData,
+  to: LocationData,
+  options: TripStatsOptions
+) =>
+  Math.max(
+    options.minMovementMeters,
+    Math.max(from.accuracy ?? 0, to.accuracy ?? 0) *
+      options.accuracyJitterFactor
+  );
+
+// Incorpora un fix aceptado a las estadísticas
+export const addFix = (
+  stats: TripStats,
+  fix: LocationData,
+  options: TripStatsOptions = DEFAULT_TRIP_STATS_OPTIONS
+): TripStats => {
+  const next: TripStats = {
+    ...stats,
+    pointCount: stats.pointCount + 1,
+    lastFix: fix,
+    anchor: stats.anchor ?? fix,
+  };
+
+  if (fix.accuracy !== undefined) {
+    next.accuracySum += fix.accuracy;
+    next.accuracyCount += 1;
+  }
+
+  const { lastFix, anchor } = stats;
+  if (!lastFix || !anchor) {
+    if (fix.speed !== undefined) {
+      next.maxSpeed = Math.max(stats.maxSpeed, fix.speed);
+    }
+    return next;
+  }
+
+  const elapsedMs = Date.parse(fix.timestamp) - Date.parse(lastFix.timestamp);
+  // Fuera de orden o repetido: no sirve de referencia para el siguiente
+  if (elapsedMs <= 0) return { ...next, lastFix };
+
+  // Distancia: solo cuenta si se alejó del ancla más que el ruido esperado
+  const fromAnchor = distanceBetween(anchor, fix);
+  const moved = fromAnchor > jitterThreshold(anchor, fix, options);
+  if (moved) {
+    next.distanceMeters += fromAnchor;
+    next.anchor = fix;
+  } else {
+    next.anchor = anchor;
+  }
+
+  const derivedSpeed = moved
+    ? distanceBetween(lastFix, fix) / (elapsedMs / 1000)
+    : 0;
+  const speed = fix.speed ?? derivedSpeed;
+  next.maxSpeed = Math.max(stats.maxSpeed, speed);
+
+  if (elapsedMs <= options.maxGapMs) {
+    if (speed > options.movingSpeedThreshold) {
+      next.movingMs += elapsedMs;
+    } else {
+      next.idleMs += elapsedMs;
+    }
+  }
+
+  return next;
+};
+
+export const getMeanAccuracy = (stats: TripStats) =>
+  stats.accuracyCount > 0 ? stats.accuracySum / stats.accuracyCount : 0;
+
+// Velocidad media en movimiento (m/s)
+export const getAverageSpeed = (stats: TripStats) =>
+  stats.movingMs > 0 ? stats.distanceMeters / (stats.movingMs / 1000) : 0;
@@ -0,0 +1,206 @@
+// lib/trips.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { api } from "./api";
+import { createClientId } from "./locationDelivery";
+import {
+  getTripSummaryRecord,
+  listTripSummaryRecords,
+  markTripSummaryRecordsSynced,
+  saveTripSummaryRecord,
+} from "./locationHistory";
+import {
+  breakTripStats,
+  createTripStats,
+  getAverageSpeed,
+  getMeanAccuracy,
+  TripStats,
+} from "./tripStats";
+
+const ACTIVE_TRIP_KEY = "activeTrip";
+// Versiones anteriores guardaban los resúmenes en AsyncStorage
+const LEGACY_TRIP_SUMMARIES_KEY = "tripSummaries";
+
+export type TripStatus = "active" | "paused";
+
+export interface Trip {
+  id: string;
+  vehicleId: string;
+  status: TripStatus;
+  startedAt: string;
+  // Inicio de la pausa actual, si el viaje está pausado
+  pausedAt: string | null;
+  pausedMs: number;
+  stats: TripStats;
+}
+
+export interface TripSummary {
+  tripId: string;
+  vehicleId: string;
+  startedAt: string;
+  endedAt: string;
+  durationMs: number;
+  distanceMeters: number;
+  movingMs: number;
+  idleMs: number;
+  maxSpeed: number;
+  avgSpeed: number;
+  meanAccuracy: number;
+  pointCount: number;
+  // Si el backend ya recibió el resumen
+  synced: boolean;
+}
+
+export const createTrip = (vehicleId: string): Trip => ({
+  id: `trip-${createClientId()}`,
+  vehicleId,
+  status: "active",
+  startedAt: new Date().toISOString(),
+  pausedAt: null,
+  pausedMs: 0,
+  stats: createTripStats(),
+});
+
+export const pauseTrip = (trip: Trip): Trip =>
+  trip.status === "paused"
+    ? trip
+    : { ...trip, status: "paused", pausedAt: new Date().toISOString() };
+
+// Al reanudar se corta la continuidad para no sumar el tramo en pausa
+export const resumeTrip = (trip: Trip): Trip => {
+  if (trip.status !== "paused" || !trip.pausedAt) return trip;
+
+  return {
+    ...trip,
+    status: "active",
+    pausedAt: null,
+    pausedMs: trip.pausedMs + (Date.now() - Date.parse(trip.pausedAt)),
+    stats: breakTripStats(trip.stats),
+  };
+};
+
+export const summarizeTrip = (trip: Trip, endedAt = new Date()): TripSummary => {
+  const openPauseMs = trip.pausedAt
+    ? endedAt.getTime() - Date.parse(trip.pausedAt)
+    : 0;
+
+  return {
+    tripId: trip.id,
+    vehicleId: trip.vehicleId,
+    startedAt: trip.startedAt,
+    endedAt: endedAt.toISOString(),
+    durationMs: Math.max(
+      0,
+      endedAt.getTime() -
+        Date.parse(trip.startedAt) -
+        trip.pausedMs -
+        openPauseMs
+    ),
+    distanceMeters: trip.stats.distanceMeters,
+    movingMs: trip.stats.movingMs,
+    idleMs: trip.stats.idleMs,
+    maxSpeed: trip.stats.maxSpeed,
+    avgSpeed: getAverageSpeed(trip.stats),
+    meanAccuracy: getMeanAccuracy(trip.stats),
+    pointCount: trip.stats.pointCount,
+    synced: false,
+  };
+};
+
+// "1h 05m", "12m", "45s"
+export const formatDuration = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, "0")}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${totalSeconds}s`;
+};
+
+// Persistencia del viaje en curso
+
+export const loadActiveTrip = async (): Promise<Trip | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(ACTIVE_TRIP_KEY);
+    return raw ? (JSON.parse(raw) as Trip) : null;
+  } catch (error) {
+    console.error("❌ Error leyendo viaje activo:", error);
+    return null;
+  }
+};
+
+export const saveActiveTrip = (trip: Trip | null) =>
+  trip
+    ? AsyncStorage.setItem(ACTIVE_TRIP_KEY, JSON.stringify(trip))
+    : AsyncStorage.removeItem(ACTIVE_TRIP_KEY);
+
+// Resúmenes de viajes terminados (en el historial local, ver locationHistory)
+
+let legacyImport: Promise<void> | null = null;
+
+// Pasa una sola vez los resúmenes de AsyncStorage a la base del historial
+const importLegacySummaries = () => {
+  if (!legacyImport) {
+    legacyImport = (async () => {
+      const raw = await AsyncStorage.getItem(LEGACY_TRIP_SUMMARIES_KEY);
+      if (!raw) return;
+
+      for (const summary of JSON.parse(raw) as TripSummary[]) {
+        await saveTripSummaryRecord(summary);
+      }
+      await AsyncStorage.removeItem(LEGACY_TRIP_SUMMARIES_KEY);
+    })().catch((error) => {
+      legacyImport = null;
+      console.error("❌ Error migrando resúmenes de viaje:", error);
+    });
+  }
+  return legacyImport;
+};
+
+export const loadTripSummaries = async (): Promise<TripSummary[]> => {
+  try {
+    await importLegacySummaries();
+    return await listTripSummaryRecords();
+  } catch (error) {
+    console.error("❌ Error leyendo resúmenes de viaje:", error);
+    return [];
+  }
+};
+
+export const getTripSummary = async (
+  tripId: string
+): Promise<TripSummary | null> => {
+  try {
+    await importLegacySummaries();
+    return await getTripSummaryRecord(tripId);
+  } catch (error) {
+    console.error(`❌ Error leyendo resumen ${tripId}:`, error);
+    return null;
+  }
+};
+
+export const storeTripSummary = (summary: TripSummary) =>
+  saveTripSummaryRecord(summary);
+
+const postTripSummary = async ({ synced: _synced, ...summary }: TripSummary) => {
+  await api.post("/trips", summary);
+};
+
+// Envía al backend los resúmenes que aún no se sincronizaron
+export const syncTripSummaries = async (): Promise<number> => {
+  const pending = (await loadTripSummaries()).filter((s) => !s.synced);
+  const syncedIds: string[] = [];
+
+  for (const summary of pending) {
+    try {
+      await postTripSummary(summary);
+      syncedIds.push(summary.tripId);
+    } catch (error) {
+      console.error(`❌ Error enviando resumen ${summary.tripId}:`, error);
+    }
+  }
+
+  await markTripSummaryRecordsSynced(syncedIds);
+
+  return pending.length - syncedIds.length;
+};
@@ -0,0 +1,58 @@
+// lib/vehicles.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { api } from "./api";
+
+const ASSIGNED_VEHICLE_KEY = "assignedVehicle";
+
+export interface Vehicle {
+  id: string;
+  plate: string;
+  name?: string;
+  status?: "available" | "assigned" | "inactive";
+}
+
+// Vehículo reclamado por el conductor, guardado junto con su usuario
+interface StoredAssignment {
+  userId: string;
+  vehicle: Vehicle;
+}
+
+export const getVehicleLabel = (vehicle: Vehicle) =>
+  vehicle.name ? `${vehicle.plate} · ${vehicle.name}` : vehicle.plate;
+
+export const fetchAvailableVehicles = async (): Promise<Vehicle[]> => {
+  const { data } = await api.get<Vehicle[]>("/vehicles?status=available");
+  return data ?? [];
+};
+
+export const claimVehicle = async (vehicleId: string): Promise<Vehicle> => {
+  const { data } = await api.post<Vehicle>(`/vehicles/${vehicleId}/claim`);
+  return data;
+};
+
+export const releaseVehicle = async (vehicleId: string): Promise<void> => {
+  await api.post(`/vehicles/${vehicleId}/release`);
+};
+
+export const loadAssignedVehicle = async (
+  userId: string
+): Promise<Vehicle | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(ASSIGNED_VEHICLE_KEY);
+    if (!raw) return null;
+    const assignment: StoredAssignment = JSON.parse(raw);
+    return assignment.userId === userId ? assignment.vehicle : null;
+  } catch (error) {
+    console.error("❌ Error leyendo vehículo asignado:", error);
+    return null;
+  }
+};
+
+export const saveAssignedVehicle = (userId: string, vehicle: Vehicle) =>
+  AsyncStorage.setItem(
+    ASSIGNED_VEHICLE_KEY,
+    JSON.stringify({ userId, vehicle } satisfies StoredAssignment)
+  );
+
+export const clearAssignedVehicle = () =>
+  AsyncStorage.removeItem(ASSIGNED_VEHICLE_KEY);
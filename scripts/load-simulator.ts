@@ -0,0 +1,167 @@
+/**
+ * Prueba de carga del servidor de tracking: simula N vehículos, cada uno con
+ * su propia conexión a /locations, recorriendo rutas de la región elegida
+ * (Cartagena por defecto).
+ *
+ *   npm run simulate:load -- --vehicles 50 --interval 1000 --duration 120
+ *
+ * La URL sale de EXPO_PUBLIC_BASE_URL (o --url) y el token de
+ * LOAD_TEST_TOKEN (o --token). Con la misma --seed se repiten las rutas.
+ */
+
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import {
+  createLoadSimulation,
+  DEFAULT_LOAD_SIMULATION_CONFIG,
+  LoadSimulationStats,
+} from "../lib/loadSimulator";
+import {
+  BUILT_IN_REGIONS,
+  parseRegionProfiles,
+  RegionProfile,
+} from "../lib/regions";
+
+const { values } = parseArgs({
+  options: {
+    url: { type: "string" },
+    token: { type: "string" },
+    vehicles: { type: "string" },
+    interval: { type: "string" },
+    duration: { type: "string" },
+    seed: { type: "string" },
+    prefix: { type: "string" },
+    region: { type: "string" },
+    help: { type: "boolean", short: "h" },
+  },
+});
+
+if (values.help) {
+  console.log(`Uso: npm run simulate:load -- [opciones]
+
+  --url <url>        Namespace de ubicaciones (por defecto $EXPO_PUBLIC_BASE_URL/locations)
+  --token <jwt>      Token de acceso (por defecto $LOAD_TEST_TOKEN)
+  --vehicles <n>     Vehículos simulados (${DEFAULT_LOAD_SIMULATION_CONFIG.vehicleCount})
+  --interval <ms>    Intervalo entre ubicaciones por vehículo (${DEFAULT_LOAD_SIMULATION_CONFIG.intervalMs})
+  --duration <s>     Duración de la prueba; 0 hasta Ctrl+C (${DEFAULT_LOAD_SIMULATION_CONFIG.durationMs / 1000})
+  --seed <semilla>   Semilla de las rutas (${DEFAULT_LOAD_SIMULATION_CONFIG.seed})
+  --prefix <texto>   Prefijo de los ids de vehículo (${DEFAULT_LOAD_SIMULATION_CONFIG.vehicleIdPrefix})
+  --region <id|json> Región incluida (${BUILT_IN_REGIONS.map((r) => r.id).join(", ")}) o archivo JSON de perfil (${DEFAULT_LOAD_SIMULATION_CONFIG.region.id})`);
+  process.exit(0);
+}
+
+const toPositiveInt = (value: string | undefined, fallback: number) => {
+  if (value === undefined) return fallback;
+  const number = parseInt(value, 10);
+  if (!Number.isFinite(number) || number < 0) {
+    console.error(`❌ Valor inválido: ${value}`);
+    process.exit(1);
+  }
+  return number;
+};
+
+const baseUrl = process.env.EXPO_PUBLIC_BASE_URL;
+const url = values.url ?? (baseUrl ? `${baseUrl}/locations` : undefined);
+if (!url) {
+  console.error("❌ Falta --url o EXPO_PUBLIC_BASE_URL");
+  process.exit(1);
+}
+
+// Id de una región incluida o ruta a un JSON de perfil (se usa el primero)
+const loadRegion = (value: string | undefined): RegionProfile => {
+  if (value === undefined) return DEFAULT_LOAD_SIMULATION_CONFIG.region;
+
+  const builtIn = BUILT_IN_REGIONS.find((region) => region.id === value);
+  if (builtIn) return builtIn;
+
+  try {
+    return parseRegionProfiles(readFileSync(value, "utf8"))[0];
+  } catch (error) {
+    console.error(
+      `❌ Región inválida "${value}":`,
+      error instanceof Error ? error.message : error
+    );
+    process.exit(1);
+  }
+};
+
+const config = {
+  ...DEFAULT_LOAD_SIMULATION_CONFIG,
+  url,
+  token: values.token ?? process.env.LOAD_TEST_TOKEN,
+  vehicleCount: Math.max(
+    1,
+    toPositiveInt(values.vehicles, DEFAULT_LOAD_SIMULATION_CONFIG.vehicleCount)
+  ),
+  intervalMs: Math.max(
+    100,
+    toPositiveInt(values.interval, DEFAULT_LOAD_SIMULATION_CONFIG.intervalMs)
+  ),
+  durationMs:
+    toPositiveInt(
+      values.duration,
+      DEFAULT_LOAD_SIMULATION_CONFIG.durationMs / 1000
+    ) * 1000,
+  seed: values.seed ?? DEFAULT_LOAD_SIMULATION_CONFIG.seed,
+  vehicleIdPrefix:
+    values.prefix ?? DEFAULT_LOAD_SIMULATION_CONFIG.vehicleIdPrefix,
+  region: loadRegion(values.region),
+};
+
+const formatMs = (value: number) => `${Math.round(value)} ms`;
+
+const printProgress = (stats: LoadSimulationStats) => {
+  const seconds = Math.floor(stats.elapsedMs / 1000);
+  if (seconds % 5 !== 0) return;
+  console.log(
+    `⏱️ ${seconds}s · conectados ${stats.connected}/${config.vehicleCount} · enviados ${stats.sent} · confirmados ${stats.acked} · ${stats.throughput.toFixed(1)}/s` +
+      (stats.latency ? ` · p95 ${formatMs(stats.latency.p95)}` : "")
+  );
+};
+
+const printReport = (stats: LoadSimulationStats) => {
+  const failed = stats.rejected + stats.timeouts;
+  console.log("\n📊 Resultado");
+  console.table({
+    "Duración (s)": (stats.elapsedMs / 1000).toFixed(1),
+    Vehículos: config.vehicleCount,
+    "Errores de conexión": stats.connectErrors,
+    Desconexiones: stats.disconnects,
+    Enviados: stats.sent,
+    Confirmados: stats.acked,
+    Rechazados: stats.rejected,
+    "Sin ack": stats.timeouts,
+    "Omitidos (sin conexión)": stats.skipped,
+    "Tasa de error": stats.sent
+      ? `${((failed / stats.sent) * 100).toFixed(2)}%`
+      : "-",
+    "Throughput (ubic/s)": stats.throughput.toFixed(1),
+  });
+  if (stats.latency) {
+    console.log("⏱️ Latencia del ack");
+    console.table({
+      promedio: formatMs(stats.latency.avg),
+      p50: formatMs(stats.latency.p50),
+      p95: formatMs(stats.latency.p95),
+      p99: formatMs(stats.latency.p99),
+      máximo: formatMs(stats.latency.max),
+    });
+  }
+};
+
+console.log(
+  `🚚 Simulando ${config.vehicleCount} vehículos en ${config.region.name} contra ${config.url} cada ${config.intervalMs} ms (semilla ${config.seed})`
+);
+
+const simulation = createLoadSimulation(config, printProgress);
+
+process.on("SIGINT", () => {
+  console.log("\n🛑 Deteniendo...");
+  simulation.stop();
+});
+
+simulation.done.then((stats) => {
+  printReport(stats);
+  // Sin ninguna confirmación la prueba no sirve: código de salida de error
+  process.exit(stats.acked > 0 ? 0 : 1);
+});